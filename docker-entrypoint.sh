@@ -24,6 +24,20 @@ npx prisma db push --accept-data-loss
 
 echo "Database schema applied successfully!"
 
+# Give orders claimed before partial fills existed their fill rows. Safe to
+# run on every start: orders that already have fills are skipped.
+echo "Backfilling order fills..."
+npm run db:backfill-fills-production
+
+echo "Order fills backfilled successfully!"
+
+# Recount abandoned claims from the order audit trail, dropping releases that
+# followed an edit to the order. Safe to run on every start.
+echo "Recounting abandoned claims..."
+npm run db:recount-abandoned-claims-production
+
+echo "Abandoned claims recounted successfully!"
+
 # Seed the database (production mode - pricing only)
 echo "Seeding database (production mode - pricing data only)..."
 npm run db:seed-production
@@ -10,6 +10,8 @@ const nextConfig = {
   swcMinify: true,
   experimental: {
     swcMinify: true,
+    instrumentationHook: true, // Starts the order expiration sweeper
+    serverComponentsExternalPackages: ["pg", "web-push"], // Notification bus and push delivery
   },
   reactStrictMode: false, // Temporarily disable to test duplicate calls
 };
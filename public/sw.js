@@ -0,0 +1,57 @@
+// Service worker for Web Push notifications. Shows order notifications when
+// no tab of the app is visible, and focuses or opens the app when clicked.
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener("push", (event) => {
+  if (!event.data) return;
+
+  let payload;
+  try {
+    payload = event.data.json();
+  } catch (error) {
+    payload = { title: "FarmyFishFry", message: event.data.text() };
+  }
+
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((clients) => {
+        // A visible tab already shows the notification in-page
+        if (clients.some((client) => client.visibilityState === "visible")) {
+          return;
+        }
+
+        return self.registration.showNotification(payload.title, {
+          body: payload.message,
+          icon: "/favicon.ico",
+          tag: payload.orderId || payload.type,
+          data: { url: payload.url || "/orders" },
+        });
+      })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || "/orders";
+
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((clients) => {
+        const existing = clients.find((client) => "focus" in client);
+        if (existing) {
+          existing.navigate(url);
+          return existing.focus();
+        }
+        return self.clients.openWindow(url);
+      })
+  );
+});
@@ -21,6 +21,7 @@ import {
 import { useSessionContext } from "@/contexts/SessionContext";
 import { ConfirmationModal } from "@/components/ui/confirmation-modal";
 import { AdminEditOrderModal } from "@/components/admin-edit-order-modal";
+import { OrderHistoryModal } from "@/components/order-history-modal";
 import { formatPrice } from "@/lib/pricing";
 
 interface Order {
@@ -31,6 +32,7 @@ interface Order {
   amount: number;
   orderType: string;
   status: string;
+  requireConfirmation?: boolean;
   createdAt: string;
   fulfilledAt?: string;
   creator: {
@@ -43,8 +45,25 @@ interface Order {
     discordName: string;
     inGameName: string | null;
   } | null;
+  fills?: {
+    id: string;
+    amount: number;
+    status: string;
+    disputedAt?: string | null;
+    disputedById?: string | null;
+    disputeReason?: string | null;
+    creatorConfirmedAt?: string | null;
+    claimerConfirmedAt?: string | null;
+    claimer: {
+      id: string;
+      discordName: string;
+      inGameName: string | null;
+    };
+  }[];
 }
 
+type DisputeResolution = "complete" | "release" | "resume";
+
 export default function AdminOrdersPage() {
   const router = useRouter();
   const { isAdmin, adminLoading, session } = useSessionContext();
@@ -68,6 +87,15 @@ export default function AdminOrdersPage() {
     isLoading: false,
   });
 
+  const [historyOrder, setHistoryOrder] = useState<Order | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // Dispute resolution state, keyed by fill ID
+  const [resolutionNotes, setResolutionNotes] = useState<
+    Record<string, string>
+  >({});
+  const [resolvingFillId, setResolvingFillId] = useState<string | null>(null);
+
   // Edit modal state
   const [editModal, setEditModal] = useState<{
     isOpen: boolean;
@@ -110,7 +138,35 @@ export default function AdminOrdersPage() {
     };
 
     fetchOrders();
-  }, [isAdmin]);
+  }, [isAdmin, reloadKey]);
+
+  // Every disputed claim across all orders, oldest first
+  const disputes = useMemo(() => {
+    return orders
+      .flatMap((order) =>
+        (order.fills || [])
+          .filter((fill) => fill.status === "DISPUTED")
+          .map((fill) => ({ order, fill }))
+      )
+      .sort((a, b) =>
+        (a.fill.disputedAt || "").localeCompare(b.fill.disputedAt || "")
+      );
+  }, [orders]);
+
+  // Trades where one side has confirmed and the other hasn't yet
+  const awaitingConfirmation = useMemo(() => {
+    return orders.flatMap((order) =>
+      order.requireConfirmation
+        ? (order.fills || [])
+            .filter(
+              (fill) =>
+                fill.status === "READY_TO_TRADE" &&
+                (fill.creatorConfirmedAt || fill.claimerConfirmedAt)
+            )
+            .map((fill) => ({ order, fill }))
+        : []
+    );
+  }, [orders]);
 
   // Filter orders
   const filteredOrders = useMemo(() => {
@@ -241,6 +297,78 @@ export default function AdminOrdersPage() {
     }
   };
 
+  const resolveDispute = async (
+    orderId: string,
+    fillId: string,
+    resolution: DisputeResolution
+  ) => {
+    setResolvingFillId(fillId);
+
+    try {
+      const response = await fetch(`/api/admin/orders/${orderId}/dispute`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          fillId,
+          resolution,
+          note: resolutionNotes[fillId] || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to resolve dispute");
+      }
+
+      setMessage(`Dispute on order ${orderId} resolved`);
+      setTimeout(() => setMessage(""), 3000);
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      setMessage(
+        `Error resolving dispute: ${
+          err instanceof Error ? err.message : "Unknown error"
+        }`
+      );
+      setTimeout(() => setMessage(""), 5000);
+    } finally {
+      setResolvingFillId(null);
+    }
+  };
+
+  const forceComplete = async (orderId: string, fillId: string) => {
+    setResolvingFillId(fillId);
+
+    try {
+      const response = await fetch(`/api/admin/orders/${orderId}/complete`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ fillId }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to complete trade");
+      }
+
+      setMessage(`Trade on order ${orderId} completed`);
+      setTimeout(() => setMessage(""), 3000);
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      setMessage(
+        `Error completing trade: ${
+          err instanceof Error ? err.message : "Unknown error"
+        }`
+      );
+      setTimeout(() => setMessage(""), 5000);
+    } finally {
+      setResolvingFillId(null);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString();
   };
@@ -255,6 +383,9 @@ export default function AdminOrdersPage() {
       IN_PROGRESS: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
       READY_TO_TRADE: "bg-primary/20 text-primary border-primary/30",
       FULFILLED: "bg-muted text-muted-foreground border-border",
+      EXPIRED: "bg-muted text-muted-foreground border-border line-through",
+      CANCELLED: "bg-muted text-muted-foreground border-border line-through",
+      DISPUTED: "bg-red-500/20 text-red-400 border-red-500/30",
     };
     return badges[status as keyof typeof badges] || badges.OPEN;
   };
@@ -320,6 +451,9 @@ export default function AdminOrdersPage() {
                 <SelectItem value="IN_PROGRESS">In Progress</SelectItem>
                 <SelectItem value="READY_TO_TRADE">Ready</SelectItem>
                 <SelectItem value="FULFILLED">Fulfilled</SelectItem>
+                <SelectItem value="EXPIRED">Expired</SelectItem>
+                <SelectItem value="CANCELLED">Cancelled</SelectItem>
+                <SelectItem value="DISPUTED">Disputed</SelectItem>
               </SelectContent>
             </Select>
             <Select value={typeFilter} onValueChange={setTypeFilter}>
@@ -353,6 +487,163 @@ export default function AdminOrdersPage() {
         </Card>
       )}
 
+      {/* Disputes */}
+      {disputes.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Disputes ({disputes.length})</CardTitle>
+            <CardDescription>
+              Trades flagged by the creator or claimer. Complete the trade,
+              release the claim back to the order, or send it back to ready.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {disputes.map(({ order, fill }) => {
+              const raisedBy =
+                fill.disputedById === order.creator.id
+                  ? order.creator
+                  : fill.claimer;
+              const isResolving = resolvingFillId === fill.id;
+
+              return (
+                <div
+                  key={fill.id}
+                  className="border border-red-500/30 rounded-lg p-3 space-y-2"
+                >
+                  <div className="flex flex-wrap justify-between gap-2 text-sm">
+                    <div className="font-medium">
+                      T{order.tier}{" "}
+                      {order.itemName.charAt(0).toUpperCase() +
+                        order.itemName.slice(1).toLowerCase()}{" "}
+                      ×{fill.amount.toLocaleString()}{" "}
+                      <span className="text-muted-foreground font-normal">
+                        ({order.orderType})
+                      </span>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {fill.disputedAt && formatDateTime(fill.disputedAt)}
+                    </div>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    Creator:{" "}
+                    {order.creator.inGameName || order.creator.discordName} ·
+                    Claimer:{" "}
+                    {fill.claimer.inGameName || fill.claimer.discordName} ·
+                    Raised by: {raisedBy.inGameName || raisedBy.discordName}
+                  </div>
+                  {fill.disputeReason && (
+                    <p className="text-sm">{fill.disputeReason}</p>
+                  )}
+                  <div className="flex flex-wrap gap-2">
+                    <Input
+                      placeholder="Resolution note (optional)"
+                      value={resolutionNotes[fill.id] || ""}
+                      onChange={(e) =>
+                        setResolutionNotes((prev) => ({
+                          ...prev,
+                          [fill.id]: e.target.value,
+                        }))
+                      }
+                      className="flex-1 min-w-48 h-8"
+                      disabled={isResolving}
+                    />
+                    <Button
+                      size="sm"
+                      onClick={() =>
+                        resolveDispute(order.id, fill.id, "complete")
+                      }
+                      disabled={isResolving}
+                      className="h-8 px-3 text-xs"
+                    >
+                      Complete Trade
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() =>
+                        resolveDispute(order.id, fill.id, "resume")
+                      }
+                      disabled={isResolving}
+                      className="h-8 px-3 text-xs"
+                    >
+                      Back to Ready
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() =>
+                        resolveDispute(order.id, fill.id, "release")
+                      }
+                      disabled={isResolving}
+                      className="h-8 px-3 text-xs"
+                    >
+                      Release Claim
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Awaiting confirmation */}
+      {awaitingConfirmation.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              Awaiting Confirmation ({awaitingConfirmation.length})
+            </CardTitle>
+            <CardDescription>
+              Trades one side has confirmed and the other hasn&apos;t yet. They
+              complete on their own once the confirmation timeout passes.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {awaitingConfirmation.map(({ order, fill }) => {
+              const confirmedBy = fill.creatorConfirmedAt
+                ? order.creator
+                : fill.claimer;
+              const confirmedAt =
+                fill.creatorConfirmedAt || fill.claimerConfirmedAt;
+              const isCompleting = resolvingFillId === fill.id;
+
+              return (
+                <div
+                  key={fill.id}
+                  className="border rounded-lg p-3 flex flex-wrap items-center justify-between gap-2"
+                >
+                  <div className="space-y-1">
+                    <div className="text-sm font-medium">
+                      T{order.tier}{" "}
+                      {order.itemName.charAt(0).toUpperCase() +
+                        order.itemName.slice(1).toLowerCase()}{" "}
+                      ×{fill.amount.toLocaleString()}{" "}
+                      <span className="text-muted-foreground font-normal">
+                        ({order.orderType})
+                      </span>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      Confirmed by{" "}
+                      {confirmedBy.inGameName || confirmedBy.discordName}
+                      {confirmedAt && ` · ${formatDateTime(confirmedAt)}`}
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => forceComplete(order.id, fill.id)}
+                    disabled={isCompleting}
+                    className="h-8 px-3 text-xs"
+                  >
+                    Force Complete
+                  </Button>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Orders Table */}
       <Card>
         <CardHeader>
@@ -462,6 +753,14 @@ export default function AdminOrdersPage() {
                       </td>
                       <td className="px-4 py-3">
                         <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setHistoryOrder(order)}
+                            className="h-8 px-3 text-xs"
+                          >
+                            History
+                          </Button>
                           <Button
                             size="sm"
                             variant="outline"
@@ -489,6 +788,13 @@ export default function AdminOrdersPage() {
         </CardContent>
       </Card>
 
+      {/* Order History Modal */}
+      <OrderHistoryModal
+        isOpen={historyOrder !== null}
+        onClose={() => setHistoryOrder(null)}
+        order={historyOrder}
+      />
+
       {/* Edit Order Modal */}
       <AdminEditOrderModal
         isOpen={editModal.isOpen}
@@ -17,6 +17,8 @@ import { useSessionContext } from "@/contexts/SessionContext";
 import { PricingData } from "@/lib/pricing";
 import { ConfirmationModal } from "@/components/ui/confirmation-modal";
 import { AddItemModal } from "@/components/ui/add-item-modal";
+import { PriceSuggestionsPanel } from "@/components/price-suggestions-panel";
+import { PriceImportModal } from "@/components/price-import-modal";
 
 interface EditableItem {
   name: string;
@@ -35,6 +37,8 @@ export default function AdminPricingPage() {
   const [saving, setSaving] = useState(false);
   const [message, setMessage] = useState("");
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [showImport, setShowImport] = useState(false);
 
   // Modal states
   const [addItemModal, setAddItemModal] = useState({
@@ -389,6 +393,18 @@ export default function AdminPricingPage() {
           </p>
         </div>
         <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setShowSuggestions(true)}
+            disabled={hasUnsavedChanges || showSuggestions}
+            title={
+              hasUnsavedChanges
+                ? "Save or cancel your changes before using suggestions"
+                : undefined
+            }
+          >
+            Suggest Updates
+          </Button>
           <Button
             variant="outline"
             onClick={() => router.push("/admin/orders")}
@@ -440,10 +456,49 @@ export default function AdminPricingPage() {
         </Card>
       )}
 
+      {showSuggestions && (
+        <PriceSuggestionsPanel
+          onApplied={(count) => {
+            // Reload so the editable grid shows the applied prices
+            clearCache();
+            setMessage(
+              `Applied ${count} suggested price ${
+                count === 1 ? "update" : "updates"
+              }`
+            );
+          }}
+          onClose={() => setShowSuggestions(false)}
+        />
+      )}
+
       <div className="flex justify-between items-center">
-        <Button onClick={addNewItem} disabled={saving}>
-          Add New Item
-        </Button>
+        <div className="flex gap-2">
+          <Button onClick={addNewItem} disabled={saving}>
+            Add New Item
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setShowImport(true)}
+            disabled={saving || hasUnsavedChanges}
+            title={
+              hasUnsavedChanges
+                ? "Save or cancel your changes before importing"
+                : undefined
+            }
+          >
+            Import
+          </Button>
+          <Button asChild variant="outline">
+            <a href="/api/admin/pricing/export?format=csv" download>
+              Export CSV
+            </a>
+          </Button>
+          <Button asChild variant="outline">
+            <a href="/api/admin/pricing/export?format=json" download>
+              Export JSON
+            </a>
+          </Button>
+        </div>
         <div className="text-sm text-muted-foreground">
           {editableItems.length} items • Supports tiers 1-10
         </div>
@@ -755,6 +810,19 @@ export default function AdminPricingPage() {
         isLoading={addItemModal.isLoading}
       />
 
+      {/* Import Prices Modal */}
+      <PriceImportModal
+        isOpen={showImport}
+        onClose={() => setShowImport(false)}
+        onImported={(diff) => {
+          // Reload so the editable grid shows the imported prices
+          clearCache();
+          setMessage(
+            `Imported prices: ${diff.created.length} created, ${diff.updated.length} updated, ${diff.deleted.length} deleted`
+          );
+        }}
+      />
+
       {/* Delete Item Confirmation Modal */}
       <ConfirmationModal
         isOpen={deleteModal.isOpen}
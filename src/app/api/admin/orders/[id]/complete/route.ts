@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { NotificationService } from "@/lib/notification-service";
+import { fillClaimerInclude } from "@/lib/order-fills";
+import { OrderConflictError, completeFill } from "@/lib/order-state";
+import { canTransition } from "@/lib/order-transitions";
+
+// Force dynamic rendering for this route
+export const dynamic = "force-dynamic";
+
+async function getAdminUser(discordId: string) {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { discordId },
+      select: { id: true, isAdmin: true },
+    });
+    return user?.isAdmin ? user : null;
+  } catch (error) {
+    console.error("Error checking admin status:", error);
+    return null;
+  }
+}
+
+// POST - Complete a trade without waiting for both sides to confirm it
+// (admin only). Body: { fillId }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.discordId) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const adminUser = await getAdminUser(session.user.discordId);
+    if (!adminUser) {
+      return NextResponse.json(
+        { error: "Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const orderId = params.id;
+    const { fillId } = await request.json().catch(() => ({}));
+
+    if (!fillId || typeof fillId !== "string") {
+      return NextResponse.json(
+        { error: "fillId is required" },
+        { status: 400 }
+      );
+    }
+
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: {
+        creator: { select: { discordId: true } },
+        fills: { where: { id: fillId }, include: fillClaimerInclude },
+      },
+    });
+
+    if (!order) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    }
+
+    const fill = order.fills[0];
+    if (!fill) {
+      return NextResponse.json({ error: "Claim not found" }, { status: 404 });
+    }
+
+    if (
+      fill.status !== "READY_TO_TRADE" ||
+      !canTransition("complete", {
+        from: fill.status,
+        orderType: order.orderType,
+        role: "admin",
+      })
+    ) {
+      return NextResponse.json(
+        { error: "Only claims that are ready to trade can be completed" },
+        { status: 400 }
+      );
+    }
+
+    await completeFill({
+      orderId,
+      fillId,
+      actorId: adminUser.id,
+      role: "admin",
+      via: "admin",
+      // Admins may also complete claims in progress or disputed elsewhere;
+      // this route only skips the confirmation of a claim ready to trade
+      from: ["READY_TO_TRADE"],
+    });
+
+    await NotificationService.handleOrderUpdate(
+      orderId,
+      "FULFILLED",
+      fill.status,
+      fill
+    );
+    await NotificationService.notifyClaimCompleted(order, fill);
+    await NotificationService.broadcastOrderChange("order_updated", orderId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof OrderConflictError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("Error completing order:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
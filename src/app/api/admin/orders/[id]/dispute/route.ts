@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { NotificationService } from "@/lib/notification-service";
+import { fillClaimerInclude } from "@/lib/order-fills";
+import { OrderConflictError, resolveDispute } from "@/lib/order-state";
+import {
+  DISPUTE_RESOLUTION_ACTIONS,
+  DisputeResolution,
+  canTransition,
+} from "@/lib/order-transitions";
+
+// Force dynamic rendering for this route
+export const dynamic = "force-dynamic";
+
+async function getAdminUser(discordId: string) {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { discordId },
+      select: { id: true, isAdmin: true },
+    });
+    return user?.isAdmin ? user : null;
+  } catch (error) {
+    console.error("Error checking admin status:", error);
+    return null;
+  }
+}
+
+// POST - Resolve a disputed claim (admin only).
+// Body: { fillId, resolution: "complete" | "release" | "resume", note? }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.discordId) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const adminUser = await getAdminUser(session.user.discordId);
+    if (!adminUser) {
+      return NextResponse.json(
+        { error: "Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const orderId = params.id;
+    const { fillId, resolution, note } = await request.json().catch(() => ({}));
+
+    if (!fillId || typeof fillId !== "string") {
+      return NextResponse.json(
+        { error: "fillId is required" },
+        { status: 400 }
+      );
+    }
+    if (!Object.keys(DISPUTE_RESOLUTION_ACTIONS).includes(resolution)) {
+      return NextResponse.json(
+        { error: "resolution must be complete, release or resume" },
+        { status: 400 }
+      );
+    }
+    if (note !== undefined && typeof note !== "string") {
+      return NextResponse.json(
+        { error: "note must be a string" },
+        { status: 400 }
+      );
+    }
+
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: {
+        creator: { select: { discordId: true } },
+        fills: { where: { id: fillId }, include: fillClaimerInclude },
+      },
+    });
+
+    if (!order) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    }
+
+    const fill = order.fills[0];
+    if (!fill) {
+      return NextResponse.json({ error: "Claim not found" }, { status: 404 });
+    }
+
+    if (
+      !canTransition(
+        DISPUTE_RESOLUTION_ACTIONS[resolution as DisputeResolution],
+        { from: fill.status, orderType: order.orderType, role: "admin" }
+      )
+    ) {
+      return NextResponse.json(
+        { error: "This claim is not under dispute" },
+        { status: 400 }
+      );
+    }
+
+    const trimmedNote = note?.trim() || undefined;
+
+    await resolveDispute({
+      orderId,
+      fillId,
+      actorId: adminUser.id,
+      resolution,
+      note: trimmedNote,
+    });
+
+    await NotificationService.notifyDisputeResolved(order, fill, {
+      resolution,
+      note: trimmedNote,
+    });
+    await NotificationService.broadcastOrderChange("order_updated", orderId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof OrderConflictError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("Error resolving dispute:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
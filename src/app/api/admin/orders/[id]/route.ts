@@ -3,6 +3,19 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { NotificationService } from "@/lib/notification-service";
+import { recordOrderEvent } from "@/lib/order-events";
+import {
+  ACTIVE_FILL_STATUSES,
+  fillClaimerInclude,
+  orderFillsInclude,
+} from "@/lib/order-fills";
+import {
+  AdminOrderEdit,
+  CLOSED_ORDER_STATUSES,
+  OrderConflictError,
+  UNCLAIMED_ORDER_STATUSES,
+  adminEditOrder,
+} from "@/lib/order-state";
 
 // Force dynamic rendering for this route
 export const dynamic = 'force-dynamic';
@@ -66,8 +79,16 @@ export async function PATCH(
       );
     }
 
+    // Reopening a closed order would bring back the claims cancelled with it
+    if (CLOSED_ORDER_STATUSES.includes(existingOrder.status)) {
+      return NextResponse.json(
+        { error: "Completed, expired or cancelled orders can't be edited" },
+        { status: 400 }
+      );
+    }
+
     // Validate input
-    const updateData: any = {};
+    const updateData: AdminOrderEdit = {};
 
     if (itemName !== undefined) {
       if (typeof itemName !== "string" || itemName.trim().length === 0) {
@@ -108,6 +129,12 @@ export async function PATCH(
           { status: 400 }
         );
       }
+      if (qty < existingOrder.claimedAmount) {
+        return NextResponse.json(
+          { error: `Amount cannot be less than the ${existingOrder.claimedAmount} already claimed` },
+          { status: 400 }
+        );
+      }
       updateData.amount = qty;
     }
 
@@ -121,65 +148,68 @@ export async function PATCH(
       updateData.orderType = orderType;
     }
 
-    if (status !== undefined) {
-      if (!["OPEN", "IN_PROGRESS", "READY_TO_TRADE", "FULFILLED"].includes(status)) {
-        return NextResponse.json(
-          { error: "Invalid status" },
-          { status: 400 }
-        );
-      }
-      
-      // For SELL orders, IN_PROGRESS is not a valid status
-      if (orderType === "SELL" && status === "IN_PROGRESS") {
-        return NextResponse.json(
-          { error: "IN_PROGRESS status is not valid for SELL orders" },
-          { status: 400 }
-        );
-      }
-      
-      // For existing SELL orders, also check this constraint
-      if (existingOrder.orderType === "SELL" && status === "IN_PROGRESS") {
+    // Once an order has claims its status and claimer follow them; they are
+    // moved by completing, releasing or resolving the claims instead
+    const isClaimed = existingOrder.claimedAmount > 0;
+    const requestedClaimerId =
+      claimerId === "" || claimerId === "none" ? null : claimerId;
+    if (
+      isClaimed &&
+      ((status !== undefined && status !== existingOrder.status) ||
+        (claimerId !== undefined && requestedClaimerId !== existingOrder.claimerId))
+    ) {
+      return NextResponse.json(
+        { error: "This order has claims. Complete, release or resolve them instead of setting its status or claimer." },
+        { status: 400 }
+      );
+    }
+
+    // Without claims there is no fill to carry a claimed status or a claimer.
+    // Claiming the order is what creates one.
+    if (status !== undefined && !isClaimed) {
+      if (!UNCLAIMED_ORDER_STATUSES.includes(status)) {
         return NextResponse.json(
-          { error: "IN_PROGRESS status is not valid for SELL orders" },
+          { error: "An order without claims can only be open, expired or cancelled" },
           { status: 400 }
         );
       }
-      
       updateData.status = status;
     }
 
-    if (claimerId !== undefined) {
-      if (claimerId === null || claimerId === "" || claimerId === "none") {
-        updateData.claimerId = null;
-      } else {
-        // Verify the claimer exists
-        const claimer = await prisma.user.findUnique({
-          where: { id: claimerId },
-        });
-        if (!claimer) {
-          return NextResponse.json(
-            { error: "Claimer not found" },
-            { status: 400 }
-          );
-        }
-        updateData.claimerId = claimerId;
+    if (claimerId !== undefined && !isClaimed) {
+      if (requestedClaimerId) {
+        return NextResponse.json(
+          { error: "An order without claims can't have a claimer" },
+          { status: 400 }
+        );
       }
+      updateData.claimerId = null;
     }
 
-    // Add updated timestamp
-    updateData.updatedAt = new Date();
-
     // Store previous status for notification
     const previousStatus = existingOrder.status;
 
-    // Update the order
-    const updatedOrder = await prisma.order.update({
-      where: { id: orderId },
+    const adminUser = await prisma.user.findUnique({
+      where: { discordId: session.user.discordId },
+      select: { id: true },
+    });
+
+    // Update the order only if nobody changed its status meanwhile, and
+    // record the admin edit
+    const { changes, changedFills, activeFills } = await adminEditOrder({
+      orderId,
+      actorId: adminUser?.id,
+      expectedStatus: previousStatus,
       data: updateData,
+    });
+
+    const updatedOrder = await prisma.order.findUniqueOrThrow({
+      where: { id: orderId },
       include: {
         creator: {
           select: {
             id: true,
+            discordId: true,
             discordName: true,
             inGameName: true,
           },
@@ -191,16 +221,23 @@ export async function PATCH(
             inGameName: true,
           },
         },
+        fills: orderFillsInclude,
       },
     });
 
-    // Send notification if status changed
-    if (updateData.status && updateData.status !== previousStatus) {
+    // Send notification if status changed. Notifications are addressed by
+    // Discord ID, so there is no one to tell if the creator has none
+    const creatorDiscordId = updatedOrder.creator.discordId;
+    if (
+      updateData.status &&
+      updateData.status !== previousStatus &&
+      creatorDiscordId
+    ) {
       await NotificationService.notifyOrderStatusChange({
         orderId,
         previousStatus,
         newStatus: updateData.status,
-        creatorId: updatedOrder.creatorId,
+        creatorId: creatorDiscordId,
         claimerId: updatedOrder.claimerId,
         orderDetails: {
           itemName: updatedOrder.itemName,
@@ -216,11 +253,36 @@ export async function PATCH(
       });
     }
 
+    // Send notification for each claim whose status changed due to order type change
+    for (const { fill, newStatus } of changedFills) {
+      await NotificationService.handleOrderUpdate(
+        orderId,
+        newStatus,
+        fill.status,
+        fill
+      );
+    }
+
+    // Let claimers know the order they are working on changed
+    await NotificationService.notifyOrderModified(
+      updatedOrder,
+      activeFills,
+      changes
+    );
+
+    await NotificationService.broadcastOrderChange("order_updated", orderId);
+
     return NextResponse.json({
       success: true,
       order: updatedOrder,
     });
   } catch (error) {
+    if (error instanceof OrderConflictError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
     console.error("Error editing order:", error);
     return NextResponse.json(
       {
@@ -271,6 +333,10 @@ export async function DELETE(
             inGameName: true,
           },
         },
+        fills: {
+          where: { status: { in: ACTIVE_FILL_STATUSES } },
+          include: fillClaimerInclude,
+        },
       },
     });
 
@@ -281,11 +347,34 @@ export async function DELETE(
       );
     }
 
+    const adminUser = await prisma.user.findUnique({
+      where: { discordId: session.user.discordId },
+      select: { id: true },
+    });
+
     // Delete the order
-    await prisma.order.delete({
-      where: { id: orderId },
+    await prisma.$transaction(async (tx) => {
+      await tx.order.delete({
+        where: { id: orderId },
+      });
+
+      await recordOrderEvent(
+        {
+          orderId,
+          type: "deleted",
+          actorId: adminUser?.id,
+          previousStatus: existingOrder.status,
+        },
+        tx
+      );
     });
 
+    await NotificationService.notifyOrderDeleted(
+      existingOrder,
+      existingOrder.fills
+    );
+    await NotificationService.broadcastOrderDeleted(orderId);
+
     return NextResponse.json({
       success: true,
       message: `Order ${orderId} deleted successfully`,
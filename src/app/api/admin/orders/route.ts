@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { orderFillsInclude } from "@/lib/order-fills";
 
 // Force dynamic rendering for this route
 export const dynamic = 'force-dynamic';
@@ -53,6 +54,7 @@ export async function GET(request: NextRequest) {
             inGameName: true,
           },
         },
+        fills: orderFillsInclude,
       },
       orderBy: {
         createdAt: "desc", // Most recent first
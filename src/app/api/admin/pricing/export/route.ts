@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { pricesToCsv } from "@/lib/price-import";
+
+// Force dynamic rendering for this route
+export const dynamic = "force-dynamic";
+
+async function isUserAdmin(discordId: string): Promise<boolean> {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { discordId },
+      select: { isAdmin: true },
+    });
+    return user?.isAdmin || false;
+  } catch (error) {
+    console.error("Error checking admin status:", error);
+    return false;
+  }
+}
+
+// GET - Download the pricing table as CSV or JSON
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.discordId) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const isAdmin = await isUserAdmin(session.user.discordId);
+    if (!isAdmin) {
+      return NextResponse.json(
+        { error: "Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get("format") || "csv";
+
+    if (format !== "csv" && format !== "json") {
+      return NextResponse.json(
+        { error: "format must be csv or json" },
+        { status: 400 }
+      );
+    }
+
+    const pricing = await prisma.pricing.findMany({
+      orderBy: [{ itemName: "asc" }, { tier: "asc" }],
+      select: { itemName: true, tier: true, price: true },
+    });
+
+    const date = new Date().toISOString().split("T")[0];
+    const filename = `prices-${date}.${format}`;
+
+    let body: string;
+    if (format === "csv") {
+      body = pricesToCsv(pricing);
+    } else {
+      // Same items shape the admin pricing API uses, so exports re-import as is
+      const items: { [itemName: string]: { [tierKey: string]: number } } = {};
+      pricing.forEach((entry) => {
+        if (!items[entry.itemName]) {
+          items[entry.itemName] = {};
+        }
+        items[entry.itemName][`tier${entry.tier}`] = entry.price;
+      });
+      body = JSON.stringify(
+        { exportedAt: new Date().toISOString(), items },
+        null,
+        2
+      );
+    }
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": format === "csv" ? "text/csv" : "application/json",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting prices:", error);
+    return NextResponse.json(
+      { error: "Failed to export prices" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,198 @@
+import { Prisma } from "@prisma/client";
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import {
+  PRICE_TRANSACTION_OPTIONS,
+  PriceUpdate,
+  announcePriceChanges,
+  updatePriceWithHistory,
+  deletePriceWithHistory,
+} from "@/lib/price-history";
+import { diffPrices, hashPriceDiff, parsePriceFile } from "@/lib/price-import";
+
+// Force dynamic rendering for this route
+export const dynamic = "force-dynamic";
+
+// Serializable so a price saved while the import runs fails the import
+// instead of being silently overwritten
+const IMPORT_TRANSACTION_OPTIONS = {
+  ...PRICE_TRANSACTION_OPTIONS,
+  isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+};
+
+// The prices changed between the preview and the apply
+class StalePreviewError extends Error {
+  constructor() {
+    super(
+      "Prices changed since this file was previewed. Preview it again before applying."
+    );
+    this.name = "StalePreviewError";
+  }
+}
+
+// The current table in a stable order, so the same prices diff the same way
+function getCurrentPrices(client: Prisma.TransactionClient) {
+  return client.pricing.findMany({
+    select: { itemName: true, tier: true, price: true },
+    orderBy: [{ itemName: "asc" }, { tier: "asc" }],
+  });
+}
+
+async function getAdminUser(discordId: string) {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { discordId },
+      select: { id: true, isAdmin: true },
+    });
+    return user?.isAdmin ? user : null;
+  } catch (error) {
+    console.error("Error checking admin status:", error);
+    return null;
+  }
+}
+
+// POST - Validate a price file and either preview or apply the changes.
+// Body: { content, format: "csv" | "json", dryRun, diffHash }. Applying
+// takes the diffHash returned by the preview.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.discordId) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const adminUser = await getAdminUser(session.user.discordId);
+    if (!adminUser) {
+      return NextResponse.json(
+        { error: "Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const {
+      content,
+      format,
+      dryRun = true,
+      diffHash,
+    } = await request.json().catch(() => ({}));
+
+    if (typeof content !== "string" || !content.trim()) {
+      return NextResponse.json(
+        { error: "File content is required" },
+        { status: 400 }
+      );
+    }
+    if (format !== "csv" && format !== "json") {
+      return NextResponse.json(
+        { error: "format must be csv or json" },
+        { status: 400 }
+      );
+    }
+
+    const { rows, errors } = parsePriceFile(content, format);
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: "The file has invalid rows", errors },
+        { status: 400 }
+      );
+    }
+    if (rows.length === 0) {
+      return NextResponse.json(
+        { error: "The file has no prices" },
+        { status: 400 }
+      );
+    }
+
+    if (dryRun) {
+      const diff = diffPrices(rows, await getCurrentPrices(prisma));
+      return NextResponse.json({
+        dryRun: true,
+        diff,
+        diffHash: hashPriceDiff(diff),
+      });
+    }
+
+    if (typeof diffHash !== "string") {
+      return NextResponse.json(
+        { error: "Preview the file before applying it" },
+        { status: 400 }
+      );
+    }
+
+    // Apply exactly what was previewed, all or nothing
+    const changes: (PriceUpdate | null)[] = [];
+    const diff = await prisma.$transaction(async (tx) => {
+      const planned = diffPrices(rows, await getCurrentPrices(tx));
+      if (hashPriceDiff(planned) !== diffHash) {
+        throw new StalePreviewError();
+      }
+
+      // Same history-tracked helpers as manual edits, attributed to this admin
+      for (const row of planned.deleted) {
+        changes.push(
+          await deletePriceWithHistory(
+            {
+              itemName: row.itemName,
+              tier: row.tier,
+              userId: adminUser.id,
+            },
+            tx
+          )
+        );
+      }
+      for (const row of [...planned.created, ...planned.updated]) {
+        changes.push(
+          await updatePriceWithHistory(
+            {
+              itemName: row.itemName,
+              tier: row.tier,
+              newPrice: row.price,
+              userId: adminUser.id,
+            },
+            tx
+          )
+        );
+      }
+
+      await tx.pricingMetadata.upsert({
+        where: { key: "lastUpdated" },
+        update: { value: new Date().toISOString().split("T")[0] },
+        create: {
+          key: "lastUpdated",
+          value: new Date().toISOString().split("T")[0],
+        },
+      });
+
+      return planned;
+    }, IMPORT_TRANSACTION_OPTIONS);
+
+    announcePriceChanges(changes);
+
+    return NextResponse.json({
+      dryRun: false,
+      diff,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (
+      error instanceof StalePreviewError ||
+      // Another write to the prices raced the import
+      (error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2034")
+    ) {
+      return NextResponse.json(
+        { error: new StalePreviewError().message },
+        { status: 409 }
+      );
+    }
+    console.error("Error importing prices:", error);
+    return NextResponse.json(
+      { error: "Failed to import prices" },
+      { status: 500 }
+    );
+  }
+}
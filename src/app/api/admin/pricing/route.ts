@@ -3,6 +3,9 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import {
+  PRICE_TRANSACTION_OPTIONS,
+  PriceUpdate,
+  announcePriceChanges,
   updatePriceWithHistory,
   deletePriceWithHistory,
 } from "@/lib/price-history";
@@ -138,6 +141,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Use a transaction to update pricing data with history tracking
+    const changes: (PriceUpdate | null)[] = [];
     await prisma.$transaction(async (tx) => {
       // Get existing pricing data to determine what's new vs updated
       const existingPricing = await tx.pricing.findMany();
@@ -160,11 +164,16 @@ export async function POST(request: NextRequest) {
       for (const existing of existingPricing) {
         const key = `${existing.itemName}-${existing.tier}`;
         if (!newKeys.has(key)) {
-          await deletePriceWithHistory({
-            itemName: existing.itemName,
-            tier: existing.tier,
-            userId: adminUser.id,
-          });
+          changes.push(
+            await deletePriceWithHistory(
+              {
+                itemName: existing.itemName,
+                tier: existing.tier,
+                userId: adminUser.id,
+              },
+              tx
+            )
+          );
         }
       }
 
@@ -176,12 +185,17 @@ export async function POST(request: NextRequest) {
           const tier = parseInt(tierKey.replace("tier", ""));
 
           // Use the price history function to update/create with tracking
-          await updatePriceWithHistory({
-            itemName,
-            tier,
-            newPrice: price,
-            userId: adminUser.id,
-          });
+          changes.push(
+            await updatePriceWithHistory(
+              {
+                itemName,
+                tier,
+                newPrice: price,
+                userId: adminUser.id,
+              },
+              tx
+            )
+          );
         }
       }
 
@@ -209,7 +223,10 @@ export async function POST(request: NextRequest) {
       await tx.pricingMetadata.createMany({
         data: metadataEntries,
       });
-    });
+    }, PRICE_TRANSACTION_OPTIONS);
+
+    // Tell Discord and price alert owners once the prices are committed
+    announcePriceChanges(changes);
 
     // Fetch the updated data to return
     const updatedPricingEntries = await prisma.pricing.findMany({
@@ -311,6 +328,7 @@ export async function PUT(request: NextRequest) {
     }
 
     // Update pricing for the specific item with history tracking
+    const changes: (PriceUpdate | null)[] = [];
     await prisma.$transaction(async (tx) => {
       // Get existing prices for this item to handle deletions
       const existingPrices = await tx.pricing.findMany({
@@ -325,11 +343,16 @@ export async function PUT(request: NextRequest) {
 
       for (const existing of existingPrices) {
         if (!newTiers.includes(existing.tier)) {
-          await deletePriceWithHistory({
-            itemName: existing.itemName,
-            tier: existing.tier,
-            userId: adminUser.id,
-          });
+          changes.push(
+            await deletePriceWithHistory(
+              {
+                itemName: existing.itemName,
+                tier: existing.tier,
+                userId: adminUser.id,
+              },
+              tx
+            )
+          );
         }
       }
 
@@ -338,12 +361,17 @@ export async function PUT(request: NextRequest) {
         prices as { [key: string]: number }
       )) {
         const tier = parseInt(tierKey.replace("tier", ""));
-        await updatePriceWithHistory({
-          itemName,
-          tier,
-          newPrice: price,
-          userId: adminUser.id,
-        });
+        changes.push(
+          await updatePriceWithHistory(
+            {
+              itemName,
+              tier,
+              newPrice: price,
+              userId: adminUser.id,
+            },
+            tx
+          )
+        );
       }
 
       // Update lastUpdated metadata
@@ -355,7 +383,10 @@ export async function PUT(request: NextRequest) {
           value: new Date().toISOString().split("T")[0],
         },
       });
-    });
+    }, PRICE_TRANSACTION_OPTIONS);
+
+    // Tell Discord and price alert owners once the prices are committed
+    announcePriceChanges(changes);
 
     return NextResponse.json({
       success: true,
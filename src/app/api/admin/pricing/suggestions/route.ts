@@ -0,0 +1,186 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import {
+  PRICE_TRANSACTION_OPTIONS,
+  PriceUpdate,
+  announcePriceChanges,
+  updatePriceWithHistory,
+} from "@/lib/price-history";
+import {
+  DEFAULT_LOOKBACK_DAYS,
+  MAX_LOOKBACK_DAYS,
+  proposeReferencePrices,
+} from "@/lib/market-price";
+
+// Force dynamic rendering for this route
+export const dynamic = "force-dynamic";
+
+async function getAdminUser(discordId: string) {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { discordId },
+      select: { id: true, isAdmin: true },
+    });
+    return user?.isAdmin ? user : null;
+  } catch (error) {
+    console.error("Error checking admin status:", error);
+    return null;
+  }
+}
+
+// GET - Propose reference prices from recent trades and open orders
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.discordId) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const adminUser = await getAdminUser(session.user.discordId);
+    if (!adminUser) {
+      return NextResponse.json(
+        { error: "Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const days = searchParams.get("days");
+    const lookbackDays = days ? parseFloat(days) : DEFAULT_LOOKBACK_DAYS;
+
+    if (
+      isNaN(lookbackDays) ||
+      lookbackDays <= 0 ||
+      lookbackDays > MAX_LOOKBACK_DAYS
+    ) {
+      return NextResponse.json(
+        { error: `days must be between 0 and ${MAX_LOOKBACK_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    const proposals = await proposeReferencePrices(lookbackDays);
+
+    return NextResponse.json({ lookbackDays, proposals });
+  } catch (error) {
+    console.error("Error proposing prices:", error);
+    return NextResponse.json(
+      { error: "Failed to propose prices" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Apply the proposals the admin accepted
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.discordId) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const adminUser = await getAdminUser(session.user.discordId);
+    if (!adminUser) {
+      return NextResponse.json(
+        { error: "Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { updates } = await request.json();
+
+    if (!Array.isArray(updates) || updates.length === 0) {
+      return NextResponse.json(
+        { error: "updates must be a non-empty array" },
+        { status: 400 }
+      );
+    }
+
+    for (const update of updates) {
+      if (
+        typeof update?.itemName !== "string" ||
+        !Number.isInteger(update.tier) ||
+        typeof update.price !== "number" ||
+        !(update.price > 0)
+      ) {
+        return NextResponse.json(
+          { error: "Each update needs an itemName, tier and positive price" },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Suggestions only adjust existing prices, never add new rows
+    const existing = await prisma.pricing.findMany({
+      where: {
+        OR: updates.map(
+          (update: { itemName: string; tier: number }) => ({
+            itemName: update.itemName,
+            tier: update.tier,
+          })
+        ),
+      },
+      select: { itemName: true, tier: true },
+    });
+    const existingKeys = new Set(
+      existing.map((row) => `${row.itemName}-${row.tier}`)
+    );
+
+    const missing = updates.find(
+      (update: { itemName: string; tier: number }) =>
+        !existingKeys.has(`${update.itemName}-${update.tier}`)
+    );
+    if (missing) {
+      return NextResponse.json(
+        { error: `No price exists for T${missing.tier} ${missing.itemName}` },
+        { status: 404 }
+      );
+    }
+
+    // Go through updatePriceWithHistory so history, webhooks and price
+    // alerts see these like any other admin edit
+    const changes: (PriceUpdate | null)[] = [];
+    await prisma.$transaction(async (tx) => {
+      for (const update of updates) {
+        changes.push(
+          await updatePriceWithHistory(
+            {
+              itemName: update.itemName,
+              tier: update.tier,
+              newPrice: update.price,
+              userId: adminUser.id,
+            },
+            tx
+          )
+        );
+      }
+
+      await tx.pricingMetadata.upsert({
+        where: { key: "lastUpdated" },
+        update: { value: new Date().toISOString().split("T")[0] },
+        create: {
+          key: "lastUpdated",
+          value: new Date().toISOString().split("T")[0],
+        },
+      });
+    }, PRICE_TRANSACTION_OPTIONS);
+
+    announcePriceChanges(changes);
+
+    return NextResponse.json({
+      success: true,
+      updated: updates.length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Error applying price suggestions:", error);
+    return NextResponse.json(
+      { error: "Failed to apply price suggestions" },
+      { status: 500 }
+    );
+  }
+}
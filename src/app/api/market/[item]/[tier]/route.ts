@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { buildOrderBook } from "@/lib/order-book";
+
+// Force dynamic rendering for this route
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { item: string; tier: string } }
+) {
+  try {
+    const itemName = params.item;
+    const tier = parseInt(params.tier);
+
+    if (isNaN(tier)) {
+      return NextResponse.json(
+        { error: "tier must be a valid number" },
+        { status: 400 }
+      );
+    }
+
+    const orders = await prisma.order.findMany({
+      where: {
+        itemName,
+        tier,
+        status: "OPEN",
+      },
+      select: {
+        orderType: true,
+        pricePerUnit: true,
+        amount: true,
+        claimedAmount: true,
+      },
+    });
+
+    const pricing = await prisma.pricing.findUnique({
+      where: {
+        itemName_tier: {
+          itemName,
+          tier,
+        },
+      },
+      select: {
+        price: true,
+        updatedAt: true,
+      },
+    });
+
+    return NextResponse.json({
+      itemName,
+      tier,
+      referencePrice: pricing?.price ?? null,
+      referenceUpdatedAt: pricing?.updatedAt.toISOString() ?? null,
+      openOrders: orders.length,
+      ...buildOrderBook(orders),
+    });
+  } catch (error) {
+    console.error("Error fetching order book:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch order book" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { getVapidPublicKey } from "@/lib/web-push";
+
+// Force dynamic rendering for this route
+export const dynamic = "force-dynamic";
+
+// GET - The VAPID public key browsers need to subscribe, or null when push is off
+export async function GET() {
+  return NextResponse.json({ publicKey: getVapidPublicKey() });
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { isAllowedPushEndpoint, isWebPushConfigured } from "@/lib/web-push";
+
+// Force dynamic rendering for this route
+export const dynamic = "force-dynamic";
+
+// POST - Save the browser's PushSubscription for the current user
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!isWebPushConfigured()) {
+    return NextResponse.json(
+      { error: "Push notifications are not enabled on this server" },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const { subscription } = await request.json().catch(() => ({}));
+    const endpoint = subscription?.endpoint;
+    const p256dh = subscription?.keys?.p256dh;
+    const auth = subscription?.keys?.auth;
+
+    if (
+      typeof endpoint !== "string" ||
+      typeof p256dh !== "string" ||
+      typeof auth !== "string"
+    ) {
+      return NextResponse.json(
+        { error: "Invalid push subscription" },
+        { status: 400 }
+      );
+    }
+
+    if (!isAllowedPushEndpoint(endpoint)) {
+      return NextResponse.json(
+        { error: "Push subscription endpoint is not a known push service" },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { discordId: session.user.id },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    // A browser keeps its endpoint across sign-ins, so hand it to whoever is signed in now
+    await prisma.pushSubscription.upsert({
+      where: { endpoint },
+      update: {
+        userId: user.id,
+        p256dh,
+        auth,
+        userAgent: request.headers.get("user-agent"),
+      },
+      create: {
+        userId: user.id,
+        endpoint,
+        p256dh,
+        auth,
+        userAgent: request.headers.get("user-agent"),
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error saving push subscription:", error);
+    return NextResponse.json(
+      { error: "Failed to save push subscription" },
+      { status: 500 }
+    );
+  }
+}
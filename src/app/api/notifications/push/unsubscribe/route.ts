@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+// Force dynamic rendering for this route
+export const dynamic = "force-dynamic";
+
+// POST - Remove a push subscription by endpoint
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { endpoint } = await request.json();
+
+    if (typeof endpoint !== "string") {
+      return NextResponse.json(
+        { error: "Endpoint is required" },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { discordId: session.user.id },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const result = await prisma.pushSubscription.deleteMany({
+      where: { userId: user.id, endpoint },
+    });
+
+    return NextResponse.json({ success: true, deleted: result.count });
+  } catch (error) {
+    console.error("Error removing push subscription:", error);
+    return NextResponse.json(
+      { error: "Failed to remove push subscription" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+// Force dynamic rendering for this route
+export const dynamic = "force-dynamic";
+
+async function getUserId(discordId: string) {
+  const user = await prisma.user.findUnique({
+    where: { discordId },
+    select: { id: true },
+  });
+  return user?.id ?? null;
+}
+
+// GET - List the current user's notifications, newest first
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get("limit") || "50"), 200);
+    const unreadOnly = searchParams.get("unreadOnly") === "true";
+
+    const userId = await getUserId(session.user.id);
+    if (!userId) {
+      return NextResponse.json({ notifications: [], unreadCount: 0 });
+    }
+
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: {
+          userId,
+          ...(unreadOnly && { read: false }),
+        },
+        orderBy: { createdAt: "desc" },
+        take: isNaN(limit) ? 50 : limit,
+      }),
+      prisma.notification.count({
+        where: { userId, read: false },
+      }),
+    ]);
+
+    return NextResponse.json({ notifications, unreadCount });
+  } catch (error) {
+    console.error("Error fetching notifications:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch notifications" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH - Mark notifications as read, either by id or all at once
+export async function PATCH(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { ids, all } = await request.json();
+
+    if (!all && (!Array.isArray(ids) || ids.length === 0)) {
+      return NextResponse.json(
+        { error: "Provide notification ids or all: true" },
+        { status: 400 }
+      );
+    }
+
+    const userId = await getUserId(session.user.id);
+    if (!userId) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const result = await prisma.notification.updateMany({
+      where: {
+        userId,
+        read: false,
+        ...(!all && { id: { in: ids } }),
+      },
+      data: { read: true },
+    });
+
+    return NextResponse.json({ success: true, updated: result.count });
+  } catch (error) {
+    console.error("Error marking notifications as read:", error);
+    return NextResponse.json(
+      { error: "Failed to update notifications" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a single notification (?id=) or clear the whole inbox
+export async function DELETE(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const notificationId = searchParams.get("id");
+
+    const userId = await getUserId(session.user.id);
+    if (!userId) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const result = await prisma.notification.deleteMany({
+      where: {
+        userId,
+        ...(notificationId && { id: notificationId }),
+      },
+    });
+
+    return NextResponse.json({ success: true, deleted: result.count });
+  } catch (error) {
+    console.error("Error deleting notifications:", error);
+    return NextResponse.json(
+      { error: "Failed to delete notifications" },
+      { status: 500 }
+    );
+  }
+}
@@ -6,17 +6,146 @@ import { prisma } from "@/lib/prisma";
 // Force dynamic rendering for this route
 export const dynamic = "force-dynamic";
 
-// Store active SSE connections
+// Store active SSE connections: user id -> (connection id -> controller)
+// A user can have several tabs or devices open, each with its own connection
 // Use globalThis to persist connections across hot reloads in development
+type UserConnections = Map<string, ReadableStreamDefaultController>;
+
+// Recent events kept per user (and under BROADCAST_KEY for broadcasts) so a
+// reconnecting client can be sent whatever it missed via Last-Event-ID
+interface BufferedEvent {
+  id: number;
+  frame: string;
+  bufferedAt: number;
+}
+
+const REPLAY_BUFFER_SIZE = 100;
+const BROADCAST_KEY = "*";
+// Reconnects happen within seconds, so older events are never replayed and
+// buffers that only hold those are dropped
+const REPLAY_WINDOW_MS = 10 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
 const globalForConnections = globalThis as unknown as {
-  sseConnections: Map<string, ReadableStreamDefaultController> | undefined;
+  sseConnections: Map<string, UserConnections> | undefined;
+  sseReplayBuffers: Map<string, BufferedEvent[]> | undefined;
+  sseLastEventId: number | undefined;
+  ssePruneTimer: NodeJS.Timeout | undefined;
 };
 
 const connections =
-  globalForConnections.sseConnections ??
-  new Map<string, ReadableStreamDefaultController>();
+  globalForConnections.sseConnections ?? new Map<string, UserConnections>();
 globalForConnections.sseConnections = connections;
 
+const replayBuffers =
+  globalForConnections.sseReplayBuffers ?? new Map<string, BufferedEvent[]>();
+globalForConnections.sseReplayBuffers = replayBuffers;
+
+/**
+ * Returns a new, strictly increasing event id for this process. Only used
+ * where this process is the sole source of ids, i.e. the in-process bus; ids
+ * from two sources can't be ordered against each other. Ids are based on the
+ * clock so they keep increasing across restarts.
+ */
+export function nextEventId() {
+  const lastEventId = globalForConnections.sseLastEventId ?? 0;
+  const eventId = Math.max(Date.now() * 1000, lastEventId + 1);
+  globalForConnections.sseLastEventId = eventId;
+  return eventId;
+}
+
+// Without an id the client keeps its Last-Event-ID, so the event doesn't
+// affect what gets replayed to it
+function formatEvent(eventId: number | null, notification: any) {
+  const data = `data: ${JSON.stringify(notification)}\n\n`;
+  return eventId === null ? data : `id: ${eventId}\n${data}`;
+}
+
+function bufferEvent(key: string, eventId: number, frame: string) {
+  const buffer = replayBuffers.get(key) ?? [];
+  buffer.push({ id: eventId, frame, bufferedAt: Date.now() });
+  if (buffer.length > REPLAY_BUFFER_SIZE) {
+    buffer.splice(0, buffer.length - REPLAY_BUFFER_SIZE);
+  }
+  replayBuffers.set(key, buffer);
+}
+
+// Drop events older than the replay window, and buffers left empty by that
+function pruneReplayBuffers() {
+  const cutoff = Date.now() - REPLAY_WINDOW_MS;
+
+  Array.from(replayBuffers.entries()).forEach(([key, buffer]) => {
+    const recent = buffer.filter((event) => event.bufferedAt > cutoff);
+    if (recent.length === 0) {
+      replayBuffers.delete(key);
+    } else if (recent.length < buffer.length) {
+      replayBuffers.set(key, recent);
+    }
+  });
+}
+
+if (!globalForConnections.ssePruneTimer) {
+  globalForConnections.ssePruneTimer = setInterval(
+    pruneReplayBuffers,
+    PRUNE_INTERVAL_MS
+  );
+  // Don't keep the process alive just to prune
+  globalForConnections.ssePruneTimer.unref?.();
+}
+
+// Events for a user (including broadcasts) newer than lastEventId, oldest first
+function getMissedEvents(userId: string, lastEventId: number) {
+  const cutoff = Date.now() - REPLAY_WINDOW_MS;
+
+  return (replayBuffers.get(userId) ?? [])
+    .concat(replayBuffers.get(BROADCAST_KEY) ?? [])
+    .filter((event) => event.id > lastEventId && event.bufferedAt > cutoff)
+    .sort((a, b) => a.id - b.id);
+}
+
+function addConnection(
+  userId: string,
+  connectionId: string,
+  controller: ReadableStreamDefaultController
+) {
+  let userConnections = connections.get(userId);
+  if (!userConnections) {
+    userConnections = new Map();
+    connections.set(userId, userConnections);
+  }
+  userConnections.set(connectionId, controller);
+}
+
+function removeConnection(userId: string, connectionId: string) {
+  const userConnections = connections.get(userId);
+  if (!userConnections) return;
+
+  userConnections.delete(connectionId);
+  if (userConnections.size === 0) {
+    connections.delete(userId);
+  }
+}
+
+// Write a message to one connection, dropping it if the stream is gone
+function enqueue(
+  userId: string,
+  connectionId: string,
+  controller: ReadableStreamDefaultController,
+  message: string
+) {
+  try {
+    controller.enqueue(message);
+  } catch (error) {
+    console.error(
+      "Failed to send notification to connection:",
+      userId,
+      connectionId,
+      error
+    );
+    removeConnection(userId, connectionId);
+  }
+}
+
 export async function GET(request: NextRequest) {
   const session = await getServerSession(authOptions);
 
@@ -25,21 +154,38 @@ export async function GET(request: NextRequest) {
   }
 
   const userId = session.user.id;
+  const connectionId = crypto.randomUUID();
+
+  // EventSource sends Last-Event-ID on its own reconnects; manual reconnects
+  // pass it as a query parameter instead
+  const lastEventId = parseInt(
+    request.headers.get("last-event-id") ||
+      new URL(request.url).searchParams.get("lastEventId") ||
+      ""
+  );
 
   // Create SSE stream
   const stream = new ReadableStream({
     start(controller) {
-      // Store connection for this user
-      connections.set(userId, controller);
+      // Store this connection alongside the user's other tabs/devices
+      addConnection(userId, connectionId, controller);
 
       // Send initial connection message
       controller.enqueue(
         `data: ${JSON.stringify({
           type: "connected",
+          connectionId,
           timestamp: new Date().toISOString(),
         })}\n\n`
       );
 
+      // Replay anything sent since the client's last received event
+      if (!isNaN(lastEventId)) {
+        getMissedEvents(userId, lastEventId).forEach((event) =>
+          controller.enqueue(event.frame)
+        );
+      }
+
       // Send keep-alive every 30 seconds
       const keepAlive = setInterval(() => {
         try {
@@ -51,14 +197,14 @@ export async function GET(request: NextRequest) {
           );
         } catch (error) {
           clearInterval(keepAlive);
-          connections.delete(userId);
+          removeConnection(userId, connectionId);
         }
       }, 30000);
 
       // Clean up on close
       request.signal.addEventListener("abort", () => {
         clearInterval(keepAlive);
-        connections.delete(userId);
+        removeConnection(userId, connectionId);
         try {
           controller.close();
         } catch (error) {
@@ -67,7 +213,7 @@ export async function GET(request: NextRequest) {
       });
     },
     cancel() {
-      connections.delete(userId);
+      removeConnection(userId, connectionId);
     },
   });
 
@@ -82,27 +228,42 @@ export async function GET(request: NextRequest) {
   });
 }
 
-// Function to send notification to specific user
-export function sendNotificationToUser(userId: string, notification: any) {
-  const controller = connections.get(userId);
-  if (controller) {
-    try {
-      controller.enqueue(`data: ${JSON.stringify(notification)}\n\n`);
-    } catch (error) {
-      console.error("Failed to send notification to user:", userId, error);
-      connections.delete(userId);
-    }
-  }
+// Function to send notification to every open connection of a specific user
+// The event is buffered even if the user is offline so it can be replayed,
+// unless it has no id
+export function sendNotificationToUser(
+  userId: string,
+  notification: any,
+  eventId: number | null = nextEventId()
+) {
+  const frame = formatEvent(eventId, notification);
+  if (eventId !== null) bufferEvent(userId, eventId, frame);
+
+  const userConnections = connections.get(userId);
+  if (!userConnections) return;
+
+  Array.from(userConnections.entries()).forEach(([connectionId, controller]) =>
+    enqueue(userId, connectionId, controller, frame)
+  );
 }
 
 // Function to broadcast to all connected users
-export function broadcastNotification(notification: any) {
-  connections.forEach((controller, userId) => {
-    try {
-      controller.enqueue(`data: ${JSON.stringify(notification)}\n\n`);
-    } catch (error) {
-      console.error("Failed to broadcast to user:", userId, error);
-      connections.delete(userId);
-    }
+export function broadcastNotification(
+  notification: any,
+  eventId: number | null = nextEventId()
+) {
+  const frame = formatEvent(eventId, notification);
+  if (eventId !== null) bufferEvent(BROADCAST_KEY, eventId, frame);
+
+  Array.from(connections.entries()).forEach(([userId, userConnections]) => {
+    Array.from(userConnections.entries()).forEach(
+      ([connectionId, controller]) =>
+        enqueue(userId, connectionId, controller, frame)
+    );
   });
 }
+
+// Whether a user has at least one open connection on this instance
+export function hasActiveConnection(userId: string) {
+  return (connections.get(userId)?.size ?? 0) > 0;
+}
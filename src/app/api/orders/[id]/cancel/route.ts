@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { NotificationService } from "@/lib/notification-service";
+import { orderFillsInclude } from "@/lib/order-fills";
+import {
+  CLOSED_ORDER_STATUSES,
+  OrderConflictError,
+  cancelOrder,
+} from "@/lib/order-state";
+
+// Force dynamic rendering for this route
+export const dynamic = "force-dynamic";
+
+const MAX_REASON_LENGTH = 500;
+
+// POST - Cancel your own order, keeping it in history with a reason.
+// Body: { reason }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const orderId = params.id;
+
+    const user = await prisma.user.findUnique({
+      where: { discordId: session.user.id },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const { reason } = await request.json().catch(() => ({}));
+
+    if (typeof reason !== "string" || !reason.trim()) {
+      return NextResponse.json(
+        { error: "A reason is required to cancel an order" },
+        { status: 400 }
+      );
+    }
+    if (reason.trim().length > MAX_REASON_LENGTH) {
+      return NextResponse.json(
+        { error: `Reason must be ${MAX_REASON_LENGTH} characters or less` },
+        { status: 400 }
+      );
+    }
+
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+    });
+
+    if (!order) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    }
+
+    if (order.creatorId !== user.id) {
+      return NextResponse.json(
+        { error: "You can only cancel your own orders" },
+        { status: 403 }
+      );
+    }
+
+    if (CLOSED_ORDER_STATUSES.includes(order.status)) {
+      return NextResponse.json(
+        { error: "Cannot cancel completed, expired or cancelled orders" },
+        { status: 400 }
+      );
+    }
+
+    if (order.status === "DISPUTED") {
+      return NextResponse.json(
+        { error: "Cannot cancel an order while it is under dispute" },
+        { status: 400 }
+      );
+    }
+
+    const { activeFills } = await cancelOrder({
+      orderId,
+      actorId: user.id,
+      reason: reason.trim(),
+    });
+
+    const updatedOrder = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: {
+        creator: true,
+        claimer: true,
+        fills: orderFillsInclude,
+      },
+    });
+
+    // Let anyone still working on a claim know the order is off
+    await NotificationService.notifyOrderCancelled(
+      order,
+      activeFills,
+      reason.trim()
+    );
+
+    await NotificationService.broadcastOrderChange("order_updated", orderId);
+
+    return NextResponse.json(updatedOrder);
+  } catch (error) {
+    if (error instanceof OrderConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("Error cancelling order:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel order" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,13 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { PrismaClient } from "@prisma/client";
 import { NotificationService } from "@/lib/notification-service";
+import {
+  ACTIVE_FILL_STATUSES,
+  getRemainingAmount,
+  orderFillsInclude,
+} from "@/lib/order-fills";
+import { OrderConflictError, claimOrder } from "@/lib/order-state";
+import { canTransition, getActorRole } from "@/lib/order-transitions";
 
 const prisma = new PrismaClient();
 
@@ -34,54 +41,108 @@ export async function POST(
       });
     }
 
+    const claimerId = user.id;
+
+    // Amount is optional - claiming without one takes everything that is left
+    const body = await request.json().catch(() => ({}));
+
     // Check if order exists and is available to claim
     const order = await prisma.order.findUnique({
       where: { id: orderId },
-      include: { creator: true },
+      include: { creator: true, fills: true },
     });
 
     if (!order) {
       return NextResponse.json({ error: "Order not found" }, { status: 404 });
     }
 
-    if (order.status !== "OPEN") {
+    const remainingAmount = getRemainingAmount(order);
+
+    if (order.status !== "OPEN" || remainingAmount === 0) {
       return NextResponse.json(
         { error: "Order is not available for claiming" },
         { status: 400 }
       );
     }
 
-    if (order.creatorId === user.id) {
+    if (
+      !canTransition("claim", {
+        from: "UNCLAIMED",
+        orderType: order.orderType,
+        role: getActorRole(claimerId, order.creatorId),
+      })
+    ) {
       return NextResponse.json(
         { error: "Cannot claim your own order" },
         { status: 400 }
       );
     }
 
-    // Claim the order
-    // For SELL orders, go straight to READY_TO_TRADE since seller already has the item
-    // For BUY orders, go to IN_PROGRESS since fulfiller needs to gather the item
-    const newStatus =
-      order.orderType === "SELL" ? "READY_TO_TRADE" : "IN_PROGRESS";
+    if (
+      order.fills.some(
+        (fill) =>
+          fill.claimerId === claimerId &&
+          ACTIVE_FILL_STATUSES.includes(fill.status)
+      )
+    ) {
+      return NextResponse.json(
+        { error: "You already have an active claim on this order" },
+        { status: 400 }
+      );
+    }
+
+    let claimAmount = remainingAmount;
+    if (body.amount !== undefined) {
+      claimAmount = parseInt(body.amount);
+      if (isNaN(claimAmount) || claimAmount <= 0) {
+        return NextResponse.json(
+          { error: "Amount must be a positive integer" },
+          { status: 400 }
+        );
+      }
+      if (claimAmount > remainingAmount) {
+        return NextResponse.json(
+          { error: `Only ${remainingAmount} remaining on this order` },
+          { status: 400 }
+        );
+      }
+    }
 
-    const updatedOrder = await prisma.order.update({
+    // Claim a slice of the order. The claim is re-checked against the locked
+    // order, so a concurrent claim for the same quantity gets a 409.
+    const { fill, status: newStatus } = await claimOrder({
+      orderId,
+      claimerId,
+      amount: claimAmount,
+    });
+
+    const updatedOrder = await prisma.order.findUnique({
       where: { id: orderId },
-      data: {
-        status: newStatus,
-        claimerId: user.id,
-        updatedAt: new Date(),
-      },
       include: {
         creator: true,
         claimer: true,
+        fills: orderFillsInclude,
       },
     });
 
     // Send notification for order being claimed
-    await NotificationService.handleOrderUpdate(orderId, newStatus, "OPEN");
+    await NotificationService.handleOrderUpdate(
+      orderId,
+      newStatus,
+      "OPEN",
+      fill
+    );
+
+    await NotificationService.broadcastOrderChange("order_updated", orderId);
 
     return NextResponse.json(updatedOrder);
   } catch (error) {
+    if (error instanceof OrderConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
     console.error("Error claiming order:", error);
     return NextResponse.json(
       { error: "Failed to claim order" },
@@ -3,6 +3,17 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { PrismaClient } from "@prisma/client";
 import { NotificationService } from "@/lib/notification-service";
+import {
+  fillClaimerInclude,
+  orderFillsInclude,
+  resolveActingFill,
+} from "@/lib/order-fills";
+import {
+  OrderConflictError,
+  completeFill,
+  confirmFill,
+} from "@/lib/order-state";
+import { canTransition, getActorRole } from "@/lib/order-transitions";
 
 const prisma = new PrismaClient();
 
@@ -28,51 +39,113 @@ export async function POST(
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
+    const { fillId } = await request.json().catch(() => ({}));
+
     // Check if order exists and user can complete it
     const order = await prisma.order.findUnique({
       where: { id: orderId },
-      include: { creator: true, claimer: true },
+      include: { creator: true, fills: { include: fillClaimerInclude } },
     });
 
     if (!order) {
       return NextResponse.json({ error: "Order not found" }, { status: 404 });
     }
 
-    if (order.status !== "IN_PROGRESS" && order.status !== "READY_TO_TRADE") {
+    const isCreator = order.creatorId === user.id;
+    const fill = resolveActingFill(order.fills, {
+      userId: user.id,
+      isCreator,
+      fillId,
+    });
+
+    if (!fill) {
       return NextResponse.json(
-        { error: "Order is not ready to be completed" },
+        {
+          error: isCreator
+            ? "Specify which claim to complete"
+            : "You can only complete orders you're involved in",
+        },
         { status: 400 }
       );
     }
 
     // Both creator and claimer can mark as complete
-    if (order.creatorId !== user.id && order.claimerId !== user.id) {
+    const role = getActorRole(user.id, order.creatorId, fill.claimerId);
+    if (!role) {
       return NextResponse.json(
         { error: "You can only complete orders you're involved in" },
         { status: 400 }
       );
     }
 
-    // Complete the order
-    const previousStatus = order.status;
-    const updatedOrder = await prisma.order.update({
+    // Orders that require confirmation only complete once both sides confirm
+    const action = order.requireConfirmation ? "confirm" : "complete";
+    if (
+      !canTransition(action, {
+        from: fill.status,
+        orderType: order.orderType,
+        role,
+      })
+    ) {
+      return NextResponse.json(
+        { error: "Order is not ready to be completed" },
+        { status: 400 }
+      );
+    }
+
+    // Complete the claimed quantity
+    const previousStatus = fill.status;
+    let completed = true;
+    if (order.requireConfirmation) {
+      ({ completed } = await confirmFill({
+        orderId,
+        fillId: fill.id,
+        actorId: user.id,
+        role,
+      }));
+    } else {
+      await completeFill({ orderId, fillId: fill.id, actorId: user.id, role });
+    }
+
+    const updatedOrder = await prisma.order.findUnique({
       where: { id: orderId },
-      data: {
-        status: "FULFILLED",
-        fulfilledAt: new Date(),
-        updatedAt: new Date(),
-      },
       include: {
         creator: true,
         claimer: true,
+        fills: orderFillsInclude,
       },
     });
 
-    // Send notification for order completion
-    await NotificationService.handleOrderUpdate(orderId, "FULFILLED", previousStatus);
+    if (!completed) {
+      // First of the two confirmations; the other side still has to confirm
+      await NotificationService.notifyTradeConfirmed(order, fill, {
+        confirmedByCreator: isCreator,
+      });
+    } else {
+      // Send notification for order completion
+      await NotificationService.handleOrderUpdate(
+        orderId,
+        "FULFILLED",
+        previousStatus,
+        fill
+      );
+
+      // The creator closing out a claim is news to the claimer
+      if (isCreator && fill.claimerId !== user.id) {
+        await NotificationService.notifyClaimCompleted(order, fill);
+      }
+    }
+
+    await NotificationService.broadcastOrderChange("order_updated", orderId);
 
     return NextResponse.json(updatedOrder);
   } catch (error) {
+    if (error instanceof OrderConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
     console.error("Error completing order:", error);
     return NextResponse.json(
       { error: "Failed to complete order" },
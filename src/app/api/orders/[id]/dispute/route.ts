@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { NotificationService } from "@/lib/notification-service";
+import {
+  fillClaimerInclude,
+  orderFillsInclude,
+  resolveActingFill,
+} from "@/lib/order-fills";
+import { OrderConflictError, disputeFill } from "@/lib/order-state";
+import { canTransition, getActorRole } from "@/lib/order-transitions";
+
+// Force dynamic rendering for this route
+export const dynamic = "force-dynamic";
+
+const MAX_REASON_LENGTH = 500;
+
+// POST - Flag a READY_TO_TRADE claim for an admin to resolve.
+// Body: { fillId?, reason }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const orderId = params.id;
+
+    const user = await prisma.user.findUnique({
+      where: { discordId: session.user.id },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const { fillId, reason } = await request.json().catch(() => ({}));
+
+    if (typeof reason !== "string" || !reason.trim()) {
+      return NextResponse.json(
+        { error: "Describe what went wrong with the trade" },
+        { status: 400 }
+      );
+    }
+    if (reason.trim().length > MAX_REASON_LENGTH) {
+      return NextResponse.json(
+        { error: `Reason must be ${MAX_REASON_LENGTH} characters or less` },
+        { status: 400 }
+      );
+    }
+
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: {
+        creator: { select: { discordId: true } },
+        fills: { include: fillClaimerInclude },
+      },
+    });
+
+    if (!order) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    }
+
+    const isCreator = order.creatorId === user.id;
+    const fill = resolveActingFill(order.fills, {
+      userId: user.id,
+      isCreator,
+      fillId,
+    });
+
+    // Only the two sides of the trade can dispute it
+    const role = fill
+      ? getActorRole(user.id, order.creatorId, fill.claimerId)
+      : null;
+    if (!fill || !role) {
+      return NextResponse.json(
+        { error: "You can only dispute trades you're involved in" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !canTransition("dispute", {
+        from: fill.status,
+        orderType: order.orderType,
+        role,
+      })
+    ) {
+      return NextResponse.json(
+        { error: "Only trades that are ready to trade can be disputed" },
+        { status: 400 }
+      );
+    }
+
+    await disputeFill({
+      orderId,
+      fillId: fill.id,
+      actorId: user.id,
+      role,
+      reason: reason.trim(),
+    });
+
+    const updatedOrder = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: {
+        creator: true,
+        claimer: true,
+        fills: orderFillsInclude,
+      },
+    });
+
+    await NotificationService.notifyOrderDisputed(order, fill, {
+      raisedByCreator: isCreator,
+      reason: reason.trim(),
+    });
+
+    await NotificationService.broadcastOrderChange("order_updated", orderId);
+
+    return NextResponse.json(updatedOrder);
+  } catch (error) {
+    if (error instanceof OrderConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("Error disputing order:", error);
+    return NextResponse.json(
+      { error: "Failed to dispute order" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,9 +3,15 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { PrismaClient } from "@prisma/client";
 import { NotificationService } from "@/lib/notification-service";
+import { fillClaimerInclude, orderFillsInclude } from "@/lib/order-fills";
+import { OrderConflictError, editOrder } from "@/lib/order-state";
+import { matchOrder } from "@/lib/order-matcher";
 
 const prisma = new PrismaClient();
 
+// Edits to these fields can make the order cross the other side of the book
+const MATCH_FIELDS = ["tier", "pricePerUnit", "amount", "orderType"];
+
 export async function PATCH(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -32,7 +38,7 @@ export async function PATCH(
     // Check if order exists and user owns it
     const order = await prisma.order.findUnique({
       where: { id: orderId },
-      include: { creator: true },
+      include: { creator: true, fills: { include: fillClaimerInclude } },
     });
 
     if (!order) {
@@ -56,6 +62,27 @@ export async function PATCH(
       );
     }
 
+    if (order.status === "EXPIRED") {
+      return NextResponse.json(
+        { error: "Cannot edit expired orders" },
+        { status: 400 }
+      );
+    }
+
+    if (order.status === "CANCELLED") {
+      return NextResponse.json(
+        { error: "Cannot edit cancelled orders" },
+        { status: 400 }
+      );
+    }
+
+    if (order.status === "DISPUTED") {
+      return NextResponse.json(
+        { error: "Cannot edit an order while it is under dispute" },
+        { status: 400 }
+      );
+    }
+
     // Validate input
     const updateData: any = {};
 
@@ -88,6 +115,14 @@ export async function PATCH(
           { status: 400 }
         );
       }
+      if (qty < order.claimedAmount) {
+        return NextResponse.json(
+          {
+            error: `Amount cannot be less than the ${order.claimedAmount} already claimed`,
+          },
+          { status: 400 }
+        );
+      }
       updateData.amount = qty;
     }
 
@@ -101,46 +136,53 @@ export async function PATCH(
       updateData.orderType = orderType;
     }
 
-    // Handle status logic when order type changes
-    let statusChanged = false;
-    let previousStatus = order.status;
-    if (orderType !== undefined && orderType !== order.orderType) {
-      // If order type is changing and order is already claimed, update status accordingly
-      if (order.status === "IN_PROGRESS" && orderType === "SELL") {
-        // Changing from BUY to SELL while in progress - should be ready to trade
-        updateData.status = "READY_TO_TRADE";
-        statusChanged = true;
-      } else if (order.status === "READY_TO_TRADE" && orderType === "BUY") {
-        // Changing from SELL to BUY while ready - should be in progress
-        updateData.status = "IN_PROGRESS";
-        statusChanged = true;
-      }
-    }
-
-    // Add updated timestamp
-    updateData.updatedAt = new Date();
+    // Update the order and keep its status in line with the fills
+    const { changes, changedFills, activeFills } = await editOrder({
+      orderId,
+      actorId: user.id,
+      data: updateData,
+    });
 
-    // Update the order
-    const updatedOrder = await prisma.order.update({
+    const updatedOrder = await prisma.order.findUnique({
       where: { id: orderId },
-      data: updateData,
       include: {
         creator: true,
         claimer: true,
+        fills: orderFillsInclude,
       },
     });
 
-    // Send notification if status changed due to order type change
-    if (statusChanged && updatedOrder.claimerId) {
+    // Send notification for each claim whose status changed due to order type change
+    for (const { fill, newStatus } of changedFills) {
       await NotificationService.handleOrderUpdate(
         orderId,
-        updatedOrder.status,
-        previousStatus
+        newStatus,
+        fill.status,
+        fill
       );
     }
 
+    // Let claimers know the order they are working on changed
+    await NotificationService.notifyOrderModified(
+      updatedOrder ?? order,
+      activeFills,
+      changes
+    );
+
+    await NotificationService.broadcastOrderChange("order_updated", orderId);
+
+    if (MATCH_FIELDS.some((field) => field in changes)) {
+      await matchOrder(orderId, order);
+    }
+
     return NextResponse.json(updatedOrder);
   } catch (error) {
+    if (error instanceof OrderConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
     console.error("Error editing order:", error);
     return NextResponse.json(
       { error: "Failed to edit order" },
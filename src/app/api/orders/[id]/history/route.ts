@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { getOrderHistory } from "@/lib/order-events";
+
+// Force dynamic rendering for this route
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const orderId = params.id;
+
+    const [order, events] = await Promise.all([
+      prisma.order.findUnique({
+        where: { id: orderId },
+        select: { id: true, status: true },
+      }),
+      getOrderHistory(orderId),
+    ]);
+
+    // Deleted orders keep their history, so only 404 when nothing is known
+    if (!order && events.length === 0) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      orderId,
+      currentStatus: order?.status ?? null,
+      deleted: !order,
+      events: events.map((event) => ({
+        id: event.id,
+        type: event.type,
+        fillId: event.fillId,
+        previousStatus: event.previousStatus,
+        newStatus: event.newStatus,
+        changes: event.changes,
+        createdAt: event.createdAt.toISOString(),
+        actor: event.actor,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching order history:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch order history" },
+      { status: 500 }
+    );
+  }
+}
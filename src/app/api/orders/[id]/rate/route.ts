@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { NotificationService } from "@/lib/notification-service";
+import { orderFillsInclude } from "@/lib/order-fills";
+import { getActorRole } from "@/lib/order-transitions";
+import {
+  DuplicateRatingError,
+  MAX_RATING,
+  MAX_RATING_COMMENT_LENGTH,
+  MIN_RATING,
+  rateTrade,
+} from "@/lib/reputation";
+
+// Force dynamic rendering for this route
+export const dynamic = "force-dynamic";
+
+// POST - Rate the other side of a completed trade.
+// Body: { fillId, score, comment? }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const orderId = params.id;
+
+    const user = await prisma.user.findUnique({
+      where: { discordId: session.user.id },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const { fillId, score, comment } = await request.json().catch(() => ({}));
+
+    if (!fillId || typeof fillId !== "string") {
+      return NextResponse.json(
+        { error: "fillId is required" },
+        { status: 400 }
+      );
+    }
+    if (!Number.isInteger(score) || score < MIN_RATING || score > MAX_RATING) {
+      return NextResponse.json(
+        {
+          error: `Score must be a whole number from ${MIN_RATING} to ${MAX_RATING}`,
+        },
+        { status: 400 }
+      );
+    }
+    if (
+      comment !== undefined &&
+      (typeof comment !== "string" ||
+        comment.trim().length > MAX_RATING_COMMENT_LENGTH)
+    ) {
+      return NextResponse.json(
+        {
+          error: `Comment must be ${MAX_RATING_COMMENT_LENGTH} characters or less`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const fill = await prisma.orderFill.findFirst({
+      where: { id: fillId, orderId },
+      include: { order: { select: { creatorId: true } } },
+    });
+
+    if (!fill) {
+      return NextResponse.json({ error: "Claim not found" }, { status: 404 });
+    }
+
+    // The creator rates the claimer and the claimer rates the creator
+    const role = getActorRole(user.id, fill.order.creatorId, fill.claimerId);
+    if (!role) {
+      return NextResponse.json(
+        { error: "You can only rate trades you're involved in" },
+        { status: 403 }
+      );
+    }
+
+    if (fill.status !== "FULFILLED") {
+      return NextResponse.json(
+        { error: "Only completed trades can be rated" },
+        { status: 400 }
+      );
+    }
+
+    await rateTrade({
+      fillId,
+      raterId: user.id,
+      rateeId: role === "creator" ? fill.claimerId : fill.order.creatorId,
+      score,
+      comment: comment?.trim() || undefined,
+    });
+
+    const updatedOrder = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: {
+        creator: true,
+        claimer: true,
+        fills: orderFillsInclude,
+      },
+    });
+
+    // Reputation shown on the board changed
+    await NotificationService.broadcastOrderChange("order_updated", orderId);
+
+    return NextResponse.json(updatedOrder);
+  } catch (error) {
+    if (error instanceof DuplicateRatingError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("Error rating trade:", error);
+    return NextResponse.json(
+      { error: "Failed to rate trade" },
+      { status: 500 }
+    );
+  }
+}
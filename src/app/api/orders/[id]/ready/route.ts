@@ -3,6 +3,9 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { PrismaClient } from "@prisma/client";
 import { NotificationService } from "@/lib/notification-service";
+import { orderFillsInclude, resolveActingFill } from "@/lib/order-fills";
+import { OrderConflictError, markFillReady } from "@/lib/order-state";
+import { canTransition } from "@/lib/order-transitions";
 
 const prisma = new PrismaClient();
 
@@ -28,41 +31,54 @@ export async function POST(
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
+    const { fillId } = await request.json().catch(() => ({}));
+
     // Check if order exists and user can mark it as ready
     const order = await prisma.order.findUnique({
       where: { id: orderId },
-      include: { creator: true, claimer: true },
+      include: { creator: true, fills: true },
     });
 
     if (!order) {
       return NextResponse.json({ error: "Order not found" }, { status: 404 });
     }
 
-    if (order.status !== "IN_PROGRESS") {
+    const fill = resolveActingFill(order.fills, {
+      userId: user.id,
+      isCreator: false,
+      fillId,
+    });
+
+    // Only the claimer (person fulfilling the fill) can mark it as ready
+    if (!fill || fill.claimerId !== user.id) {
       return NextResponse.json(
-        { error: "Order must be in progress to mark as ready" },
+        { error: "Only the person fulfilling the order can mark it as ready" },
         { status: 400 }
       );
     }
 
-    // Only the claimer (person fulfilling the order) can mark it as ready
-    if (order.claimerId !== user.id) {
+    if (
+      !canTransition("ready", {
+        from: fill.status,
+        orderType: order.orderType,
+        role: "claimer",
+      })
+    ) {
       return NextResponse.json(
-        { error: "Only the person fulfilling the order can mark it as ready" },
+        { error: "Only in-progress buy orders can be marked as ready" },
         { status: 400 }
       );
     }
 
-    // Mark the order as ready to trade
-    const updatedOrder = await prisma.order.update({
+    // Mark the claimed quantity as ready to trade
+    await markFillReady({ orderId, fillId: fill.id, actorId: user.id });
+
+    const updatedOrder = await prisma.order.findUnique({
       where: { id: orderId },
-      data: {
-        status: "READY_TO_TRADE",
-        updatedAt: new Date(),
-      },
       include: {
         creator: true,
         claimer: true,
+        fills: orderFillsInclude,
       },
     });
 
@@ -70,11 +86,20 @@ export async function POST(
     await NotificationService.handleOrderUpdate(
       orderId,
       "READY_TO_TRADE",
-      "IN_PROGRESS"
+      "IN_PROGRESS",
+      fill
     );
 
+    await NotificationService.broadcastOrderChange("order_updated", orderId);
+
     return NextResponse.json(updatedOrder);
   } catch (error) {
+    if (error instanceof OrderConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
     console.error("Error marking order as ready:", error);
     return NextResponse.json(
       { error: "Failed to mark order as ready" },
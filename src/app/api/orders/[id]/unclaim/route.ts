@@ -3,6 +3,9 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { PrismaClient } from "@prisma/client";
 import { NotificationService } from "@/lib/notification-service";
+import { orderFillsInclude, resolveActingFill } from "@/lib/order-fills";
+import { OrderConflictError, releaseFill } from "@/lib/order-state";
+import { canTransition } from "@/lib/order-transitions";
 
 const prisma = new PrismaClient();
 
@@ -28,26 +31,40 @@ export async function POST(
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
+    const { fillId } = await request.json().catch(() => ({}));
+
     // Check if order exists and user can unclaim it
     const order = await prisma.order.findUnique({
       where: { id: orderId },
-      include: { creator: true, claimer: true },
+      include: { creator: true, fills: true },
     });
 
     if (!order) {
       return NextResponse.json({ error: "Order not found" }, { status: 404 });
     }
 
-    // Only the claimer can unclaim the order
-    if (order.claimerId !== user.id) {
+    const fill = resolveActingFill(order.fills, {
+      userId: user.id,
+      isCreator: false,
+      fillId,
+    });
+
+    // Only the claimer can unclaim their part of the order
+    if (!fill || fill.claimerId !== user.id) {
       return NextResponse.json(
         { error: "You can only unclaim orders you have claimed" },
         { status: 400 }
       );
     }
 
-    // Can only unclaim orders that are IN_PROGRESS or READY_TO_TRADE
-    if (!["IN_PROGRESS", "READY_TO_TRADE"].includes(order.status)) {
+    // Can only unclaim fills that are IN_PROGRESS or READY_TO_TRADE
+    if (
+      !canTransition("unclaim", {
+        from: fill.status,
+        orderType: order.orderType,
+        role: "claimer",
+      })
+    ) {
       return NextResponse.json(
         {
           error:
@@ -57,19 +74,17 @@ export async function POST(
       );
     }
 
-    const previousStatus = order.status;
+    const previousStatus = fill.status;
 
-    // Unclaim the order - set back to OPEN and remove claimer
-    const updatedOrder = await prisma.order.update({
+    // Unclaim - release the claimed quantity back to the order
+    await releaseFill({ orderId, fillId: fill.id, actorId: user.id });
+
+    const updatedOrder = await prisma.order.findUnique({
       where: { id: orderId },
-      data: {
-        status: "OPEN",
-        claimerId: null,
-        updatedAt: new Date(),
-      },
       include: {
         creator: true,
         claimer: true,
+        fills: orderFillsInclude,
       },
     });
 
@@ -77,11 +92,20 @@ export async function POST(
     await NotificationService.handleOrderUpdate(
       orderId,
       "OPEN",
-      previousStatus
+      previousStatus,
+      fill
     );
 
+    await NotificationService.broadcastOrderChange("order_updated", orderId);
+
     return NextResponse.json(updatedOrder);
   } catch (error) {
+    if (error instanceof OrderConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
     console.error("Error unclaiming order:", error);
     return NextResponse.json(
       { error: "Failed to unclaim order" },
@@ -3,6 +3,14 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { NotificationService } from "@/lib/notification-service";
+import { orderListSelect } from "@/lib/order-fills";
+import { recordOrderEvent } from "@/lib/order-events";
+import { matchOrder } from "@/lib/order-matcher";
+import {
+  CLOSED_ORDER_STATUSES,
+  OrderConflictError,
+  cancelOrder,
+} from "@/lib/order-state";
 
 // Force dynamic rendering for this route
 export const dynamic = "force-dynamic";
@@ -31,7 +39,15 @@ export async function GET(request: NextRequest) {
 
     if (
       status &&
-      ["OPEN", "IN_PROGRESS", "READY_TO_TRADE", "FULFILLED"].includes(status)
+      [
+        "OPEN",
+        "IN_PROGRESS",
+        "READY_TO_TRADE",
+        "FULFILLED",
+        "EXPIRED",
+        "CANCELLED",
+        "DISPUTED",
+      ].includes(status)
     ) {
       where.status = status;
     }
@@ -66,7 +82,11 @@ export async function GET(request: NextRequest) {
       });
 
       if (filterUser) {
-        where.OR = [{ creatorId: filterUser.id }, { claimerId: filterUser.id }];
+        where.OR = [
+          { creatorId: filterUser.id },
+          { claimerId: filterUser.id },
+          { fills: { some: { claimerId: filterUser.id } } },
+        ];
       } else {
         // If user not found, return empty array
         return NextResponse.json({
@@ -86,31 +106,7 @@ export async function GET(request: NextRequest) {
     // Optimize select fields - only get what we need
     const orders = await prisma.order.findMany({
       where,
-      select: {
-        id: true,
-        itemName: true,
-        tier: true,
-        pricePerUnit: true,
-        amount: true,
-        orderType: true,
-        status: true,
-        createdAt: true,
-        fulfilledAt: true,
-        creator: {
-          select: {
-            id: true,
-            discordName: true,
-            inGameName: true,
-          },
-        },
-        claimer: {
-          select: {
-            id: true,
-            discordName: true,
-            inGameName: true,
-          },
-        },
-      },
+      select: orderListSelect,
       orderBy: {
         createdAt: "desc",
       },
@@ -147,8 +143,15 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const { itemName, tier, pricePerUnit, amount, orderType } =
-      await request.json();
+    const {
+      itemName,
+      tier,
+      pricePerUnit,
+      amount,
+      orderType,
+      expiresAt,
+      requireConfirmation,
+    } = await request.json();
 
     // Validate input
     if (
@@ -172,6 +175,28 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (
+      requireConfirmation !== undefined &&
+      typeof requireConfirmation !== "boolean"
+    ) {
+      return NextResponse.json(
+        { error: "requireConfirmation must be true or false" },
+        { status: 400 }
+      );
+    }
+
+    // Expiration is optional - orders without one stay open until claimed or deleted
+    let expirationDate: Date | null = null;
+    if (expiresAt) {
+      expirationDate = new Date(expiresAt);
+      if (isNaN(expirationDate.getTime()) || expirationDate <= new Date()) {
+        return NextResponse.json(
+          { error: "Expiration must be a future date" },
+          { status: 400 }
+        );
+      }
+    }
+
     // Get or create user
     let user = await prisma.user.findUnique({
       where: { discordId: session.user.id },
@@ -196,6 +221,8 @@ export async function POST(request: NextRequest) {
         amount: parseInt(amount),
         orderType: orderType || "BUY",
         status: "OPEN",
+        expiresAt: expirationDate,
+        requireConfirmation: requireConfirmation ?? false,
         creatorId: user.id,
       },
       include: {
@@ -203,6 +230,17 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await recordOrderEvent({
+      orderId: order.id,
+      type: "created",
+      actorId: user.id,
+      newStatus: order.status,
+    });
+
+    await NotificationService.broadcastOrderChange("order_created", order.id);
+    await NotificationService.notifyWatchers(order);
+    await matchOrder(order.id);
+
     return NextResponse.json(order);
   } catch (error) {
     console.error("Error creating order:", error);
@@ -213,6 +251,12 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// Orders are no longer deleted outright. Older clients that still DELETE
+// /api/orders?id=... get the order cancelled instead, with the reason they
+// pass (as ?reason= or in the body) or a default one.
+const DEFAULT_DELETE_REASON = "Deleted by the creator";
+const MAX_REASON_LENGTH = 500;
+
 export async function DELETE(request: NextRequest) {
   const session = await getServerSession(authOptions);
 
@@ -231,6 +275,18 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
+    const body = await request.json().catch(() => ({}));
+    const reason =
+      String(searchParams.get("reason") ?? body.reason ?? "").trim() ||
+      DEFAULT_DELETE_REASON;
+
+    if (reason.length > MAX_REASON_LENGTH) {
+      return NextResponse.json(
+        { error: `Reason must be ${MAX_REASON_LENGTH} characters or less` },
+        { status: 400 }
+      );
+    }
+
     // Get user
     const user = await prisma.user.findUnique({
       where: { discordId: session.user.id },
@@ -240,17 +296,14 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
-    // Get the order to verify ownership and status
     const order = await prisma.order.findUnique({
       where: { id: orderId },
-      include: { creator: true },
     });
 
     if (!order) {
       return NextResponse.json({ error: "Order not found" }, { status: 404 });
     }
 
-    // Check if user owns the order
     if (order.creatorId !== user.id) {
       return NextResponse.json(
         { error: "You can only delete your own orders" },
@@ -258,34 +311,42 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    // Allow order creators to delete orders that are OPEN, IN_PROGRESS, or READY_TO_TRADE
-    // But not FULFILLED orders (completed trades)
-    if (order.status === "FULFILLED") {
+    if (CLOSED_ORDER_STATUSES.includes(order.status)) {
       return NextResponse.json(
-        { error: "Cannot delete completed orders" },
+        { error: "Cannot delete completed, expired or cancelled orders" },
         { status: 400 }
       );
     }
 
-    // Store previous status for notifications
-    const previousStatus = order.status;
+    if (order.status === "DISPUTED") {
+      return NextResponse.json(
+        { error: "Cannot delete an order while it is under dispute" },
+        { status: 400 }
+      );
+    }
 
-    // Delete the order
-    await prisma.order.delete({
-      where: { id: orderId },
+    const { activeFills } = await cancelOrder({
+      orderId,
+      actorId: user.id,
+      reason,
     });
 
-    // If the order was claimed, notify the claimer that it was cancelled
-    if (order.claimerId && previousStatus !== "OPEN") {
-      await NotificationService.handleOrderUpdate(
-        orderId,
-        "OPEN",
-        previousStatus
-      );
-    }
+    // Let anyone still working on a claim know the order is off
+    await NotificationService.notifyOrderCancelled(order, activeFills, reason);
+
+    await NotificationService.broadcastOrderChange("order_updated", orderId);
 
-    return NextResponse.json({ message: "Order deleted successfully" });
+    return NextResponse.json({
+      message: "Order cancelled successfully",
+      cancelled: true,
+    });
   } catch (error) {
+    if (error instanceof OrderConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
     console.error("Error deleting order:", error);
     return NextResponse.json(
       { error: "Failed to delete order" },
@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+// Force dynamic rendering for this route
+export const dynamic = "force-dynamic";
+
+const ALERT_TYPES = ["ABOVE", "BELOW", "PERCENT_CHANGE"];
+const MAX_ALERTS_PER_USER = 50;
+
+async function getUserId(discordId: string) {
+  const user = await prisma.user.findUnique({
+    where: { discordId },
+    select: { id: true },
+  });
+  return user?.id ?? null;
+}
+
+// GET - List the current user's price alerts, optionally for one item/tier
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const itemName = searchParams.get("itemName");
+    const tier = searchParams.get("tier");
+
+    const userId = await getUserId(session.user.id);
+    if (!userId) {
+      return NextResponse.json({ alerts: [] });
+    }
+
+    const alerts = await prisma.priceAlert.findMany({
+      where: {
+        userId,
+        ...(itemName && { itemName }),
+        ...(tier && !isNaN(parseInt(tier)) && { tier: parseInt(tier) }),
+      },
+      orderBy: [{ itemName: "asc" }, { tier: "asc" }, { createdAt: "asc" }],
+    });
+
+    return NextResponse.json({ alerts });
+  } catch (error) {
+    console.error("Error fetching price alerts:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch price alerts" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create a threshold or percent-change alert on an item/tier
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { itemName, tier, type, threshold } = await request.json();
+
+    if (!itemName || typeof itemName !== "string") {
+      return NextResponse.json(
+        { error: "Item name is required" },
+        { status: 400 }
+      );
+    }
+
+    if (typeof tier !== "number" || tier < 1 || tier > 10) {
+      return NextResponse.json(
+        { error: "Tier must be a number between 1 and 10" },
+        { status: 400 }
+      );
+    }
+
+    if (!ALERT_TYPES.includes(type)) {
+      return NextResponse.json(
+        { error: "Alert type must be ABOVE, BELOW or PERCENT_CHANGE" },
+        { status: 400 }
+      );
+    }
+
+    const value = parseFloat(threshold);
+    if (isNaN(value) || value <= 0) {
+      return NextResponse.json(
+        { error: "Threshold must be a positive number" },
+        { status: 400 }
+      );
+    }
+
+    const userId = await getUserId(session.user.id);
+    if (!userId) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const count = await prisma.priceAlert.count({ where: { userId } });
+    if (count >= MAX_ALERTS_PER_USER) {
+      return NextResponse.json(
+        { error: `You can have at most ${MAX_ALERTS_PER_USER} price alerts` },
+        { status: 400 }
+      );
+    }
+
+    const alert = await prisma.priceAlert.create({
+      data: {
+        userId,
+        itemName,
+        tier,
+        type,
+        threshold: value,
+      },
+    });
+
+    return NextResponse.json(alert);
+  } catch (error) {
+    console.error("Error creating price alert:", error);
+    return NextResponse.json(
+      { error: "Failed to create price alert" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a price alert (?id=)
+export async function DELETE(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const alertId = searchParams.get("id");
+
+    if (!alertId) {
+      return NextResponse.json(
+        { error: "Alert ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const userId = await getUserId(session.user.id);
+    if (!userId) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const result = await prisma.priceAlert.deleteMany({
+      where: { id: alertId, userId },
+    });
+
+    if (result.count === 0) {
+      return NextResponse.json({ error: "Alert not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting price alert:", error);
+    return NextResponse.json(
+      { error: "Failed to delete price alert" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  DEFAULT_LOOKBACK_DAYS,
+  MAX_LOOKBACK_DAYS,
+  getMarketPriceSuggestion,
+} from "@/lib/market-price";
+
+// Force this route to be dynamic
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const itemName = searchParams.get("itemName");
+    const tier = searchParams.get("tier");
+    const days = searchParams.get("days");
+
+    if (!itemName || !tier) {
+      return NextResponse.json(
+        { error: "itemName and tier parameters are required" },
+        { status: 400 }
+      );
+    }
+
+    const tierNumber = parseInt(tier);
+    if (isNaN(tierNumber)) {
+      return NextResponse.json(
+        { error: "tier must be a valid number" },
+        { status: 400 }
+      );
+    }
+
+    const lookbackDays = days ? parseFloat(days) : DEFAULT_LOOKBACK_DAYS;
+    if (
+      isNaN(lookbackDays) ||
+      lookbackDays <= 0 ||
+      lookbackDays > MAX_LOOKBACK_DAYS
+    ) {
+      return NextResponse.json(
+        { error: `days must be between 0 and ${MAX_LOOKBACK_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    const suggestion = await getMarketPriceSuggestion(
+      itemName,
+      tierNumber,
+      lookbackDays
+    );
+
+    return NextResponse.json(suggestion);
+  } catch (error) {
+    console.error("Error fetching price suggestion:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch price suggestion" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,11 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import {
+  parsePreferences,
+  resolvePreferences,
+} from "@/lib/notification-preferences";
+import { toReputation } from "@/lib/reputation";
 
 // Force dynamic rendering for this route
 export const dynamic = "force-dynamic";
@@ -15,7 +20,13 @@ export async function PATCH(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { inGameName, notificationsEnabled, audioEnabled } = body;
+    const {
+      inGameName,
+      notificationsEnabled,
+      audioEnabled,
+      discordDmEnabled,
+      notificationPreferences,
+    } = body;
 
     // Validate input
     if (
@@ -45,6 +56,27 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
+    if (
+      discordDmEnabled !== undefined &&
+      typeof discordDmEnabled !== "boolean"
+    ) {
+      return NextResponse.json(
+        { error: "Invalid Discord DM setting" },
+        { status: 400 }
+      );
+    }
+
+    let preferences = null;
+    if (notificationPreferences !== undefined) {
+      preferences = parsePreferences(notificationPreferences);
+      if (!preferences) {
+        return NextResponse.json(
+          { error: "Invalid notification preferences" },
+          { status: 400 }
+        );
+      }
+    }
+
     // Update user profile
     const updateData: any = {};
     if (inGameName !== undefined) {
@@ -56,6 +88,12 @@ export async function PATCH(request: NextRequest) {
     if (audioEnabled !== undefined) {
       updateData.audioEnabled = audioEnabled;
     }
+    if (discordDmEnabled !== undefined) {
+      updateData.discordDmEnabled = discordDmEnabled;
+    }
+    if (preferences) {
+      updateData.notificationPreferences = preferences;
+    }
 
     const updatedUser = await prisma.user.update({
       where: { discordId: session.user.discordId },
@@ -68,6 +106,10 @@ export async function PATCH(request: NextRequest) {
         inGameName: updatedUser.inGameName,
         notificationsEnabled: updatedUser.notificationsEnabled,
         audioEnabled: updatedUser.audioEnabled,
+        discordDmEnabled: updatedUser.discordDmEnabled,
+        notificationPreferences: resolvePreferences(
+          updatedUser.notificationPreferences
+        ),
       },
     });
   } catch (error) {
@@ -93,6 +135,11 @@ export async function GET(request: NextRequest) {
         inGameName: true,
         notificationsEnabled: true,
         audioEnabled: true,
+        discordDmEnabled: true,
+        notificationPreferences: true,
+        ratingCount: true,
+        ratingTotal: true,
+        abandonedClaims: true,
       },
     });
 
@@ -105,6 +152,11 @@ export async function GET(request: NextRequest) {
         inGameName: user.inGameName,
         notificationsEnabled: user.notificationsEnabled,
         audioEnabled: user.audioEnabled,
+        discordDmEnabled: user.discordDmEnabled,
+        notificationPreferences: resolvePreferences(
+          user.notificationPreferences
+        ),
+        reputation: toReputation(user),
       },
     });
   } catch (error) {
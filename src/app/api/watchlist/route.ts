@@ -0,0 +1,186 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+// Force dynamic rendering for this route
+export const dynamic = "force-dynamic";
+
+const MAX_WATCHES_PER_USER = 50;
+
+async function getUserId(discordId: string) {
+  const user = await prisma.user.findUnique({
+    where: { discordId },
+    select: { id: true },
+  });
+  return user?.id ?? null;
+}
+
+// Parses an optional price bound; undefined/null/"" means no bound
+function parsePriceBound(value: unknown): number | null | "invalid" {
+  if (value === undefined || value === null || value === "") return null;
+  const price = parseFloat(String(value));
+  return isNaN(price) || price <= 0 ? "invalid" : price;
+}
+
+// GET - List the current user's watchlist
+export async function GET() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const userId = await getUserId(session.user.id);
+    if (!userId) {
+      return NextResponse.json({ watches: [] });
+    }
+
+    const watches = await prisma.watchlist.findMany({
+      where: { userId },
+      orderBy: [{ itemName: "asc" }, { tier: "asc" }],
+    });
+
+    return NextResponse.json({ watches });
+  } catch (error) {
+    console.error("Error fetching watchlist:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch watchlist" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Watch an item, optionally narrowed by tier, order type and price
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { itemName, tier, orderType, minPrice, maxPrice } =
+      await request.json();
+
+    if (!itemName || typeof itemName !== "string") {
+      return NextResponse.json(
+        { error: "Item name is required" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      tier !== undefined &&
+      tier !== null &&
+      (typeof tier !== "number" || tier < 1 || tier > 10)
+    ) {
+      return NextResponse.json(
+        { error: "Tier must be a number between 1 and 10" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      orderType !== undefined &&
+      orderType !== null &&
+      !["BUY", "SELL"].includes(orderType)
+    ) {
+      return NextResponse.json(
+        { error: "Order type must be BUY or SELL" },
+        { status: 400 }
+      );
+    }
+
+    const min = parsePriceBound(minPrice);
+    const max = parsePriceBound(maxPrice);
+    if (min === "invalid" || max === "invalid") {
+      return NextResponse.json(
+        { error: "Prices must be positive numbers" },
+        { status: 400 }
+      );
+    }
+
+    if (min !== null && max !== null && min > max) {
+      return NextResponse.json(
+        { error: "Minimum price cannot be above maximum price" },
+        { status: 400 }
+      );
+    }
+
+    const userId = await getUserId(session.user.id);
+    if (!userId) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const count = await prisma.watchlist.count({ where: { userId } });
+    if (count >= MAX_WATCHES_PER_USER) {
+      return NextResponse.json(
+        { error: `You can watch at most ${MAX_WATCHES_PER_USER} items` },
+        { status: 400 }
+      );
+    }
+
+    const watch = await prisma.watchlist.create({
+      data: {
+        userId,
+        itemName: itemName.trim(),
+        tier: tier ?? null,
+        orderType: orderType ?? null,
+        minPrice: min,
+        maxPrice: max,
+      },
+    });
+
+    return NextResponse.json(watch);
+  } catch (error) {
+    console.error("Error creating watch:", error);
+    return NextResponse.json(
+      { error: "Failed to create watch" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Stop watching (?id=)
+export async function DELETE(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const watchId = searchParams.get("id");
+
+    if (!watchId) {
+      return NextResponse.json(
+        { error: "Watch ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const userId = await getUserId(session.user.id);
+    if (!userId) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const result = await prisma.watchlist.deleteMany({
+      where: { id: watchId, userId },
+    });
+
+    if (result.count === 0) {
+      return NextResponse.json({ error: "Watch not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting watch:", error);
+    return NextResponse.json(
+      { error: "Failed to delete watch" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,367 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  ReferenceLine,
+} from "recharts";
+import { LoadingSpinner } from "@/components/loading-spinner";
+import { formatPrice } from "@/lib/pricing";
+import type { OrderBook, OrderBookLevel } from "@/lib/order-book";
+
+interface MarketData extends OrderBook {
+  itemName: string;
+  tier: number;
+  referencePrice: number | null;
+  referenceUpdatedAt: string | null;
+  openOrders: number;
+}
+
+const chartConfig = {
+  bids: {
+    label: "Bids",
+    color: "hsl(var(--chart-1))",
+  },
+  asks: {
+    label: "Asks",
+    color: "#fb923c",
+  },
+} satisfies ChartConfig;
+
+// Depth chart points: bids climb towards lower prices, asks towards higher
+function toDepthData({ bids, asks }: OrderBook) {
+  return [
+    ...bids
+      .slice()
+      .reverse()
+      .map((level) => ({ price: level.price, bids: level.cumulative })),
+    ...asks.map((level) => ({ price: level.price, asks: level.cumulative })),
+  ];
+}
+
+function LadderTable({
+  title,
+  levels,
+  side,
+}: {
+  title: string;
+  levels: OrderBookLevel[];
+  side: "BUY" | "SELL";
+}) {
+  const maxDepth = levels[levels.length - 1]?.cumulative || 1;
+  const barClass = side === "BUY" ? "bg-primary/15" : "bg-orange-500/15";
+  const priceClass = side === "BUY" ? "text-primary" : "text-orange-400";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>
+          {levels.length === 0
+            ? "No open orders"
+            : `${levels.length} price ${levels.length === 1 ? "level" : "levels"}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-muted-foreground/20 text-muted-foreground">
+              <th className="text-left py-2 px-4 font-medium">Price</th>
+              <th className="text-right py-2 px-4 font-medium">Amount</th>
+              <th className="text-right py-2 px-4 font-medium">Total</th>
+              <th className="text-right py-2 px-4 font-medium">Orders</th>
+            </tr>
+          </thead>
+          <tbody>
+            {levels.map((level) => (
+              <tr
+                key={level.price}
+                className="relative border-b border-muted-foreground/10"
+              >
+                <td className="relative py-2 px-4">
+                  <div
+                    className={`absolute inset-y-0 left-0 ${barClass}`}
+                    style={{
+                      width: `${(level.cumulative / maxDepth) * 100}%`,
+                    }}
+                  />
+                  <span className={`relative font-mono ${priceClass}`}>
+                    {formatPrice(level.price)}
+                  </span>
+                </td>
+                <td className="py-2 px-4 text-right font-mono">
+                  {level.amount.toLocaleString()}
+                </td>
+                <td className="py-2 px-4 text-right font-mono text-muted-foreground">
+                  {level.cumulative.toLocaleString()}
+                </td>
+                <td className="py-2 px-4 text-right text-muted-foreground">
+                  {level.orders}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function MarketPage({
+  params,
+}: {
+  params: { item: string; tier: string };
+}) {
+  const itemName = decodeURIComponent(params.item);
+  const tier = parseInt(params.tier);
+  const [data, setData] = useState<MarketData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchOrderBook = useCallback(async () => {
+    try {
+      const response = await fetch(
+        `/api/market/${encodeURIComponent(itemName)}/${tier}`
+      );
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch order book");
+      }
+
+      setData(await response.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, [itemName, tier]);
+
+  useEffect(() => {
+    fetchOrderBook();
+  }, [fetchOrderBook]);
+
+  // Refresh when an order for this item changes. Deletions don't carry the
+  // order, so those always refresh.
+  useEffect(() => {
+    const handleOrderBookUpdate = (event: CustomEvent) => {
+      const { order } = event.detail;
+      if (!order || (order.itemName === itemName && order.tier === tier)) {
+        fetchOrderBook();
+      }
+    };
+
+    window.addEventListener(
+      "orderBookUpdate",
+      handleOrderBookUpdate as EventListener
+    );
+    return () => {
+      window.removeEventListener(
+        "orderBookUpdate",
+        handleOrderBookUpdate as EventListener
+      );
+    };
+  }, [itemName, tier, fetchOrderBook]);
+
+  if (loading) {
+    return <LoadingSpinner message="Loading order book..." />;
+  }
+
+  const displayName = itemName.charAt(0).toUpperCase() + itemName.slice(1);
+
+  if (error || !data) {
+    return (
+      <div className="container mx-auto px-6 py-8">
+        <p className="text-red-500">
+          Error loading order book: {error || "No data available"}
+        </p>
+      </div>
+    );
+  }
+
+  const depthData = toDepthData(data);
+
+  return (
+    <div className="container mx-auto px-6 py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">
+            T{tier} {displayName}
+          </h1>
+          <p className="text-muted-foreground">
+            {data.openOrders} open {data.openOrders === 1 ? "order" : "orders"}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button asChild variant="outline">
+            <Link href="/pricing">Pricing</Link>
+          </Button>
+          <Button asChild>
+            <Link href="/orders/create">Create Order</Link>
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Best Bid</CardDescription>
+            <CardTitle className="font-mono text-primary">
+              {data.bestBid !== null ? formatPrice(data.bestBid) : "—"}
+            </CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Best Ask</CardDescription>
+            <CardTitle className="font-mono text-orange-400">
+              {data.bestAsk !== null ? formatPrice(data.bestAsk) : "—"}
+            </CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Spread</CardDescription>
+            <CardTitle className="font-mono">
+              {data.spread !== null ? formatPrice(data.spread) : "—"}
+            </CardTitle>
+          </CardHeader>
+          {data.spreadPercent !== null && (
+            <CardContent className="text-xs text-muted-foreground">
+              {data.spreadPercent.toFixed(1)}% of mid
+            </CardContent>
+          )}
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Reference Price</CardDescription>
+            <CardTitle className="font-mono">
+              {data.referencePrice !== null
+                ? formatPrice(data.referencePrice)
+                : "—"}
+            </CardTitle>
+          </CardHeader>
+          {data.referenceUpdatedAt && (
+            <CardContent className="text-xs text-muted-foreground">
+              Updated {new Date(data.referenceUpdatedAt).toLocaleDateString()}
+            </CardContent>
+          )}
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Depth</CardTitle>
+          <CardDescription>
+            Cumulative quantity available at each price
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {depthData.length === 0 ? (
+            <div className="h-64 flex items-center justify-center text-muted-foreground">
+              <p>No open orders for this item and tier</p>
+            </div>
+          ) : (
+            <ChartContainer config={chartConfig} className="h-64 w-full">
+              <AreaChart
+                accessibilityLayer
+                data={depthData}
+                margin={{ left: 0, right: 12, top: 12, bottom: 12 }}
+              >
+                <CartesianGrid
+                  vertical={false}
+                  stroke="hsl(var(--muted-foreground))"
+                  strokeOpacity={0.15}
+                  strokeDasharray="2 2"
+                />
+                <XAxis
+                  dataKey="price"
+                  type="number"
+                  domain={["dataMin", "dataMax"]}
+                  tickLine={false}
+                  axisLine={false}
+                  tickMargin={8}
+                  tickFormatter={(value) => formatPrice(value)}
+                />
+                <YAxis
+                  width={60}
+                  tickLine={false}
+                  axisLine={false}
+                  tickMargin={8}
+                  tickFormatter={(value) => value.toLocaleString()}
+                />
+                <ChartTooltip
+                  cursor={false}
+                  content={
+                    <ChartTooltipContent
+                      indicator="dot"
+                      labelFormatter={(_, payload) =>
+                        formatPrice(payload?.[0]?.payload?.price ?? 0)
+                      }
+                    />
+                  }
+                  isAnimationActive={false}
+                />
+                {data.referencePrice !== null && (
+                  <ReferenceLine
+                    x={data.referencePrice}
+                    stroke="hsl(var(--muted-foreground))"
+                    strokeDasharray="4 4"
+                    label={{
+                      value: "Reference",
+                      position: "top",
+                      fill: "hsl(var(--muted-foreground))",
+                      fontSize: 10,
+                    }}
+                  />
+                )}
+                <Area
+                  dataKey="bids"
+                  type="stepBefore"
+                  fill="var(--color-bids)"
+                  fillOpacity={0.2}
+                  stroke="var(--color-bids)"
+                  strokeWidth={2}
+                  isAnimationActive={false}
+                />
+                <Area
+                  dataKey="asks"
+                  type="stepAfter"
+                  fill="var(--color-asks)"
+                  fillOpacity={0.2}
+                  stroke="var(--color-asks)"
+                  strokeWidth={2}
+                  isAnimationActive={false}
+                />
+              </AreaChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <LadderTable title="Bids (Buy Orders)" levels={data.bids} side="BUY" />
+        <LadderTable title="Asks (Sell Orders)" levels={data.asks} side="SELL" />
+      </div>
+    </div>
+  );
+}
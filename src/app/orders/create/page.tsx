@@ -12,6 +12,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -20,7 +21,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useRouter } from "next/navigation";
-import { formatPrice } from "@/lib/pricing";
+import { formatPrice, getPriceSuggestion } from "@/lib/pricing";
 import {
   usePricing,
   useAvailableItems,
@@ -37,6 +38,8 @@ export default function CreateOrderPage() {
     tier: 1,
     pricePerUnit: "",
     amount: "",
+    expiresInDays: "never",
+    requireConfirmation: false,
   });
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
@@ -45,6 +48,9 @@ export default function CreateOrderPage() {
   const lastPriceUpdateRef = useRef<string>("");
   // Track if user has manually edited the price
   const [userEditedPrice, setUserEditedPrice] = useState(false);
+  const [priceSuggestion, setPriceSuggestion] = useState<Awaited<
+    ReturnType<typeof getPriceSuggestion>
+  > | null>(null);
 
   // Use custom pricing hook
   const {
@@ -121,6 +127,28 @@ export default function CreateOrderPage() {
     userEditedPrice,
   ]);
 
+  // Fetch what recent trades say the item is worth
+  useEffect(() => {
+    if (!formData.itemName) {
+      setPriceSuggestion(null);
+      return;
+    }
+
+    let cancelled = false;
+    getPriceSuggestion(formData.itemName, formData.tier)
+      .then((suggestion) => {
+        if (!cancelled) setPriceSuggestion(suggestion);
+      })
+      .catch((error) => {
+        console.error("Error fetching price suggestion:", error);
+        if (!cancelled) setPriceSuggestion(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [formData.itemName, formData.tier]);
+
   useEffect(() => {
     if (status === "unauthenticated") {
       router.push("/auth/signin");
@@ -189,6 +217,14 @@ export default function CreateOrderPage() {
           pricePerUnit: orderSummary.pricePerUnit,
           amount: orderSummary.amount,
           orderType: formData.orderType,
+          expiresAt:
+            formData.expiresInDays === "never"
+              ? null
+              : new Date(
+                  Date.now() +
+                    parseInt(formData.expiresInDays) * 24 * 60 * 60 * 1000
+                ).toISOString(),
+          requireConfirmation: formData.requireConfirmation,
         }),
       });
 
@@ -232,7 +268,10 @@ export default function CreateOrderPage() {
     lastPriceUpdateRef.current = "";
   };
 
-  const handleInputChange = (field: string, value: string | number) => {
+  const handleInputChange = (
+    field: string,
+    value: string | number | boolean
+  ) => {
     setFormData((prev) => ({
       ...prev,
       [field]: value,
@@ -363,6 +402,46 @@ export default function CreateOrderPage() {
                   <p className="text-xs text-muted-foreground">
                     Auto-filled from pricing page, but you can edit if needed
                   </p>
+                  {priceSuggestion?.marketPrice != null && (
+                    <div className="text-xs text-muted-foreground space-y-1">
+                      <p>
+                        Market says{" "}
+                        <span className="font-mono text-foreground">
+                          {formatPrice(priceSuggestion.marketPrice)}
+                        </span>
+                        {priceSuggestion.referencePrice !== null && (
+                          <>
+                            , reference says{" "}
+                            <span className="font-mono text-foreground">
+                              {formatPrice(priceSuggestion.referencePrice)}
+                            </span>
+                          </>
+                        )}
+                      </p>
+                      <p>
+                        {priceSuggestion.sampleSize}{" "}
+                        {priceSuggestion.sampleSize === 1 ? "trade" : "trades"}{" "}
+                        in the last {priceSuggestion.lookbackDays} days •{" "}
+                        {Math.round(priceSuggestion.confidence * 100)}%
+                        confidence
+                      </p>
+                      {priceSuggestion.suggested !== null && (
+                        <Button
+                          type="button"
+                          variant="link"
+                          size="sm"
+                          className="h-auto p-0 text-xs"
+                          onClick={() =>
+                            handlePriceChange(
+                              priceSuggestion.suggested!.toString()
+                            )
+                          }
+                        >
+                          Use suggested {formatPrice(priceSuggestion.suggested)}
+                        </Button>
+                      )}
+                    </div>
+                  )}
                 </div>
 
                 <div className="space-y-2">
@@ -381,6 +460,51 @@ export default function CreateOrderPage() {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="expiresInDays">Expires</Label>
+                <Select
+                  value={formData.expiresInDays}
+                  onValueChange={(value) =>
+                    handleInputChange("expiresInDays", value)
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="never">Never</SelectItem>
+                    <SelectItem value="1">In 1 day</SelectItem>
+                    <SelectItem value="3">In 3 days</SelectItem>
+                    <SelectItem value="7">In 7 days</SelectItem>
+                    <SelectItem value="14">In 14 days</SelectItem>
+                    <SelectItem value="30">In 30 days</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Any quantity still unclaimed is removed from the order book
+                  after this
+                </p>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="requireConfirmation">
+                    Require both sides to confirm
+                  </Label>
+                  <p className="text-xs text-muted-foreground">
+                    A trade only completes once you and the claimer have both
+                    confirmed it
+                  </p>
+                </div>
+                <Switch
+                  id="requireConfirmation"
+                  checked={formData.requireConfirmation}
+                  onCheckedChange={(checked) =>
+                    handleInputChange("requireConfirmation", checked)
+                  }
+                />
+              </div>
+
               <div className="bg-secondary/10 p-4 rounded-md border border-muted-foreground/20">
                 <div className="flex justify-between items-center">
                   <div className="text-sm text-muted-foreground">
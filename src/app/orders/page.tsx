@@ -19,8 +19,34 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import Link from "next/link";
-import { ConfirmationModal } from "@/components/ui/confirmation-modal";
 import { EditOrderModal } from "@/components/edit-order-modal";
+import { ClaimOrderModal } from "@/components/claim-order-modal";
+import { OrderHistoryModal } from "@/components/order-history-modal";
+import { ReasonModal } from "@/components/reason-modal";
+import { RatingModal } from "@/components/rating-modal";
+import { TraderReputation } from "@/components/trader-reputation";
+import { canTransition, getActorRole } from "@/lib/order-transitions";
+
+interface OrderFill {
+  id: string;
+  amount: number;
+  status: string;
+  createdAt: string;
+  fulfilledAt?: string | null;
+  disputedAt?: string | null;
+  disputeReason?: string | null;
+  creatorConfirmedAt?: string | null;
+  claimerConfirmedAt?: string | null;
+  ratings?: { raterId: string }[];
+  claimer: {
+    id: string;
+    discordName: string;
+    inGameName: string | null;
+    ratingCount?: number;
+    ratingTotal?: number;
+    abandonedClaims?: number;
+  };
+}
 
 interface Order {
   id: string;
@@ -28,22 +54,37 @@ interface Order {
   tier: number;
   pricePerUnit: number;
   amount: number;
+  claimedAmount: number;
   orderType: string;
   status: string;
+  requireConfirmation?: boolean;
   createdAt: string;
   fulfilledAt?: string;
+  expiresAt?: string | null;
+  cancelledAt?: string | null;
+  cancelReason?: string | null;
   creator: {
     id: string;
     discordName: string;
     inGameName: string | null;
+    ratingCount?: number;
+    ratingTotal?: number;
+    abandonedClaims?: number;
   };
   claimer?: {
     id: string;
     discordName: string;
     inGameName: string | null;
+    ratingCount?: number;
+    ratingTotal?: number;
+    abandonedClaims?: number;
   } | null;
+  fills: OrderFill[];
 }
 
+// Orders that are finished with; hidden from the "All" tab
+const CLOSED_STATUSES = ["FULFILLED", "EXPIRED", "CANCELLED"];
+
 interface User {
   id: string;
   discordId: string;
@@ -74,7 +115,6 @@ export default function OrdersPage() {
     status,
     loadMore,
     updateOrder,
-    removeOrder,
     refreshSession,
   } = useOrders();
 
@@ -83,7 +123,7 @@ export default function OrdersPage() {
     orderType: "ALL",
     status: "ALL",
   });
-  const [deleteModal, setDeleteModal] = useState<{
+  const [cancelModal, setCancelModal] = useState<{
     isOpen: boolean;
     orderId: string | null;
     isLoading: boolean;
@@ -93,6 +133,42 @@ export default function OrdersPage() {
     isLoading: false,
   });
 
+  const [disputeModal, setDisputeModal] = useState<{
+    isOpen: boolean;
+    order: Order | null;
+    fill: OrderFill | null;
+    isLoading: boolean;
+  }>({
+    isOpen: false,
+    order: null,
+    fill: null,
+    isLoading: false,
+  });
+
+  const [rateModal, setRateModal] = useState<{
+    isOpen: boolean;
+    order: Order | null;
+    fill: OrderFill | null;
+    isLoading: boolean;
+  }>({
+    isOpen: false,
+    order: null,
+    fill: null,
+    isLoading: false,
+  });
+
+  const [claimModal, setClaimModal] = useState<{
+    isOpen: boolean;
+    order: Order | null;
+    isLoading: boolean;
+  }>({
+    isOpen: false,
+    order: null,
+    isLoading: false,
+  });
+
+  const [historyOrder, setHistoryOrder] = useState<Order | null>(null);
+
   // Add edit modal state
   const [editModal, setEditModal] = useState<{
     isOpen: boolean;
@@ -111,21 +187,22 @@ export default function OrdersPage() {
         ? allOrders.filter(
             (order) =>
               order.creator.id === currentUser.id ||
-              order.claimer?.id === currentUser.id
+              order.claimer?.id === currentUser.id ||
+              order.fills.some((fill) => fill.claimer.id === currentUser.id)
           )
         : [];
 
-      // For tab counts, exclude fulfilled orders from "All" tab
+      // For tab counts, exclude closed orders from "All" tab
       const allOrdersForDisplay = allOrders.filter(
-        (order) => order.status !== "FULFILLED"
+        (order) => !CLOSED_STATUSES.includes(order.status)
       );
       const myOrdersForDisplay = myOrdersList; // "Mine" tab shows all orders including fulfilled
 
       const sourceOrders = activeTab === "all" ? allOrders : myOrdersList;
 
       const filtered = sourceOrders.filter((order) => {
-        // On "All" tab, exclude fulfilled orders
-        if (activeTab === "all" && order.status === "FULFILLED") {
+        // On "All" tab, exclude fulfilled, expired and cancelled orders
+        if (activeTab === "all" && CLOSED_STATUSES.includes(order.status)) {
           return false;
         }
 
@@ -154,7 +231,7 @@ export default function OrdersPage() {
   const counts = useMemo(() => {
     const countsSource =
       activeTab === "all"
-        ? allOrders.filter((order) => order.status !== "FULFILLED")
+        ? allOrders.filter((order) => !CLOSED_STATUSES.includes(order.status))
         : myOrders;
 
     return {
@@ -166,6 +243,8 @@ export default function OrdersPage() {
       ).length,
       fulfilled: countsSource.filter((order) => order.status === "FULFILLED")
         .length,
+      disputed: countsSource.filter((order) => order.status === "DISPUTED")
+        .length,
       buy: countsSource.filter((order) => order.orderType === "BUY").length,
       sell: countsSource.filter((order) => order.orderType === "SELL").length,
     };
@@ -179,92 +258,137 @@ export default function OrdersPage() {
     }
   }, [session, status, router]);
 
-  const handleClaimOrder = async (orderId: string) => {
-    // Optimistic update - immediately update the UI
-    updateOrder(orderId, { status: "IN_PROGRESS", claimer: currentUser });
+  const handleClaimOrder = (order: Order) => {
+    setClaimModal({
+      isOpen: true,
+      order,
+      isLoading: false,
+    });
+  };
+
+  const confirmClaimOrder = async (amount: number) => {
+    if (!claimModal.order) return;
+
+    setClaimModal((prev) => ({ ...prev, isLoading: true }));
 
     try {
-      const response = await fetch(`/api/orders/${orderId}/claim`, {
+      const response = await fetch(`/api/orders/${claimModal.order.id}/claim`, {
         method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ amount }),
       });
 
       if (!response.ok) {
-        // Revert the optimistic update on error
-        updateOrder(orderId, { status: "OPEN", claimer: null });
         const error = await response.json();
         alert(error.error || "Failed to claim order");
+        return;
       }
+
+      const updatedOrder = await response.json();
+
+      // Replace the order with the server copy so fills and remaining amount stay accurate
+      updateOrder(claimModal.order.id, updatedOrder);
+
+      setClaimModal({
+        isOpen: false,
+        order: null,
+        isLoading: false,
+      });
     } catch (error) {
-      // Revert the optimistic update on error
-      updateOrder(orderId, { status: "OPEN", claimer: null });
       console.error("Error claiming order:", error);
       alert("Failed to claim order");
+    } finally {
+      setClaimModal((prev) => ({ ...prev, isLoading: false }));
     }
   };
 
-  const handleCompleteOrder = async (orderId: string) => {
-    // Optimistic update - immediately update the UI
-    updateOrder(orderId, {
-      status: "FULFILLED",
-      fulfilledAt: new Date().toISOString(),
-    });
-
+  const handleCompleteOrder = async (order: Order, fill: OrderFill) => {
     try {
-      const response = await fetch(`/api/orders/${orderId}/complete`, {
+      const response = await fetch(`/api/orders/${order.id}/complete`, {
         method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ fillId: fill.id }),
       });
 
       if (!response.ok) {
-        // Revert the optimistic update on error
-        updateOrder(orderId, {
-          status: "READY_TO_TRADE",
-          fulfilledAt: undefined,
-        });
         const error = await response.json();
         alert(error.error || "Failed to complete order");
+        return;
       }
+
+      const updatedOrder = await response.json();
+      updateOrder(order.id, updatedOrder);
     } catch (error) {
-      // Revert the optimistic update on error
-      updateOrder(orderId, {
-        status: "READY_TO_TRADE",
-        fulfilledAt: undefined,
-      });
       console.error("Error completing order:", error);
       alert("Failed to complete order");
     }
   };
 
-  const handleMarkReady = async (orderId: string) => {
+  const handleMarkReady = async (order: Order, fill: OrderFill) => {
     // Optimistic update - immediately update the UI
-    updateOrder(orderId, { status: "READY_TO_TRADE" });
+    updateOrder(order.id, {
+      fills: order.fills.map((f) =>
+        f.id === fill.id ? { ...f, status: "READY_TO_TRADE" } : f
+      ),
+    });
 
     try {
-      const response = await fetch(`/api/orders/${orderId}/ready`, {
+      const response = await fetch(`/api/orders/${order.id}/ready`, {
         method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ fillId: fill.id }),
       });
 
       if (!response.ok) {
         // Revert the optimistic update on error
-        updateOrder(orderId, { status: "IN_PROGRESS" });
+        updateOrder(order.id, { fills: order.fills });
         const error = await response.json();
         alert(error.error || "Failed to mark order as ready");
+        return;
       }
+
+      const updatedOrder = await response.json();
+      updateOrder(order.id, updatedOrder);
     } catch (error) {
       // Revert the optimistic update on error
-      updateOrder(orderId, { status: "IN_PROGRESS" });
+      updateOrder(order.id, { fills: order.fills });
       console.error("Error marking order as ready:", error);
       alert("Failed to mark order as ready");
     }
   };
 
-  const handleDeleteOrder = (orderId: string) => {
-    setDeleteModal({
+  const handleCancelOrder = (orderId: string) => {
+    setCancelModal({
       isOpen: true,
       orderId,
       isLoading: false,
     });
   };
 
+  const handleDisputeFill = (order: Order, fill: OrderFill) => {
+    setDisputeModal({
+      isOpen: true,
+      order,
+      fill,
+      isLoading: false,
+    });
+  };
+
+  const handleRateFill = (order: Order, fill: OrderFill) => {
+    setRateModal({
+      isOpen: true,
+      order,
+      fill,
+      isLoading: false,
+    });
+  };
+
   const handleEditOrder = (order: Order) => {
     setEditModal({
       isOpen: true,
@@ -312,44 +436,123 @@ export default function OrdersPage() {
     }
   };
 
-  const confirmDeleteOrder = async () => {
-    if (!deleteModal.orderId) return;
+  const confirmCancelOrder = async (reason: string) => {
+    if (!cancelModal.orderId) return;
 
-    setDeleteModal((prev) => ({ ...prev, isLoading: true }));
+    setCancelModal((prev) => ({ ...prev, isLoading: true }));
 
-    // Store the order for potential restoration
-    const orderToDelete = allOrders.find(
-      (order) => order.id === deleteModal.orderId
-    );
+    try {
+      const response = await fetch(
+        `/api/orders/${cancelModal.orderId}/cancel`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ reason }),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        alert(error.error || "Failed to cancel order");
+        return;
+      }
+
+      const updatedOrder = await response.json();
+      updateOrder(cancelModal.orderId, updatedOrder);
+
+      setCancelModal({
+        isOpen: false,
+        orderId: null,
+        isLoading: false,
+      });
+    } catch (error) {
+      console.error("Error cancelling order:", error);
+      alert("Failed to cancel order");
+    } finally {
+      setCancelModal((prev) => ({ ...prev, isLoading: false }));
+    }
+  };
+
+  const confirmDisputeFill = async (reason: string) => {
+    if (!disputeModal.order || !disputeModal.fill) return;
 
-    // Optimistic update - immediately remove from UI
-    removeOrder(deleteModal.orderId);
+    setDisputeModal((prev) => ({ ...prev, isLoading: true }));
 
     try {
-      const response = await fetch(`/api/orders?id=${deleteModal.orderId}`, {
-        method: "DELETE",
+      const response = await fetch(
+        `/api/orders/${disputeModal.order.id}/dispute`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ fillId: disputeModal.fill.id, reason }),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        alert(error.error || "Failed to dispute trade");
+        return;
+      }
+
+      const updatedOrder = await response.json();
+      updateOrder(disputeModal.order.id, updatedOrder);
+
+      setDisputeModal({
+        isOpen: false,
+        order: null,
+        fill: null,
+        isLoading: false,
+      });
+    } catch (error) {
+      console.error("Error disputing trade:", error);
+      alert("Failed to dispute trade");
+    } finally {
+      setDisputeModal((prev) => ({ ...prev, isLoading: false }));
+    }
+  };
+
+  const confirmRateFill = async (score: number, comment: string) => {
+    if (!rateModal.order || !rateModal.fill) return;
+
+    setRateModal((prev) => ({ ...prev, isLoading: true }));
+
+    try {
+      const response = await fetch(`/api/orders/${rateModal.order.id}/rate`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          fillId: rateModal.fill.id,
+          score,
+          comment: comment || undefined,
+        }),
       });
 
       if (!response.ok) {
-        // Note: We can't easily restore the order with the current hook structure
-        // In a real app, you might want to implement an "undo" mechanism
         const error = await response.json();
-        alert(error.error || "Failed to delete order");
-        // For now, we'll just refetch the data to restore the order
-        window.location.reload();
-      } else {
-        // Success - close modal
-        setDeleteModal({
-          isOpen: false,
-          orderId: null,
-          isLoading: false,
-        });
+        alert(error.error || "Failed to rate trade");
+        return;
       }
+
+      const updatedOrder = await response.json();
+      updateOrder(rateModal.order.id, updatedOrder);
+
+      setRateModal({
+        isOpen: false,
+        order: null,
+        fill: null,
+        isLoading: false,
+      });
     } catch (error) {
-      console.error("Error deleting order:", error);
-      alert("Failed to delete order");
-      // For now, we'll just refetch the data to restore the order
-      window.location.reload();
+      console.error("Error rating trade:", error);
+      alert("Failed to rate trade");
+    } finally {
+      setRateModal((prev) => ({ ...prev, isLoading: false }));
     }
   };
 
@@ -438,6 +641,12 @@ export default function OrdersPage() {
             Fulfilled
           </span>
         );
+      case "EXPIRED":
+        return (
+          <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+            Expired
+          </span>
+        );
       default:
         return (
           <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
@@ -465,41 +674,95 @@ export default function OrdersPage() {
     }
   };
 
+  const getRemainingAmount = (order: Order) => {
+    return Math.max(order.amount - order.claimedAmount, 0);
+  };
+
   const canClaimOrder = (order: Order) => {
     return (
       order.status === "OPEN" &&
+      getRemainingAmount(order) > 0 &&
       currentUser &&
-      order.creator.id !== currentUser.id
+      canTransition("claim", {
+        from: "UNCLAIMED",
+        orderType: order.orderType,
+        role: getActorRole(currentUser.id, order.creator.id),
+      }) &&
+      !order.fills.some(
+        (fill) =>
+          fill.claimer.id === currentUser.id &&
+          (fill.status === "IN_PROGRESS" || fill.status === "READY_TO_TRADE")
+      )
     );
   };
 
-  const canCompleteOrder = (order: Order) => {
-    // For buy orders, they must be READY_TO_TRADE first (not IN_PROGRESS)
-    if (order.orderType === "BUY" && order.status === "IN_PROGRESS") {
-      return false;
+  const canCompleteFill = (order: Order, fill: OrderFill) => {
+    if (!currentUser) return false;
+
+    const role = getActorRole(
+      currentUser.id,
+      order.creator.id,
+      fill.claimer.id
+    );
+
+    // Orders needing both sides to confirm: each side confirms once
+    if (order.requireConfirmation) {
+      const confirmedAt =
+        role === "creator" ? fill.creatorConfirmedAt : fill.claimerConfirmedAt;
+      return (
+        !confirmedAt &&
+        canTransition("confirm", {
+          from: fill.status,
+          orderType: order.orderType,
+          role,
+        })
+      );
     }
 
+    return canTransition("complete", {
+      from: fill.status,
+      orderType: order.orderType,
+      role,
+    });
+  };
+
+  const canMarkFillReady = (order: Order, fill: OrderFill) => {
+    return (
+      currentUser &&
+      canTransition("ready", {
+        from: fill.status,
+        orderType: order.orderType,
+        role: getActorRole(currentUser.id, order.creator.id, fill.claimer.id),
+      })
+    );
+  };
+
+  const canDisputeFill = (order: Order, fill: OrderFill) => {
     return (
-      (order.status === "IN_PROGRESS" || order.status === "READY_TO_TRADE") &&
       currentUser &&
-      (order.creator.id === currentUser.id ||
-        order.claimer?.id === currentUser.id)
+      canTransition("dispute", {
+        from: fill.status,
+        orderType: order.orderType,
+        role: getActorRole(currentUser.id, order.creator.id, fill.claimer.id),
+      })
     );
   };
 
-  const canMarkReady = (order: Order) => {
+  // Each side of a completed trade can rate the other once
+  const canRateFill = (order: Order, fill: OrderFill) => {
     return (
-      order.status === "IN_PROGRESS" &&
-      order.orderType === "BUY" && // Only buy orders need manual "mark ready"
       currentUser &&
-      order.claimer?.id === currentUser.id
+      fill.status === "FULFILLED" &&
+      getActorRole(currentUser.id, order.creator.id, fill.claimer.id) &&
+      !fill.ratings?.some((rating) => rating.raterId === currentUser.id)
     );
   };
 
-  const canDeleteOrder = (order: Order) => {
+  const canCancelOrder = (order: Order) => {
     return (
-      order.status !== "FULFILLED" &&
-      order.status !== "READY_TO_TRADE" && // Don't allow delete when ready to trade
+      !CLOSED_STATUSES.includes(order.status) &&
+      order.status !== "DISPUTED" &&
+      order.status !== "READY_TO_TRADE" && // Don't allow cancel when ready to trade
       currentUser &&
       order.creator.id === currentUser.id
     );
@@ -507,7 +770,8 @@ export default function OrdersPage() {
 
   const canEditOrder = (order: Order) => {
     return (
-      order.status !== "FULFILLED" &&
+      !CLOSED_STATUSES.includes(order.status) &&
+      order.status !== "DISPUTED" &&
       order.status !== "READY_TO_TRADE" && // Don't allow edit when ready to trade
       currentUser &&
       order.creator.id === currentUser.id
@@ -584,6 +848,9 @@ export default function OrdersPage() {
             <SelectItem value="IN_PROGRESS">In Progress</SelectItem>
             <SelectItem value="READY_TO_TRADE">Ready</SelectItem>
             <SelectItem value="FULFILLED">Fulfilled</SelectItem>
+            <SelectItem value="EXPIRED">Expired</SelectItem>
+            <SelectItem value="CANCELLED">Cancelled</SelectItem>
+            <SelectItem value="DISPUTED">Disputed</SelectItem>
           </SelectContent>
         </Select>
 
@@ -606,6 +873,11 @@ export default function OrdersPage() {
                         <span className="px-2 py-1 bg-muted text-muted-foreground border border-muted-foreground/20 rounded">
           Fulfilled: {counts.fulfilled}
         </span>
+        {counts.disputed > 0 && (
+          <span className="px-2 py-1 bg-red-500/20 text-red-400 border border-red-500/30 rounded">
+            Disputed: {counts.disputed}
+          </span>
+        )}
                         <span className="px-2 py-1 bg-secondary text-secondary-foreground border border-muted-foreground/20 rounded">
           Buy: {counts.buy} | Sell: {counts.sell}
         </span>
@@ -674,14 +946,23 @@ export default function OrdersPage() {
                         }`}
                       >
                         <td className="px-3 py-2">
-                          <div className="font-medium truncate">
+                          <button
+                            onClick={() => setHistoryOrder(order)}
+                            className="block max-w-full font-medium truncate text-left hover:underline"
+                            title="View order history"
+                          >
                             T{order.tier}{" "}
                             {order.itemName.charAt(0).toUpperCase() +
                               order.itemName.slice(1).toLowerCase()}
-                          </div>
+                          </button>
                           <div className="text-xs text-muted-foreground truncate">
                             {formatDateTime(order.createdAt)}
                           </div>
+                          {order.expiresAt && order.status === "OPEN" && (
+                            <div className="text-xs text-muted-foreground truncate">
+                              Expires {formatDateTime(order.expiresAt)}
+                            </div>
+                          )}
                         </td>
                         <td className="px-2 py-2 text-left">
                           {order.orderType === "BUY" ? (
@@ -715,9 +996,40 @@ export default function OrdersPage() {
                               Fulfilled
                             </span>
                           )}
+                          {order.status === "EXPIRED" && (
+                            <span className="inline-flex px-2 py-0.5 rounded text-xs font-medium bg-muted text-muted-foreground border border-muted-foreground/20 line-through">
+                              Expired
+                            </span>
+                          )}
+                          {order.status === "CANCELLED" && (
+                            <span
+                              className="inline-flex px-2 py-0.5 rounded text-xs font-medium bg-muted text-muted-foreground border border-muted-foreground/20 line-through"
+                              title={order.cancelReason ?? undefined}
+                            >
+                              Cancelled
+                            </span>
+                          )}
+                          {order.status === "DISPUTED" && (
+                            <span className="inline-flex px-2 py-0.5 rounded text-xs font-medium bg-red-500/20 text-red-400 border border-red-500/30">
+                              Disputed
+                            </span>
+                          )}
+                          {order.status === "CANCELLED" &&
+                            order.cancelReason && (
+                              <div className="text-xs text-muted-foreground truncate">
+                                {order.cancelReason}
+                              </div>
+                            )}
                         </td>
                         <td className="px-2 py-2 text-left font-mono">
                           {order.amount.toLocaleString()}
+                          {order.claimedAmount > 0 &&
+                            getRemainingAmount(order) > 0 && (
+                              <div className="text-xs text-muted-foreground">
+                                {getRemainingAmount(order).toLocaleString()}{" "}
+                                left
+                              </div>
+                            )}
                         </td>
                         <td className="px-2 py-2 text-left font-mono">
                           {formatPrice(order.pricePerUnit)}
@@ -731,15 +1043,57 @@ export default function OrdersPage() {
                           <div className="text-sm truncate">
                             {order.creator.inGameName ||
                               order.creator.discordName}
+                            <TraderReputation trader={order.creator} />
                           </div>
                         </td>
                         <td className="px-2 py-2">
-                          <div className="text-sm truncate">
-                            {order.claimer
-                              ? order.claimer.inGameName ||
-                                order.claimer.discordName
-                              : "-"}
-                          </div>
+                          {order.fills.length > 0 ? (
+                            order.fills.map((fill) => (
+                              <div key={fill.id} className="text-sm truncate">
+                                {fill.claimer.inGameName ||
+                                  fill.claimer.discordName}
+                                <TraderReputation trader={fill.claimer} />
+                                {fill.amount < order.amount && (
+                                  <span className="text-xs text-muted-foreground font-mono">
+                                    {" "}
+                                    ×{fill.amount.toLocaleString()}
+                                  </span>
+                                )}
+                                {order.requireConfirmation &&
+                                  fill.status === "READY_TO_TRADE" &&
+                                  (fill.creatorConfirmedAt ||
+                                    fill.claimerConfirmedAt) && (
+                                    <span className="text-xs text-green-400">
+                                      {" "}
+                                      {fill.creatorConfirmedAt
+                                        ? "creator confirmed"
+                                        : "claimer confirmed"}
+                                    </span>
+                                  )}
+                                {fill.status === "DISPUTED" && (
+                                  <span
+                                    className="text-xs text-red-400"
+                                    title={fill.disputeReason ?? undefined}
+                                  >
+                                    {" "}
+                                    disputed
+                                  </span>
+                                )}
+                              </div>
+                            ))
+                          ) : (
+                            <div className="text-sm truncate">
+                              {order.claimer ? (
+                                <>
+                                  {order.claimer.inGameName ||
+                                    order.claimer.discordName}
+                                  <TraderReputation trader={order.claimer} />
+                                </>
+                              ) : (
+                                "-"
+                              )}
+                            </div>
+                          )}
                         </td>
                         <td className="px-3 py-2">
                           <div className="flex gap-1 justify-start">
@@ -756,15 +1110,15 @@ export default function OrdersPage() {
                                       Edit
                                     </Button>
                                   )}
-                                  {canDeleteOrder(order) && (
+                                  {canCancelOrder(order) && (
                                     <Button
                                       size="sm"
                                       onClick={() =>
-                                        handleDeleteOrder(order.id)
+                                        handleCancelOrder(order.id)
                                       }
                                       className="h-6 w-16 text-xs px-2 py-1 bg-destructive/80 hover:bg-destructive text-destructive-foreground"
                                     >
-                                      Delete
+                                      Cancel
                                     </Button>
                                   )}
                                 </>
@@ -774,30 +1128,62 @@ export default function OrdersPage() {
                             {canClaimOrder(order) && (
                               <Button
                                 size="sm"
-                                onClick={() => handleClaimOrder(order.id)}
+                                onClick={() => handleClaimOrder(order)}
                                 className="h-6 w-full text-xs px-2 py-1 bg-primary/80 hover:bg-primary text-primary-foreground"
                               >
                                 Claim
                               </Button>
                             )}
-                            {canMarkReady(order) && (
-                              <Button
-                                size="sm"
-                                onClick={() => handleMarkReady(order.id)}
-                                className="h-6 w-full text-xs px-2 py-1 bg-yellow-500/80 hover:bg-yellow-500 text-black"
-                              >
-                                Ready
-                              </Button>
-                            )}
-                            {canCompleteOrder(order) && (
-                              <Button
-                                size="sm"
-                                onClick={() => handleCompleteOrder(order.id)}
-                                className="h-6 w-full text-xs px-2 py-1 bg-green-500/80 hover:bg-green-500 text-black"
-                              >
-                                Complete
-                              </Button>
-                            )}
+                            {order.fills.map((fill) => (
+                              <div key={fill.id} className="contents">
+                                {canMarkFillReady(order, fill) && (
+                                  <Button
+                                    size="sm"
+                                    onClick={() => handleMarkReady(order, fill)}
+                                    className="h-6 w-full text-xs px-2 py-1 bg-yellow-500/80 hover:bg-yellow-500 text-black"
+                                  >
+                                    Ready
+                                  </Button>
+                                )}
+                                {canCompleteFill(order, fill) && (
+                                  <Button
+                                    size="sm"
+                                    onClick={() =>
+                                      handleCompleteOrder(order, fill)
+                                    }
+                                    className="h-6 w-full text-xs px-2 py-1 bg-green-500/80 hover:bg-green-500 text-black"
+                                  >
+                                    {order.requireConfirmation
+                                      ? fill.amount < order.amount
+                                        ? `Confirm ×${fill.amount}`
+                                        : "Confirm"
+                                      : fill.amount < order.amount
+                                        ? `Complete ×${fill.amount}`
+                                        : "Complete"}
+                                  </Button>
+                                )}
+                                {canDisputeFill(order, fill) && (
+                                  <Button
+                                    size="sm"
+                                    onClick={() =>
+                                      handleDisputeFill(order, fill)
+                                    }
+                                    className="h-6 w-full text-xs px-2 py-1 bg-red-500/20 hover:bg-red-500/30 text-red-400 border border-red-500/30"
+                                  >
+                                    Dispute
+                                  </Button>
+                                )}
+                                {canRateFill(order, fill) && (
+                                  <Button
+                                    size="sm"
+                                    onClick={() => handleRateFill(order, fill)}
+                                    className="h-6 w-full text-xs px-2 py-1 bg-yellow-500/20 hover:bg-yellow-500/30 text-yellow-400 border border-yellow-500/30"
+                                  >
+                                    Rate
+                                  </Button>
+                                )}
+                              </div>
+                            ))}
                           </div>
                         </td>
                       </tr>
@@ -828,6 +1214,24 @@ export default function OrdersPage() {
         </CardContent>
       </Card>
 
+      {/* Order History Modal */}
+      <OrderHistoryModal
+        isOpen={historyOrder !== null}
+        onClose={() => setHistoryOrder(null)}
+        order={historyOrder}
+      />
+
+      {/* Claim Order Modal */}
+      <ClaimOrderModal
+        isOpen={claimModal.isOpen}
+        onClose={() =>
+          setClaimModal({ isOpen: false, order: null, isLoading: false })
+        }
+        onConfirm={confirmClaimOrder}
+        order={claimModal.order}
+        isLoading={claimModal.isLoading}
+      />
+
       {/* Edit Order Modal */}
       <EditOrderModal
         isOpen={editModal.isOpen}
@@ -839,20 +1243,64 @@ export default function OrdersPage() {
         isLoading={editModal.isLoading}
       />
 
-      {/* Delete Confirmation Modal */}
-      <ConfirmationModal
-        isOpen={deleteModal.isOpen}
+      {/* Cancel Order Modal */}
+      <ReasonModal
+        isOpen={cancelModal.isOpen}
         onClose={() =>
-          setDeleteModal({ isOpen: false, orderId: null, isLoading: false })
+          setCancelModal({ isOpen: false, orderId: null, isLoading: false })
         }
-        onConfirm={confirmDeleteOrder}
-        title="Delete Order"
-        description="Are you sure you want to delete this order? This action cannot be undone."
-        confirmText="Delete"
-        cancelText="Cancel"
-        isLoading={deleteModal.isLoading}
+        onConfirm={confirmCancelOrder}
+        title="Cancel Order"
+        description="The order stays in your history as cancelled. Anyone with an active claim is told why."
+        placeholder="e.g. No longer needed"
+        confirmText="Cancel Order"
+        isLoading={cancelModal.isLoading}
         variant="destructive"
       />
+
+      {/* Dispute Trade Modal */}
+      <ReasonModal
+        isOpen={disputeModal.isOpen}
+        onClose={() =>
+          setDisputeModal({
+            isOpen: false,
+            order: null,
+            fill: null,
+            isLoading: false,
+          })
+        }
+        onConfirm={confirmDisputeFill}
+        title="Dispute Trade"
+        description="The order is held until an admin resolves the dispute. The other side of the trade is notified."
+        label="What went wrong?"
+        confirmText="Dispute"
+        isLoading={disputeModal.isLoading}
+        variant="destructive"
+      />
+
+      {/* Rate Trade Modal */}
+      <RatingModal
+        isOpen={rateModal.isOpen}
+        onClose={() =>
+          setRateModal({
+            isOpen: false,
+            order: null,
+            fill: null,
+            isLoading: false,
+          })
+        }
+        onConfirm={confirmRateFill}
+        traderName={
+          rateModal.order && rateModal.fill && currentUser
+            ? rateModal.order.creator.id === currentUser.id
+              ? rateModal.fill.claimer.inGameName ||
+                rateModal.fill.claimer.discordName
+              : rateModal.order.creator.inGameName ||
+                rateModal.order.creator.discordName
+            : "the other trader"
+        }
+        isLoading={rateModal.isLoading}
+      />
     </div>
   );
 }
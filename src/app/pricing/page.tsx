@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import Link from "next/link";
 import {
   Card,
   CardContent,
@@ -13,6 +14,7 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { formatPrice } from "@/lib/pricing";
 import { PriceHistoryChart } from "@/components/price-history-chart";
+import { PriceAlertsPanel } from "@/components/price-alerts-panel";
 
 interface PricingData {
   lastUpdated: string;
@@ -192,6 +194,24 @@ export default function PricingPage() {
                                 >
                                   📈
                                 </Button>
+                                <Button
+                                  asChild
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-6 w-6 p-0 text-xs hover:bg-muted/50"
+                                  title={`View order book for T${tier} ${
+                                    item.name.charAt(0).toUpperCase() +
+                                    item.name.slice(1)
+                                  }`}
+                                >
+                                  <Link
+                                    href={`/market/${encodeURIComponent(
+                                      item.name
+                                    )}/${tier}`}
+                                  >
+                                    📊
+                                  </Link>
+                                </Button>
                                 <span className="font-mono text-sm whitespace-nowrap">
                                   {formatPrice(price)}
                                 </span>
@@ -213,13 +233,19 @@ export default function PricingPage() {
         </CardContent>
       </Card>
 
-      {/* Price History Chart */}
+      {/* Price History Chart and Alerts */}
       {selectedChart && (
-        <div className="mt-6">
-          <PriceHistoryChart
+        <div className="mt-6 grid gap-6 lg:grid-cols-3">
+          <div className="lg:col-span-2">
+            <PriceHistoryChart
+              itemName={selectedChart.itemName}
+              tier={selectedChart.tier}
+              onClose={() => setSelectedChart(null)}
+            />
+          </div>
+          <PriceAlertsPanel
             itemName={selectedChart.itemName}
             tier={selectedChart.tier}
-            onClose={() => setSelectedChart(null)}
           />
         </div>
       )}
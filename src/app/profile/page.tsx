@@ -17,11 +17,22 @@ import { LoadingSpinner } from "@/components/loading-spinner";
 import { useRouter } from "next/navigation";
 import { useEffect, useState } from "react";
 import { signIn } from "next-auth/react";
+import { notificationManager } from "@/lib/notifications";
+import {
+  CHANNEL_LABELS,
+  NOTIFICATION_CHANNELS,
+  NotificationChannel,
+  NotificationPreferences,
+  PREFERENCE_EVENTS,
+  resolvePreferences,
+} from "@/lib/notification-preferences";
 
 interface ProfileData {
   inGameName: string;
   notificationsEnabled: boolean;
   audioEnabled: boolean;
+  discordDmEnabled: boolean;
+  notificationPreferences: NotificationPreferences;
 }
 
 export default function ProfilePage() {
@@ -31,9 +42,14 @@ export default function ProfilePage() {
     inGameName: "",
     notificationsEnabled: true,
     audioEnabled: true,
+    discordDmEnabled: false,
+    notificationPreferences: resolvePreferences(null),
   });
   const [isLoading, setIsLoading] = useState(false);
   const [message, setMessage] = useState<string>("");
+  const [pushSupported, setPushSupported] = useState(false);
+  const [pushEnabled, setPushEnabled] = useState(false);
+  const [pushLoading, setPushLoading] = useState(false);
 
   // Handle authentication redirect
   useEffect(() => {
@@ -54,6 +70,10 @@ export default function ProfilePage() {
               inGameName: data.user.inGameName || "",
               notificationsEnabled: data.user.notificationsEnabled,
               audioEnabled: data.user.audioEnabled,
+              discordDmEnabled: data.user.discordDmEnabled,
+              notificationPreferences: resolvePreferences(
+                data.user.notificationPreferences
+              ),
             });
           }
         } catch (error) {
@@ -65,6 +85,15 @@ export default function ProfilePage() {
     }
   }, [session]);
 
+  // Push is per browser, so read it from this browser rather than the profile
+  useEffect(() => {
+    setPushSupported(notificationManager.isPushSupported());
+    notificationManager
+      .isPushEnabled()
+      .then(setPushEnabled)
+      .catch(() => setPushEnabled(false));
+  }, []);
+
   if (status === "loading") {
     return <LoadingSpinner message="Loading your profile..." />;
   }
@@ -91,6 +120,7 @@ export default function ProfilePage() {
 
       if (response.ok) {
         setMessage("Profile updated successfully!");
+        notificationManager.setPreferences(data.user.notificationPreferences);
         // Settings will be reflected on next page load/session refresh
       } else {
         setMessage(`Error: ${data.error || "Failed to update profile"}`);
@@ -102,6 +132,56 @@ export default function ProfilePage() {
     }
   };
 
+  const handlePushToggle = async (checked: boolean) => {
+    setPushLoading(true);
+    setMessage("");
+
+    try {
+      if (checked) {
+        await notificationManager.enablePush();
+      } else {
+        await notificationManager.disablePush();
+      }
+      setPushEnabled(checked);
+    } catch (error) {
+      setMessage(
+        `Error: ${
+          error instanceof Error
+            ? error.message
+            : "Failed to update push notifications"
+        }`
+      );
+    } finally {
+      setPushLoading(false);
+    }
+  };
+
+  const handlePreferenceChange = (
+    type: string,
+    channel: NotificationChannel,
+    enabled: boolean
+  ) => {
+    setProfileData((prev) => ({
+      ...prev,
+      notificationPreferences: {
+        ...prev.notificationPreferences,
+        [type]: {
+          ...prev.notificationPreferences[type],
+          [channel]: enabled,
+        },
+      },
+    }));
+  };
+
+  // Channels that are switched off above can't be turned on per event
+  const isChannelAvailable = (channel: NotificationChannel) => {
+    if (!profileData.notificationsEnabled) return false;
+    if (channel === "sound") return profileData.audioEnabled;
+    if (channel === "push") return pushEnabled;
+    if (channel === "discord") return profileData.discordDmEnabled;
+    return true;
+  };
+
   const handleInputChange = (
     field: keyof ProfileData,
     value: string | boolean
@@ -246,6 +326,102 @@ export default function ProfilePage() {
                     />
                   </div>
 
+                  {pushSupported && (
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-0.5">
+                        <Label htmlFor="push-enabled">Push Notifications</Label>
+                        <p className="text-sm text-muted-foreground">
+                          Get claims and ready trades on this device even
+                          when the site is closed
+                        </p>
+                      </div>
+                      <Switch
+                        id="push-enabled"
+                        checked={pushEnabled}
+                        onCheckedChange={handlePushToggle}
+                        disabled={
+                          pushLoading || !profileData.notificationsEnabled
+                        }
+                      />
+                    </div>
+                  )}
+
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="discord-dm-enabled">Discord DMs</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Get a direct message from our Discord bot when
+                        you&apos;re not on the site
+                      </p>
+                    </div>
+                    <Switch
+                      id="discord-dm-enabled"
+                      checked={profileData.discordDmEnabled}
+                      onCheckedChange={(checked) =>
+                        handleInputChange("discordDmEnabled", checked)
+                      }
+                      disabled={!profileData.notificationsEnabled}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="space-y-0.5">
+                      <Label>Per-event Preferences</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Choose where each kind of notification reaches you
+                      </p>
+                    </div>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="border-b border-muted-foreground/20">
+                            <th className="text-left font-medium py-2">
+                              Event
+                            </th>
+                            {NOTIFICATION_CHANNELS.map((channel) => (
+                              <th
+                                key={channel}
+                                className="text-center font-medium py-2 px-2"
+                              >
+                                {CHANNEL_LABELS[channel]}
+                              </th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {PREFERENCE_EVENTS.map(({ type, label }) => (
+                            <tr
+                              key={type}
+                              className="border-b border-muted-foreground/10"
+                            >
+                              <td className="py-2">{label}</td>
+                              {NOTIFICATION_CHANNELS.map((channel) => (
+                                <td key={channel} className="text-center py-2">
+                                  <Switch
+                                    aria-label={`${label} ${CHANNEL_LABELS[channel]}`}
+                                    checked={
+                                      profileData.notificationPreferences[type][
+                                        channel
+                                      ]
+                                    }
+                                    onCheckedChange={(checked) =>
+                                      handlePreferenceChange(
+                                        type,
+                                        channel,
+                                        checked
+                                      )
+                                    }
+                                    disabled={!isChannelAvailable(channel)}
+                                  />
+                                </td>
+                              ))}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+
                   {!profileData.notificationsEnabled && (
                     <div className="p-3 bg-muted/50 rounded-lg">
                       <p className="text-sm text-muted-foreground">
@@ -20,74 +20,60 @@ async function getMarketStats() {
     },
   });
 
-  // Get fulfilled orders to calculate volume
-  const fulfilledOrders = await prisma.order.findMany({
+  // Get fulfilled fills to calculate volume (partially filled orders count too)
+  const fulfilledFills = await prisma.orderFill.findMany({
     where: {
       status: "FULFILLED",
     },
     select: {
-      pricePerUnit: true,
+      orderId: true,
       amount: true,
+      order: {
+        select: {
+          itemName: true,
+          pricePerUnit: true,
+        },
+      },
     },
   });
 
   // Calculate total volume and amount
-  const totalVolume = fulfilledOrders.reduce(
-    (sum, order) => sum + order.pricePerUnit * order.amount,
+  const totalVolume = fulfilledFills.reduce(
+    (sum, fill) => sum + fill.order.pricePerUnit * fill.amount,
     0
   );
-  const totalAmount = fulfilledOrders.reduce(
-    (sum, order) => sum + order.amount,
+  const totalAmount = fulfilledFills.reduce(
+    (sum, fill) => sum + fill.amount,
     0
   );
 
-  // Most traded items
-  const topItems = await prisma.order.groupBy({
-    by: ["itemName"],
-    where: {
-      status: "FULFILLED",
-    },
-    _sum: {
-      amount: true,
-    },
-    _count: {
-      id: true,
-    },
-    orderBy: {
-      _sum: {
-        amount: "desc",
-      },
-    },
-    take: 10,
-  });
-
-  // Get individual orders for volume calculation per item
-  const fulfilledOrdersWithItems = await prisma.order.findMany({
-    where: {
-      status: "FULFILLED",
-    },
-    select: {
-      itemName: true,
-      pricePerUnit: true,
-      amount: true,
-    },
-  });
-
-  // Calculate volume per item
-  const itemVolumeMap = new Map<string, number>();
-  fulfilledOrdersWithItems.forEach((order) => {
-    const volume = order.pricePerUnit * order.amount;
-    itemVolumeMap.set(
-      order.itemName,
-      (itemVolumeMap.get(order.itemName) || 0) + volume
-    );
+  // Calculate quantity, volume and order count per item
+  const itemStatsMap = new Map<
+    string,
+    { amount: number; volume: number; orderIds: Set<string> }
+  >();
+  fulfilledFills.forEach((fill) => {
+    const itemStats = itemStatsMap.get(fill.order.itemName) || {
+      amount: 0,
+      volume: 0,
+      orderIds: new Set<string>(),
+    };
+    itemStats.amount += fill.amount;
+    itemStats.volume += fill.order.pricePerUnit * fill.amount;
+    itemStats.orderIds.add(fill.orderId);
+    itemStatsMap.set(fill.order.itemName, itemStats);
   });
 
-  // Add volume data to top items
-  const topItemsWithVolume = topItems.map((item) => ({
-    ...item,
-    totalVolume: itemVolumeMap.get(item.itemName) || 0,
-  }));
+  // Most traded items
+  const topItemsWithVolume = Array.from(itemStatsMap.entries())
+    .sort(([, a], [, b]) => b.amount - a.amount)
+    .slice(0, 10)
+    .map(([itemName, itemStats]) => ({
+      itemName,
+      _sum: { amount: itemStats.amount },
+      _count: { id: itemStats.orderIds.size },
+      totalVolume: itemStats.volume,
+    }));
 
   return {
     orderStats,
@@ -100,37 +86,39 @@ async function getMarketStats() {
 }
 
 async function getLeaderboards() {
-  // Get fulfilled orders to calculate volume per trader (both as creator and claimer)
-  const fulfilledOrders = await prisma.order.findMany({
+  // Get fulfilled fills to calculate volume per trader (both as creator and claimer)
+  const fulfilledFills = await prisma.orderFill.findMany({
     where: {
       status: "FULFILLED",
     },
     select: {
-      creatorId: true,
       claimerId: true,
-      pricePerUnit: true,
       amount: true,
+      order: {
+        select: {
+          creatorId: true,
+          pricePerUnit: true,
+        },
+      },
     },
   });
 
   // Calculate volume per trader (counting both created and fulfilled orders)
   const traderVolumeMap = new Map<string, number>();
-  fulfilledOrders.forEach((order) => {
-    const volume = order.pricePerUnit * order.amount;
+  fulfilledFills.forEach((fill) => {
+    const volume = fill.order.pricePerUnit * fill.amount;
     
     // Add volume for creator
     traderVolumeMap.set(
-      order.creatorId,
-      (traderVolumeMap.get(order.creatorId) || 0) + volume
+      fill.order.creatorId,
+      (traderVolumeMap.get(fill.order.creatorId) || 0) + volume
     );
     
-    // Add volume for claimer (if exists)
-    if (order.claimerId) {
-      traderVolumeMap.set(
-        order.claimerId,
-        (traderVolumeMap.get(order.claimerId) || 0) + volume
-      );
-    }
+    // Add volume for claimer
+    traderVolumeMap.set(
+      fill.claimerId,
+      (traderVolumeMap.get(fill.claimerId) || 0) + volume
+    );
   });
 
   // Sort traders by volume and get top 10
@@ -152,11 +140,10 @@ async function getLeaderboards() {
   );
 
   // Top fulfillers by quantity
-  const topFulfillers = await prisma.order.groupBy({
+  const topFulfillers = await prisma.orderFill.groupBy({
     by: ["claimerId"],
     where: {
       status: "FULFILLED",
-      claimerId: { not: null },
     },
     _sum: {
       amount: true,
@@ -172,7 +159,7 @@ async function getLeaderboards() {
   const fulfillersWithNames = await Promise.all(
     topFulfillers.map(async (fulfiller) => {
       const user = await prisma.user.findUnique({
-        where: { id: fulfiller.claimerId! },
+        where: { id: fulfiller.claimerId },
         select: { inGameName: true, discordName: true },
       });
       return {
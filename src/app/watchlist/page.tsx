@@ -0,0 +1,343 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { useSessionContext } from "@/contexts/SessionContext";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { LoadingSpinner } from "@/components/loading-spinner";
+import { formatPrice } from "@/lib/pricing";
+import {
+  usePricing,
+  useAvailableItems,
+  useAvailableTiers,
+} from "@/hooks/usePricing";
+
+interface Watch {
+  id: string;
+  itemName: string;
+  tier: number | null;
+  orderType: "BUY" | "SELL" | null;
+  minPrice: number | null;
+  maxPrice: number | null;
+  createdAt: string;
+}
+
+const emptyForm = {
+  itemName: "",
+  tier: "any",
+  orderType: "any",
+  minPrice: "",
+  maxPrice: "",
+};
+
+export default function WatchlistPage() {
+  const router = useRouter();
+  const { session, status } = useSessionContext();
+  const [watches, setWatches] = useState<Watch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [formData, setFormData] = useState(emptyForm);
+
+  const { pricingData } = usePricing();
+  const availableItems = useAvailableItems(pricingData);
+  const availableTiers = useAvailableTiers(pricingData, formData.itemName);
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.push("/auth/signin");
+    }
+  }, [status, router]);
+
+  const fetchWatches = useCallback(async () => {
+    try {
+      const response = await fetch("/api/watchlist");
+      if (response.ok) {
+        const data = await response.json();
+        setWatches(data.watches);
+      }
+    } catch (error) {
+      console.error("Error fetching watchlist:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (session?.user?.id) {
+      fetchWatches();
+    }
+  }, [session?.user?.id, fetchWatches]);
+
+  if (status === "loading" || (session && loading)) {
+    return <LoadingSpinner message="Loading your watchlist..." />;
+  }
+
+  if (!session) {
+    return null;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (!formData.itemName) {
+      setError("Select an item to watch");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/watchlist", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          itemName: formData.itemName,
+          tier: formData.tier === "any" ? null : parseInt(formData.tier),
+          orderType: formData.orderType === "any" ? null : formData.orderType,
+          minPrice: formData.minPrice || null,
+          maxPrice: formData.maxPrice || null,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || "Failed to add watch");
+        return;
+      }
+
+      setWatches((prev) => [...prev, data]);
+      setFormData(emptyForm);
+    } catch (error) {
+      setError("Failed to add watch");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (watchId: string) => {
+    try {
+      const response = await fetch(
+        `/api/watchlist?id=${encodeURIComponent(watchId)}`,
+        { method: "DELETE" }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error || "Failed to remove watch");
+        return;
+      }
+
+      setWatches((prev) => prev.filter((watch) => watch.id !== watchId));
+    } catch (error) {
+      console.error("Error removing watch:", error);
+      alert("Failed to remove watch");
+    }
+  };
+
+  const describePrice = (watch: Watch) => {
+    if (watch.minPrice !== null && watch.maxPrice !== null) {
+      return `${formatPrice(watch.minPrice)} – ${formatPrice(watch.maxPrice)}`;
+    }
+    if (watch.maxPrice !== null) return `≤ ${formatPrice(watch.maxPrice)}`;
+    if (watch.minPrice !== null) return `≥ ${formatPrice(watch.minPrice)}`;
+    return "Any price";
+  };
+
+  return (
+    <div className="container mx-auto px-6 py-8">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Watchlist</h1>
+          <p className="text-muted-foreground">
+            Get notified when someone posts an order you&apos;re looking for
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Watch an Item</CardTitle>
+            <CardDescription>
+              Leave tier, type or prices empty to match anything
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="itemName">Item</Label>
+                  <Select
+                    value={formData.itemName}
+                    onValueChange={(value) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        itemName: value,
+                        tier: "any",
+                      }))
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select an item" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {availableItems.map((itemName) => (
+                        <SelectItem key={itemName} value={itemName}>
+                          <span className="capitalize">{itemName}</span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="tier">Tier</Label>
+                  <Select
+                    value={formData.tier}
+                    onValueChange={(value) =>
+                      setFormData((prev) => ({ ...prev, tier: value }))
+                    }
+                    disabled={!formData.itemName}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="any">Any tier</SelectItem>
+                      {availableTiers.map((tier) => (
+                        <SelectItem key={tier} value={tier.toString()}>
+                          Tier {tier}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="orderType">Order Type</Label>
+                <Select
+                  value={formData.orderType}
+                  onValueChange={(value) =>
+                    setFormData((prev) => ({ ...prev, orderType: value }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Buy or sell</SelectItem>
+                    <SelectItem value="BUY">Buy orders</SelectItem>
+                    <SelectItem value="SELL">Sell orders</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="minPrice">Min Price</Label>
+                  <Input
+                    id="minPrice"
+                    type="number"
+                    step="0.001"
+                    min="0.001"
+                    placeholder="Any"
+                    value={formData.minPrice}
+                    onChange={(e) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        minPrice: e.target.value,
+                      }))
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="maxPrice">Max Price</Label>
+                  <Input
+                    id="maxPrice"
+                    type="number"
+                    step="0.001"
+                    min="0.001"
+                    placeholder="Any"
+                    value={formData.maxPrice}
+                    onChange={(e) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        maxPrice: e.target.value,
+                      }))
+                    }
+                  />
+                </div>
+              </div>
+
+              {error && <div className="text-sm text-destructive">{error}</div>}
+
+              <Button type="submit" disabled={isSaving} className="w-full">
+                {isSaving ? "Adding..." : "Add to Watchlist"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Watching</CardTitle>
+            <CardDescription>
+              {watches.length === 0
+                ? "You're not watching anything yet"
+                : `${watches.length} active ${
+                    watches.length === 1 ? "watch" : "watches"
+                  }`}
+            </CardDescription>
+          </CardHeader>
+          {watches.length > 0 && (
+            <CardContent className="space-y-2">
+              {watches.map((watch) => (
+                <div
+                  key={watch.id}
+                  className="flex items-center justify-between p-3 bg-muted/50 rounded-lg"
+                >
+                  <div className="space-y-1">
+                    <div className="font-medium">
+                      {watch.tier ? `T${watch.tier} ` : ""}
+                      <span className="capitalize">{watch.itemName}</span>
+                    </div>
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <Badge variant="outline">
+                        {watch.orderType || "BUY/SELL"}
+                      </Badge>
+                      <span>{describePrice(watch)}</span>
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDelete(watch.id)}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
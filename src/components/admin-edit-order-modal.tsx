@@ -29,6 +29,7 @@ interface Order {
   amount: number;
   orderType: string;
   status: string;
+  claimedAmount?: number;
   createdAt: string;
   fulfilledAt?: string;
   creator: {
@@ -43,12 +44,6 @@ interface Order {
   } | null;
 }
 
-interface User {
-  id: string;
-  discordName: string;
-  inGameName: string | null;
-}
-
 interface AdminEditOrderModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -71,11 +66,11 @@ export function AdminEditOrderModal({
     amount: 1,
     orderType: "BUY",
     status: "OPEN",
-    claimerId: "none",
   });
 
-  const [users, setUsers] = useState<User[]>([]);
-  const [loadingUsers, setLoadingUsers] = useState(false);
+  // Once claimed, the status follows the claims and can't be set here. Without
+  // claims an order can only be open or closed; a claimer comes with a claim.
+  const isClaimed = (order?.claimedAmount ?? 0) > 0;
   const [availableItems, setAvailableItems] = useState<string[]>([]);
   
   // Track if user has manually edited the price
@@ -99,28 +94,6 @@ export function AdminEditOrderModal({
     }
   }, [pricingData]);
 
-  // Load users for claimer dropdown
-  useEffect(() => {
-    if (isOpen) {
-      const fetchUsers = async () => {
-        try {
-          setLoadingUsers(true);
-          const response = await fetch("/api/admin/users");
-          if (response.ok) {
-            const data = await response.json();
-            setUsers(data.users || []);
-          }
-        } catch (error) {
-          console.error("Error fetching users:", error);
-        } finally {
-          setLoadingUsers(false);
-        }
-      };
-
-      fetchUsers();
-    }
-  }, [isOpen]);
-
   // Reset form when order changes
   useEffect(() => {
     if (order) {
@@ -131,7 +104,6 @@ export function AdminEditOrderModal({
         amount: order.amount,
         orderType: order.orderType,
         status: order.status,
-        claimerId: order.claimer?.id || "none",
       });
       // Reset tracking flags when order changes
       setUserEditedPrice(false);
@@ -195,34 +167,24 @@ export function AdminEditOrderModal({
       return;
     }
 
-    // For SELL orders, IN_PROGRESS is not valid
-    if (formData.orderType === "SELL" && formData.status === "IN_PROGRESS") {
-      alert("IN_PROGRESS status is not valid for SELL orders");
-      return;
-    }
-
     const updateData = {
       itemName: formData.itemName.trim().toLowerCase(),
       tier: formData.tier,
       pricePerUnit: formData.pricePerUnit,
       amount: formData.amount,
       orderType: formData.orderType,
-      status: formData.status,
-      claimerId: formData.claimerId === "none" ? null : formData.claimerId,
+      ...(!isClaimed && { status: formData.status }),
     };
 
     onConfirm(updateData);
   };
 
   const getAvailableStatuses = () => {
-    const allStatuses = ["OPEN", "IN_PROGRESS", "READY_TO_TRADE", "FULFILLED"];
-    
-    // For SELL orders, exclude IN_PROGRESS
-    if (formData.orderType === "SELL") {
-      return allStatuses.filter(status => status !== "IN_PROGRESS");
+    if (isClaimed && order) {
+      return [order.status];
     }
-    
-    return allStatuses;
+
+    return ["OPEN", "EXPIRED", "CANCELLED"];
   };
 
   const getAvailableTiers = () => {
@@ -262,10 +224,6 @@ export function AdminEditOrderModal({
     setUserEditedPrice(true); // Mark that user has manually edited the price
   };
 
-  const getUserDisplayName = (user: User) => {
-    return user.inGameName || user.discordName;
-  };
-
   if (!order) return null;
 
   return (
@@ -348,7 +306,7 @@ export function AdminEditOrderModal({
                 onValueChange={(value) =>
                   setFormData({ ...formData, status: value })
                 }
-                disabled={isLoading}
+                disabled={isLoading || isClaimed}
               >
                 <SelectTrigger>
                   <SelectValue />
@@ -366,6 +324,12 @@ export function AdminEditOrderModal({
                   ))}
                 </SelectContent>
               </Select>
+              {isClaimed && (
+                <p className="text-xs text-muted-foreground">
+                  This order has claims and its status follows them. Complete,
+                  release or resolve the claims instead.
+                </p>
+              )}
             </div>
           </div>
 
@@ -405,32 +369,6 @@ export function AdminEditOrderModal({
             </div>
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="claimer">Claimer</Label>
-            <Select
-              value={formData.claimerId}
-              onValueChange={(value) =>
-                setFormData({ ...formData, claimerId: value })
-              }
-              disabled={isLoading || loadingUsers}
-            >
-              <SelectTrigger>
-                <SelectValue placeholder="Select claimer (optional)" />
-              </SelectTrigger>
-                             <SelectContent>
-                 <SelectItem value="none">No claimer</SelectItem>
-                 {users.map((user) => (
-                   <SelectItem key={user.id} value={user.id}>
-                     {getUserDisplayName(user)}
-                   </SelectItem>
-                 ))}
-               </SelectContent>
-            </Select>
-            {loadingUsers && (
-              <p className="text-xs text-muted-foreground">Loading users...</p>
-            )}
-          </div>
-
           <div className="bg-muted p-3 rounded-lg">
             <div className="text-sm space-y-1">
               <div className="flex justify-between">
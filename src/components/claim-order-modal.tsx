@@ -0,0 +1,144 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface Order {
+  id: string;
+  itemName: string;
+  tier: number;
+  pricePerUnit: number;
+  amount: number;
+  claimedAmount: number;
+  orderType: string;
+}
+
+interface ClaimOrderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (amount: number) => void;
+  order: Order | null;
+  isLoading: boolean;
+}
+
+export function ClaimOrderModal({
+  isOpen,
+  onClose,
+  onConfirm,
+  order,
+  isLoading,
+}: ClaimOrderModalProps) {
+  const remainingAmount = order
+    ? Math.max(order.amount - order.claimedAmount, 0)
+    : 0;
+  const [amount, setAmount] = useState(remainingAmount);
+
+  // Default to claiming everything that is left whenever a new order is opened
+  useEffect(() => {
+    if (order) {
+      setAmount(Math.max(order.amount - order.claimedAmount, 0));
+    }
+  }, [order]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (amount <= 0) {
+      alert("Amount must be greater than 0");
+      return;
+    }
+
+    if (amount > remainingAmount) {
+      alert(`Only ${remainingAmount} remaining on this order`);
+      return;
+    }
+
+    onConfirm(amount);
+  };
+
+  const formatPrice = (price: number) => {
+    return price % 1 === 0
+      ? `${price.toFixed(0)} HC`
+      : `${price.toFixed(3).replace(/\.?0+$/, "")} HC`;
+  };
+
+  if (!order) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Claim Order</DialogTitle>
+          <DialogDescription>
+            Choose how much of this order you want to fill. The rest stays open
+            for other traders.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="bg-muted p-3 rounded-lg">
+            <div className="text-sm">
+              <span className="font-medium">Item:</span> T{order.tier}{" "}
+              {order.itemName.charAt(0).toUpperCase() + order.itemName.slice(1)}
+            </div>
+            <div className="text-xs text-muted-foreground mt-1">
+              {remainingAmount.toLocaleString()} of{" "}
+              {order.amount.toLocaleString()} remaining
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="claimAmount">Amount</Label>
+            <Input
+              id="claimAmount"
+              type="number"
+              min="1"
+              max={remainingAmount}
+              value={amount}
+              onChange={(e) => setAmount(parseInt(e.target.value) || 0)}
+              disabled={isLoading}
+            />
+          </div>
+
+          <div className="bg-muted p-3 rounded-lg">
+            <div className="text-sm space-y-1">
+              <div className="flex justify-between">
+                <span>Total Value:</span>
+                <span className="font-mono font-medium">
+                  {formatPrice(Math.ceil(amount * order.pricePerUnit))}
+                </span>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {amount.toLocaleString()} × {formatPrice(order.pricePerUnit)}
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={isLoading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? "Claiming..." : "Claim"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
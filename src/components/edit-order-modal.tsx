@@ -31,6 +31,7 @@ interface Order {
   tier: number;
   pricePerUnit: number;
   amount: number;
+  claimedAmount?: number;
   orderType: string;
   status: string;
   createdAt: string;
@@ -170,6 +171,13 @@ export function EditOrderModal({
       return;
     }
 
+    if (order?.claimedAmount && formData.amount < order.claimedAmount) {
+      alert(
+        `Amount cannot be less than the ${order.claimedAmount} already claimed`
+      );
+      return;
+    }
+
     onConfirm(formData);
   };
 
@@ -69,6 +69,16 @@ export function Navigation() {
             >
               Create Order
             </Link>
+            <Link
+              href="/watchlist"
+              className={`text-sm font-medium transition-colors ${
+                pathname === "/watchlist"
+                  ? "text-foreground font-semibold"
+                  : "text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              Watchlist
+            </Link>
             <Link
               href="/pricing"
               className={`text-sm font-medium transition-colors ${
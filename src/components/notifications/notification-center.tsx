@@ -108,8 +108,9 @@ export function NotificationCenter() {
     // Subscribe to notification updates
     const unsubscribe = notificationManager.subscribe(setNotifications);
 
-    // Load initial notifications
+    // Show cached notifications immediately, then hydrate from the server inbox
     setNotifications(notificationManager.getNotifications());
+    notificationManager.loadFromServer();
 
     return unsubscribe;
   }, []);
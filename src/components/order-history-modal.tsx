@@ -0,0 +1,213 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface OrderEvent {
+  id: string;
+  type: string;
+  fillId: string | null;
+  previousStatus: string | null;
+  newStatus: string | null;
+  changes: Record<string, { from: unknown; to: unknown }> | null;
+  createdAt: string;
+  actor: {
+    id: string;
+    discordName: string | null;
+    inGameName: string | null;
+  } | null;
+}
+
+interface OrderHistoryData {
+  orderId: string;
+  currentStatus: string | null;
+  deleted: boolean;
+  events: OrderEvent[];
+}
+
+interface OrderHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  order: {
+    id: string;
+    itemName: string;
+    tier: number;
+  } | null;
+}
+
+const EVENT_LABELS: Record<string, string> = {
+  created: "Created",
+  claimed: "Claimed",
+  unclaimed: "Unclaimed",
+  ready: "Marked ready",
+  confirmed: "Confirmed",
+  completed: "Completed",
+  edited: "Edited",
+  expired: "Expired",
+  cancelled: "Cancelled",
+  disputed: "Disputed",
+  dispute_resolved: "Dispute resolved",
+  deleted: "Deleted",
+};
+
+const EVENT_COLORS: Record<string, string> = {
+  created: "bg-green-500",
+  claimed: "bg-yellow-500",
+  unclaimed: "bg-orange-500",
+  ready: "bg-primary",
+  confirmed: "bg-primary",
+  completed: "bg-blue-500",
+  edited: "bg-muted-foreground",
+  expired: "bg-muted-foreground",
+  cancelled: "bg-destructive",
+  disputed: "bg-red-500",
+  dispute_resolved: "bg-blue-500",
+  deleted: "bg-destructive",
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  OPEN: "Open",
+  IN_PROGRESS: "In Progress",
+  READY_TO_TRADE: "Ready",
+  FULFILLED: "Fulfilled",
+  EXPIRED: "Expired",
+  CANCELLED: "Cancelled",
+  DISPUTED: "Disputed",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  tier: "Tier",
+  pricePerUnit: "Price/Unit",
+  amount: "Amount",
+  orderType: "Type",
+  status: "Status",
+  claimerId: "Claimer",
+  claimedAmount: "Claimed",
+  fillStatus: "Claim status",
+  cancelReason: "Reason",
+  disputeReason: "Reason",
+  resolution: "Resolution",
+  resolutionNote: "Note",
+  confirmedBy: "Confirmed by",
+  completedVia: "Completed via",
+};
+
+export function OrderHistoryModal({
+  isOpen,
+  onClose,
+  order,
+}: OrderHistoryModalProps) {
+  const [data, setData] = useState<OrderHistoryData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !order) return;
+
+    async function fetchHistory() {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const response = await fetch(`/api/orders/${order!.id}/history`);
+        if (!response.ok) {
+          throw new Error("Failed to fetch order history");
+        }
+
+        setData(await response.json());
+      } catch (err) {
+        console.error("Error fetching order history:", err);
+        setError(err instanceof Error ? err.message : "Unknown error");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchHistory();
+  }, [isOpen, order]);
+
+  const formatValue = (value: unknown) => {
+    if (value === null || value === undefined) return "-";
+    if (typeof value === "string" && STATUS_LABELS[value]) {
+      return STATUS_LABELS[value];
+    }
+    return String(value);
+  };
+
+  if (!order) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Order History</DialogTitle>
+          <DialogDescription>
+            T{order.tier}{" "}
+            {order.itemName.charAt(0).toUpperCase() + order.itemName.slice(1)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <p className="text-muted-foreground">Loading...</p>
+          </div>
+        ) : error ? (
+          <div className="text-sm text-destructive py-4">{error}</div>
+        ) : !data || data.events.length === 0 ? (
+          <div className="text-sm text-muted-foreground py-4">
+            No history recorded for this order yet
+          </div>
+        ) : (
+          <ol className="relative border-l border-muted-foreground/20 ml-2 space-y-4 max-h-[60vh] overflow-y-auto">
+            {data.events.map((event) => (
+              <li key={event.id} className="ml-4">
+                <span
+                  className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full ${
+                    EVENT_COLORS[event.type] || "bg-muted-foreground"
+                  }`}
+                ></span>
+                <div className="flex justify-between items-baseline gap-2">
+                  <span className="text-sm font-medium">
+                    {EVENT_LABELS[event.type] || event.type}
+                    {event.actor && (
+                      <span className="text-muted-foreground font-normal">
+                        {" "}
+                        by {event.actor.inGameName || event.actor.discordName}
+                      </span>
+                    )}
+                  </span>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {new Date(event.createdAt).toLocaleString()}
+                  </span>
+                </div>
+                {event.previousStatus &&
+                  event.newStatus &&
+                  event.previousStatus !== event.newStatus && (
+                    <div className="text-xs text-muted-foreground">
+                      {formatValue(event.previousStatus)} →{" "}
+                      {formatValue(event.newStatus)}
+                    </div>
+                  )}
+                {event.changes &&
+                  Object.entries(event.changes).map(([field, change]) => (
+                    <div key={field} className="text-xs text-muted-foreground">
+                      {FIELD_LABELS[field] || field}:{" "}
+                      <span className="font-mono">
+                        {formatValue(change.from)} → {formatValue(change.to)}
+                      </span>
+                    </div>
+                  ))}
+              </li>
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { formatPrice } from "@/lib/pricing";
+
+type PriceAlertType = "ABOVE" | "BELOW" | "PERCENT_CHANGE";
+
+interface PriceAlert {
+  id: string;
+  itemName: string;
+  tier: number;
+  type: PriceAlertType;
+  threshold: number;
+  lastTriggeredAt: string | null;
+  createdAt: string;
+}
+
+interface PriceAlertsPanelProps {
+  itemName: string;
+  tier: number;
+}
+
+const TYPE_LABELS: Record<PriceAlertType, string> = {
+  ABOVE: "Rises to",
+  BELOW: "Falls to",
+  PERCENT_CHANGE: "Moves by",
+};
+
+export function PriceAlertsPanel({ itemName, tier }: PriceAlertsPanelProps) {
+  const [alerts, setAlerts] = useState<PriceAlert[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [type, setType] = useState<PriceAlertType>("BELOW");
+  const [threshold, setThreshold] = useState("");
+
+  useEffect(() => {
+    async function fetchAlerts() {
+      try {
+        setLoading(true);
+        const response = await fetch(
+          `/api/pricing/alerts?itemName=${encodeURIComponent(
+            itemName
+          )}&tier=${tier}`
+        );
+        if (response.ok) {
+          const data = await response.json();
+          setAlerts(data.alerts);
+        }
+      } catch (error) {
+        console.error("Error fetching price alerts:", error);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchAlerts();
+  }, [itemName, tier]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = parseFloat(threshold);
+    if (isNaN(value) || value <= 0) {
+      alert("Threshold must be a positive number");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/pricing/alerts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ itemName, tier, type, threshold: value }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        alert(data.error || "Failed to create price alert");
+        return;
+      }
+
+      setAlerts((prev) => [...prev, data]);
+      setThreshold("");
+    } catch (error) {
+      console.error("Error creating price alert:", error);
+      alert("Failed to create price alert");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (alertId: string) => {
+    try {
+      const response = await fetch(
+        `/api/pricing/alerts?id=${encodeURIComponent(alertId)}`,
+        { method: "DELETE" }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error || "Failed to delete price alert");
+        return;
+      }
+
+      setAlerts((prev) => prev.filter((a) => a.id !== alertId));
+    } catch (error) {
+      console.error("Error deleting price alert:", error);
+      alert("Failed to delete price alert");
+    }
+  };
+
+  const describeThreshold = (alert: PriceAlert) =>
+    alert.type === "PERCENT_CHANGE"
+      ? `${alert.threshold}%`
+      : formatPrice(alert.threshold);
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle>Price Alerts</CardTitle>
+        <CardDescription>
+          Get notified when the T{tier}{" "}
+          {itemName.charAt(0).toUpperCase() + itemName.slice(1)} price changes
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="alertType">When price</Label>
+              <Select
+                value={type}
+                onValueChange={(value) => setType(value as PriceAlertType)}
+              >
+                <SelectTrigger id="alertType">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="BELOW">Falls to</SelectItem>
+                  <SelectItem value="ABOVE">Rises to</SelectItem>
+                  <SelectItem value="PERCENT_CHANGE">Moves by</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="alertThreshold">
+                {type === "PERCENT_CHANGE" ? "Percent" : "Price (HC)"}
+              </Label>
+              <Input
+                id="alertThreshold"
+                type="number"
+                step={type === "PERCENT_CHANGE" ? "1" : "0.001"}
+                min="0"
+                placeholder={type === "PERCENT_CHANGE" ? "10" : "0.000"}
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+          <Button type="submit" size="sm" className="w-full" disabled={isSaving}>
+            {isSaving ? "Adding..." : "Add Alert"}
+          </Button>
+        </form>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading alerts...</p>
+        ) : alerts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No alerts on this item yet
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {alerts.map((priceAlert) => (
+              <div
+                key={priceAlert.id}
+                className="flex items-center justify-between p-2 bg-muted/50 rounded-lg"
+              >
+                <div>
+                  <div className="text-sm">
+                    {TYPE_LABELS[priceAlert.type]}{" "}
+                    <span className="font-mono font-medium">
+                      {describeThreshold(priceAlert)}
+                    </span>
+                  </div>
+                  {priceAlert.lastTriggeredAt && (
+                    <div className="text-xs text-muted-foreground">
+                      Last triggered{" "}
+                      {new Date(priceAlert.lastTriggeredAt).toLocaleString()}
+                    </div>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(priceAlert.id)}
+                  title="Delete alert"
+                >
+                  ×
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,251 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { formatPrice } from "@/lib/pricing";
+import type {
+  PriceDiff,
+  PriceFileFormat,
+  PriceImportError,
+} from "@/lib/price-import";
+
+interface PriceImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: (diff: PriceDiff) => void;
+}
+
+// Rows listed per section before collapsing to a count
+const PREVIEW_LIMIT = 20;
+
+export function PriceImportModal({
+  isOpen,
+  onClose,
+  onImported,
+}: PriceImportModalProps) {
+  const [file, setFile] = useState<{
+    content: string;
+    format: PriceFileFormat;
+    name: string;
+  } | null>(null);
+  const [diff, setDiff] = useState<PriceDiff | null>(null);
+  // Identifies the previewed diff; applying fails if the prices moved since
+  const [diffHash, setDiffHash] = useState<string | null>(null);
+  const [errors, setErrors] = useState<PriceImportError[]>([]);
+  const [error, setError] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+
+  const reset = () => {
+    setFile(null);
+    setDiff(null);
+    setDiffHash(null);
+    setErrors([]);
+    setError("");
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const submit = async (
+    selected: { content: string; format: PriceFileFormat },
+    dryRun: boolean
+  ) => {
+    setIsLoading(true);
+    setError("");
+    setErrors([]);
+
+    try {
+      const response = await fetch("/api/admin/pricing/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...selected, dryRun, diffHash }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Failed to import prices");
+        setErrors(data.errors || []);
+        setDiff(null);
+        setDiffHash(null);
+        return;
+      }
+
+      if (dryRun) {
+        setDiff(data.diff);
+        setDiffHash(data.diffHash);
+      } else {
+        onImported(data.diff);
+        handleClose();
+      }
+    } catch (err) {
+      setError("Failed to import prices");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    reset();
+    if (!selected) return;
+
+    const format: PriceFileFormat = selected.name
+      .toLowerCase()
+      .endsWith(".json")
+      ? "json"
+      : "csv";
+    const content = await selected.text();
+
+    setFile({ content, format, name: selected.name });
+    await submit({ content, format }, true);
+  };
+
+  const changeCount = diff
+    ? diff.created.length + diff.updated.length + diff.deleted.length
+    : 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Import Prices</DialogTitle>
+          <DialogDescription>
+            Upload a CSV (itemName,tier,price) or JSON export. The file replaces
+            the whole price list, so prices missing from it are deleted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="priceFile">File</Label>
+            <Input
+              id="priceFile"
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={handleFileChange}
+              disabled={isLoading}
+            />
+          </div>
+
+          {error && (
+            <div className="space-y-1">
+              <p className="text-sm text-destructive">{error}</p>
+              {errors.length > 0 && (
+                <ul className="max-h-40 overflow-y-auto text-xs text-destructive space-y-0.5">
+                  {errors.map((rowError, index) => (
+                    <li key={index}>
+                      <span className="font-mono">{rowError.location}</span>:{" "}
+                      {rowError.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {isLoading && !diff && (
+            <p className="text-sm text-muted-foreground">Checking file...</p>
+          )}
+
+          {diff && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2 text-xs">
+                <span className="px-2 py-1 bg-green-500/20 text-green-400 border border-green-500/30 rounded">
+                  Created: {diff.created.length}
+                </span>
+                <span className="px-2 py-1 bg-yellow-500/20 text-yellow-400 border border-yellow-500/30 rounded">
+                  Updated: {diff.updated.length}
+                </span>
+                <span className="px-2 py-1 bg-red-500/20 text-red-400 border border-red-500/30 rounded">
+                  Deleted: {diff.deleted.length}
+                </span>
+                <span className="px-2 py-1 bg-muted text-muted-foreground border border-muted-foreground/20 rounded">
+                  Unchanged: {diff.unchanged}
+                </span>
+              </div>
+
+              <div className="max-h-64 overflow-y-auto space-y-1 text-sm">
+                {diff.created.slice(0, PREVIEW_LIMIT).map((row) => (
+                  <div
+                    key={`created-${row.itemName}-${row.tier}`}
+                    className="flex justify-between text-green-600"
+                  >
+                    <span>
+                      + T{row.tier}{" "}
+                      <span className="capitalize">{row.itemName}</span>
+                    </span>
+                    <span className="font-mono">{formatPrice(row.price)}</span>
+                  </div>
+                ))}
+                {diff.updated.slice(0, PREVIEW_LIMIT).map((row) => (
+                  <div
+                    key={`updated-${row.itemName}-${row.tier}`}
+                    className="flex justify-between text-yellow-600"
+                  >
+                    <span>
+                      ~ T{row.tier}{" "}
+                      <span className="capitalize">{row.itemName}</span>
+                    </span>
+                    <span className="font-mono">
+                      {formatPrice(row.previousPrice)} →{" "}
+                      {formatPrice(row.price)}
+                    </span>
+                  </div>
+                ))}
+                {diff.deleted.slice(0, PREVIEW_LIMIT).map((row) => (
+                  <div
+                    key={`deleted-${row.itemName}-${row.tier}`}
+                    className="flex justify-between text-red-600"
+                  >
+                    <span>
+                      − T{row.tier}{" "}
+                      <span className="capitalize">{row.itemName}</span>
+                    </span>
+                    <span className="font-mono line-through">
+                      {formatPrice(row.price)}
+                    </span>
+                  </div>
+                ))}
+                {Math.max(
+                  diff.created.length,
+                  diff.updated.length,
+                  diff.deleted.length
+                ) > PREVIEW_LIMIT && (
+                  <p className="text-xs text-muted-foreground">
+                    Showing the first {PREVIEW_LIMIT} rows of each kind
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => file && submit(file, false)}
+            disabled={!file || !diff || changeCount === 0 || isLoading}
+          >
+            {isLoading && diff
+              ? "Importing..."
+              : `Apply ${changeCount} ${changeCount === 1 ? "Change" : "Changes"}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,275 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { formatPrice } from "@/lib/pricing";
+import type { ReferencePriceProposal } from "@/lib/market-price";
+
+interface PriceSuggestionsPanelProps {
+  onApplied: (count: number) => void;
+  onClose: () => void;
+}
+
+const LOOKBACK_OPTIONS = [7, 14, 30, 90];
+
+function proposalKey(proposal: ReferencePriceProposal) {
+  return `${proposal.itemName}-${proposal.tier}`;
+}
+
+export function PriceSuggestionsPanel({
+  onApplied,
+  onClose,
+}: PriceSuggestionsPanelProps) {
+  const [proposals, setProposals] = useState<ReferencePriceProposal[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [lookbackDays, setLookbackDays] = useState(14);
+  const [loading, setLoading] = useState(true);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchProposals = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch(
+        `/api/admin/pricing/suggestions?days=${lookbackDays}`
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load suggestions");
+      }
+
+      setProposals(data.proposals);
+      setSelected(new Set());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, [lookbackDays]);
+
+  useEffect(() => {
+    fetchProposals();
+  }, [fetchProposals]);
+
+  const toggle = (key: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected((prev) =>
+      prev.size === proposals.length
+        ? new Set()
+        : new Set(proposals.map(proposalKey))
+    );
+  };
+
+  const applySelected = async () => {
+    const updates = proposals
+      .filter((proposal) => selected.has(proposalKey(proposal)))
+      .map((proposal) => ({
+        itemName: proposal.itemName,
+        tier: proposal.tier,
+        price: proposal.proposedPrice,
+      }));
+
+    if (updates.length === 0) return;
+
+    setApplying(true);
+    try {
+      const response = await fetch("/api/admin/pricing/suggestions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ updates }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Failed to apply suggestions");
+        return;
+      }
+
+      onApplied(data.updated);
+      await fetchProposals();
+    } catch (err) {
+      setError("Failed to apply suggestions");
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle>Suggested Updates</CardTitle>
+            <CardDescription>
+              Proposed from completed trades and the open-order spread. Only
+              the rows you select are changed.
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            ×
+          </Button>
+        </div>
+        <div className="flex items-center gap-2 mt-4">
+          <span className="text-sm text-muted-foreground">Trades from:</span>
+          {LOOKBACK_OPTIONS.map((days) => (
+            <Button
+              key={days}
+              variant={lookbackDays === days ? "default" : "outline"}
+              size="sm"
+              onClick={() => setLookbackDays(days)}
+              disabled={loading || applying}
+            >
+              {days}d
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">
+            Loading suggestions...
+          </p>
+        ) : proposals.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Prices are in line with the market, nothing to suggest
+          </p>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-muted-foreground/20 text-muted-foreground">
+                    <th className="py-2 px-3 text-left">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 accent-primary"
+                        checked={selected.size === proposals.length}
+                        onChange={toggleAll}
+                        aria-label="Select all"
+                      />
+                    </th>
+                    <th className="py-2 px-3 text-left font-medium">Item</th>
+                    <th className="py-2 px-3 text-right font-medium">
+                      Current
+                    </th>
+                    <th className="py-2 px-3 text-right font-medium">
+                      Proposed
+                    </th>
+                    <th className="py-2 px-3 text-right font-medium">Change</th>
+                    <th className="py-2 px-3 text-right font-medium">
+                      Market
+                    </th>
+                    <th className="py-2 px-3 text-right font-medium">
+                      Bid / Ask
+                    </th>
+                    <th className="py-2 px-3 text-right font-medium">Trades</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {proposals.map((proposal) => {
+                    const key = proposalKey(proposal);
+                    return (
+                      <tr
+                        key={key}
+                        className="border-b border-muted-foreground/10 hover:bg-muted/30 cursor-pointer"
+                        onClick={() => toggle(key)}
+                      >
+                        <td className="py-2 px-3">
+                          <input
+                            type="checkbox"
+                            className="h-4 w-4 accent-primary"
+                            checked={selected.has(key)}
+                            onChange={() => toggle(key)}
+                            onClick={(e) => e.stopPropagation()}
+                            aria-label={`Select T${proposal.tier} ${proposal.itemName}`}
+                          />
+                        </td>
+                        <td className="py-2 px-3">
+                          T{proposal.tier}{" "}
+                          <span className="capitalize">
+                            {proposal.itemName}
+                          </span>
+                        </td>
+                        <td className="py-2 px-3 text-right font-mono">
+                          {formatPrice(proposal.currentPrice)}
+                        </td>
+                        <td className="py-2 px-3 text-right font-mono">
+                          {formatPrice(proposal.proposedPrice)}
+                        </td>
+                        <td
+                          className={`py-2 px-3 text-right font-mono ${
+                            proposal.changePercent > 0
+                              ? "text-green-600"
+                              : "text-red-600"
+                          }`}
+                        >
+                          {proposal.changePercent > 0 ? "+" : ""}
+                          {proposal.changePercent.toFixed(1)}%
+                        </td>
+                        <td className="py-2 px-3 text-right font-mono text-muted-foreground">
+                          {proposal.marketPrice !== null
+                            ? formatPrice(proposal.marketPrice)
+                            : "—"}
+                        </td>
+                        <td className="py-2 px-3 text-right font-mono text-muted-foreground whitespace-nowrap">
+                          {proposal.bestBid !== null
+                            ? formatPrice(proposal.bestBid)
+                            : "—"}{" "}
+                          /{" "}
+                          {proposal.bestAsk !== null
+                            ? formatPrice(proposal.bestAsk)
+                            : "—"}
+                        </td>
+                        <td className="py-2 px-3 text-right text-muted-foreground">
+                          {proposal.sampleSize}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">
+                {selected.size} of {proposals.length} selected
+              </span>
+              <Button
+                onClick={applySelected}
+                disabled={selected.size === 0 || applying}
+              >
+                {applying
+                  ? "Applying..."
+                  : `Apply ${selected.size} ${
+                      selected.size === 1 ? "Update" : "Updates"
+                    }`}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+
+interface RatingModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (score: number, comment: string) => void;
+  traderName: string;
+  isLoading?: boolean;
+}
+
+// Matches the range and comment length the rate endpoint accepts
+const SCORES = [1, 2, 3, 4, 5];
+const MAX_COMMENT_LENGTH = 500;
+
+// Rate the other side of a completed trade from 1 to 5 stars
+export function RatingModal({
+  isOpen,
+  onClose,
+  onConfirm,
+  traderName,
+  isLoading = false,
+}: RatingModalProps) {
+  const [score, setScore] = useState(0);
+  const [comment, setComment] = useState("");
+
+  // Start fresh each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setScore(0);
+      setComment("");
+    }
+  }, [isOpen]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!score) return;
+    onConfirm(score, comment.trim());
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Rate Trade</DialogTitle>
+          <DialogDescription>
+            How did trading with {traderName} go? You can only rate each trade
+            once.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex gap-1">
+            {SCORES.map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setScore(value)}
+                disabled={isLoading}
+                className={`text-2xl ${
+                  value <= score ? "text-yellow-400" : "text-muted-foreground"
+                }`}
+                aria-label={`${value} star${value === 1 ? "" : "s"}`}
+              >
+                ★
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rating-comment">Comment (optional)</Label>
+            <textarea
+              id="rating-comment"
+              rows={3}
+              maxLength={MAX_COMMENT_LENGTH}
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              disabled={isLoading}
+              className="flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={isLoading}
+            >
+              Back
+            </Button>
+            <Button type="submit" disabled={isLoading || !score}>
+              {isLoading ? "Loading..." : "Submit Rating"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
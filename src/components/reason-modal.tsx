@@ -0,0 +1,104 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+
+interface ReasonModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (reason: string) => void;
+  title: string;
+  description: string;
+  label?: string;
+  placeholder?: string;
+  confirmText?: string;
+  isLoading?: boolean;
+  variant?: "default" | "destructive";
+}
+
+// Matches the length the cancel and dispute endpoints accept
+const MAX_REASON_LENGTH = 500;
+
+// A confirmation that asks for a short written reason, e.g. for cancelling or
+// disputing an order
+export function ReasonModal({
+  isOpen,
+  onClose,
+  onConfirm,
+  title,
+  description,
+  label = "Reason",
+  placeholder,
+  confirmText = "Confirm",
+  isLoading = false,
+  variant = "default",
+}: ReasonModalProps) {
+  const [reason, setReason] = useState("");
+
+  // Start empty each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setReason("");
+    }
+  }, [isOpen]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) return;
+    onConfirm(reason.trim());
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="reason">{label}</Label>
+            <textarea
+              id="reason"
+              rows={3}
+              maxLength={MAX_REASON_LENGTH}
+              value={reason}
+              placeholder={placeholder}
+              onChange={(e) => setReason(e.target.value)}
+              disabled={isLoading}
+              className="flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={isLoading}
+            >
+              Back
+            </Button>
+            <Button
+              type="submit"
+              variant={variant}
+              disabled={isLoading || !reason.trim()}
+            >
+              {isLoading ? "Loading..." : confirmText}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
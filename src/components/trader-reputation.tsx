@@ -0,0 +1,38 @@
+interface TraderReputationProps {
+  trader: {
+    ratingCount?: number;
+    ratingTotal?: number;
+    abandonedClaims?: number;
+  };
+}
+
+// Average rating and dropped claims, shown after a trader's name. Renders
+// nothing for traders with no history yet.
+export function TraderReputation({ trader }: TraderReputationProps) {
+  const ratingCount = trader.ratingCount ?? 0;
+  const abandonedClaims = trader.abandonedClaims ?? 0;
+
+  if (ratingCount === 0 && abandonedClaims === 0) {
+    return null;
+  }
+
+  const average = ratingCount > 0 ? (trader.ratingTotal ?? 0) / ratingCount : 0;
+
+  return (
+    <span
+      className="text-xs text-muted-foreground"
+      title={`${ratingCount} rating${ratingCount === 1 ? "" : "s"}, ${abandonedClaims} abandoned claim${abandonedClaims === 1 ? "" : "s"}`}
+    >
+      {ratingCount > 0 && (
+        <span className="text-yellow-400">
+          {" "}
+          ★{average.toFixed(1)}
+          <span className="text-muted-foreground">({ratingCount})</span>
+        </span>
+      )}
+      {abandonedClaims > 0 && (
+        <span className="text-orange-400"> · {abandonedClaims} dropped</span>
+      )}
+    </span>
+  );
+}
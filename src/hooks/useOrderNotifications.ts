@@ -10,7 +10,14 @@ interface Order {
   tier: number;
   amount: number;
   orderType: "BUY" | "SELL";
-  status: "OPEN" | "IN_PROGRESS" | "READY_TO_TRADE" | "FULFILLED";
+  status:
+    | "OPEN"
+    | "IN_PROGRESS"
+    | "READY_TO_TRADE"
+    | "FULFILLED"
+    | "EXPIRED"
+    | "CANCELLED"
+    | "DISPUTED";
   creatorId: string;
   claimerId: string | null;
   claimer?: {
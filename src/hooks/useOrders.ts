@@ -1,26 +1,59 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import { useSessionContext } from "@/contexts/SessionContext";
 
+interface OrderFill {
+  id: string;
+  amount: number;
+  status: string;
+  createdAt: string;
+  fulfilledAt?: string | null;
+  disputedAt?: string | null;
+  disputeReason?: string | null;
+  creatorConfirmedAt?: string | null;
+  claimerConfirmedAt?: string | null;
+  ratings?: { raterId: string }[];
+  claimer: {
+    id: string;
+    discordName: string;
+    inGameName: string | null;
+    ratingCount?: number;
+    ratingTotal?: number;
+    abandonedClaims?: number;
+  };
+}
+
 interface Order {
   id: string;
   itemName: string;
   tier: number;
   pricePerUnit: number;
   amount: number;
+  claimedAmount: number;
   orderType: string;
   status: string;
+  requireConfirmation?: boolean;
   createdAt: string;
   fulfilledAt?: string;
+  expiresAt?: string | null;
+  cancelledAt?: string | null;
+  cancelReason?: string | null;
   creator: {
     id: string;
     discordName: string;
     inGameName: string | null;
+    ratingCount?: number;
+    ratingTotal?: number;
+    abandonedClaims?: number;
   };
   claimer?: {
     id: string;
     discordName: string;
     inGameName: string | null;
+    ratingCount?: number;
+    ratingTotal?: number;
+    abandonedClaims?: number;
   } | null;
+  fills: OrderFill[];
 }
 
 interface User {
@@ -171,70 +204,58 @@ export function useOrders(): UseOrdersReturn {
     }
   }, [update, refetch]);
 
-  // Listen for real-time order status updates from notifications
+  // Apply live order book events so new, claimed and removed orders show up
+  // without refetching the whole board. Events only carry a summary, so the
+  // changed order is fetched on its own.
   useEffect(() => {
-    const handleOrderStatusUpdate = (event: CustomEvent) => {
-      const { orderId, notificationType, orderDetails, claimer } = event.detail;
-      
-      // Update the order status based on the notification type
-      let statusUpdate: Partial<Order> = {};
-      
-      switch (notificationType) {
-        case "order_claimed":
-          // Order was claimed - could be IN_PROGRESS or READY_TO_TRADE
-          // We'll determine based on order type
-          if (orderDetails.orderType === "SELL") {
-            statusUpdate = { 
-              status: "READY_TO_TRADE",
-              claimer: claimer ? {
-                id: claimer.id,
-                discordName: claimer.name || "Unknown",
-                inGameName: claimer.inGameName
-              } : null
-            };
-          } else {
-            statusUpdate = { 
-              status: "IN_PROGRESS",
-              claimer: claimer ? {
-                id: claimer.id,
-                discordName: claimer.name || "Unknown", 
-                inGameName: claimer.inGameName
-              } : null
-            };
-          }
+    const fetchOrder = async (orderId: string): Promise<Order | null> => {
+      try {
+        const response = await fetch(`/api/orders/${orderId}`);
+        return response.ok ? await response.json() : null;
+      } catch (error) {
+        console.error("Error fetching updated order:", error);
+        return null;
+      }
+    };
+
+    const handleOrderBookUpdate = (event: CustomEvent) => {
+      const { type, orderId } = event.detail;
+
+      switch (type) {
+        case "order_created":
+          fetchOrder(orderId).then((order) => {
+            if (!order) return;
+            setOrders((prev) =>
+              prev.some((existing) => existing.id === orderId)
+                ? prev
+                : [order, ...prev]
+            );
+            setTotalCount((count) => count + 1);
+          });
           break;
-          
-        case "order_ready":
-          statusUpdate = { status: "READY_TO_TRADE" };
+
+        case "order_updated":
+          // Orders not loaded yet will arrive with their current state when paged in
+          fetchOrder(orderId).then((order) => {
+            if (order) {
+              updateOrder(orderId, order);
+            }
+          });
           break;
-          
-        case "order_completed":
-          // Remove completed orders from the list since they're typically filtered out
-          // We'll use a special flag to indicate this order should be removed
-          updateOrder(orderId, { status: "FULFILLED" });
-          // Remove the order after a short delay to allow the status update to be seen
-          setTimeout(() => {
-            removeOrder(orderId);
-          }, 1000);
-          return; // Don't apply statusUpdate since we're handling this specially
-          
-        case "order_cancelled":
-          statusUpdate = { status: "OPEN", claimer: null };
+
+        case "order_deleted":
+          removeOrder(orderId);
+          setTotalCount((count) => Math.max(count - 1, 0));
           break;
       }
-      
-      // Apply the update to the local state
-      if (Object.keys(statusUpdate).length > 0) {
-        updateOrder(orderId, statusUpdate);
-      }
     };
 
     // Add event listener
-    window.addEventListener('orderStatusUpdate', handleOrderStatusUpdate as EventListener);
+    window.addEventListener('orderBookUpdate', handleOrderBookUpdate as EventListener);
 
     // Cleanup
     return () => {
-      window.removeEventListener('orderStatusUpdate', handleOrderStatusUpdate as EventListener);
+      window.removeEventListener('orderBookUpdate', handleOrderBookUpdate as EventListener);
     };
   }, [updateOrder, removeOrder]);
 
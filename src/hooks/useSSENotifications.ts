@@ -3,15 +3,18 @@
 import { useEffect, useRef, useCallback } from "react";
 import { useSessionContext } from "@/contexts/SessionContext";
 import { notificationManager } from "@/lib/notifications";
+import { isChannelEnabled } from "@/lib/notification-preferences";
 
 export function useSSENotifications() {
   const { session } = useSessionContext();
   const eventSourceRef = useRef<EventSource | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout>();
   const connectingRef = useRef<boolean>(false);
+  // Id of the last event received, sent on reconnect so missed events are replayed
+  const lastEventIdRef = useRef<string | null>(null);
 
   const handleOrderNotification = useCallback((data: any) => {
-    const { notificationType, orderId, title, message, orderDetails, claimer } = data;
+    const { notificationType, orderId, title, message, orderDetails } = data;
 
     // Check if notifications are enabled
     const settings = notificationManager.getSettings();
@@ -20,51 +23,39 @@ export function useSSENotifications() {
       return;
     }
 
-    // Trigger order status update via custom event
-    // This allows the orders hook to update the UI in real-time
-    const orderUpdateEvent = new CustomEvent('orderStatusUpdate', {
+    // The server skips in-app delivery for muted events, but preferences may
+    // have changed since this notification was sent
+    const preferences = notificationManager.getPreferences();
+    if (!isChannelEnabled(preferences, notificationType, "inApp")) {
+      return;
+    }
+
+    // Server-sent notifications are already stored in the inbox, so reuse the
+    // stored id, title and message to keep live and reloaded history identical
+    notificationManager.addNotification({
+      id: data.notificationId,
+      type: notificationType,
+      title,
+      message,
+      orderId: orderId || "",
+      orderDetails: orderDetails || undefined,
+      timestamp: data.timestamp ? new Date(data.timestamp) : undefined,
+      playSound: isChannelEnabled(preferences, notificationType, "sound"),
+    });
+  }, []);
+
+  // Order book changes go to everyone viewing the board, regardless of
+  // notification settings
+  const handleOrderBookEvent = useCallback((data: any) => {
+    const orderBookEvent = new CustomEvent('orderBookUpdate', {
       detail: {
-        orderId,
-        notificationType,
-        orderDetails,
-        claimer,
+        type: data.type,
+        orderId: data.orderId,
+        order: data.order,
         timestamp: data.timestamp
       }
     });
-    window.dispatchEvent(orderUpdateEvent);
-
-    switch (notificationType) {
-      case "order_claimed":
-        notificationManager.orderClaimed(
-          orderId,
-          orderDetails,
-          extractClaimerName(message)
-        );
-        break;
-
-      case "order_ready":
-        notificationManager.orderReady(orderId, orderDetails);
-        break;
-
-      case "order_completed":
-        notificationManager.orderCompleted(orderId, orderDetails);
-        break;
-
-      case "order_cancelled":
-        notificationManager.orderCancelled(orderId, orderDetails);
-        break;
-
-      default:
-        // Fallback: create a generic notification using order_claimed type
-        notificationManager.addNotification({
-          type: "order_claimed",
-          title,
-          message,
-          orderId,
-          orderDetails,
-          playSound: true,
-        });
-    }
+    window.dispatchEvent(orderBookEvent);
   }, []);
 
   const connect = useCallback(() => {
@@ -83,7 +74,13 @@ export function useSSENotifications() {
     }
 
     try {
-      const eventSource = new EventSource("/api/notifications/stream");
+      const eventSource = new EventSource(
+        lastEventIdRef.current
+          ? `/api/notifications/stream?lastEventId=${encodeURIComponent(
+              lastEventIdRef.current
+            )}`
+          : "/api/notifications/stream"
+      );
       eventSourceRef.current = eventSource;
 
       eventSource.onopen = () => {
@@ -91,12 +88,18 @@ export function useSSENotifications() {
       };
 
       eventSource.onmessage = (event) => {
+        if (event.lastEventId) {
+          lastEventIdRef.current = event.lastEventId;
+        }
+
         try {
           const data = JSON.parse(event.data);
 
           switch (data.type) {
             case "connected":
-              // Connection established
+              // Connection established - catch up on anything sent while offline
+              notificationManager.loadFromServer();
+              notificationManager.loadPreferencesFromServer();
               break;
 
             case "ping":
@@ -107,6 +110,12 @@ export function useSSENotifications() {
               handleOrderNotification(data);
               break;
 
+            case "order_created":
+            case "order_updated":
+            case "order_deleted":
+              handleOrderBookEvent(data);
+              break;
+
             default:
               // Unknown message type
               break;
@@ -129,13 +138,7 @@ export function useSSENotifications() {
     } catch (error) {
       console.error("Failed to establish SSE connection:", error);
     }
-  }, [session?.user?.id, handleOrderNotification]);
-
-  const extractClaimerName = (message: string): string => {
-    // Extract claimer name from message like "John claimed your..."
-    const match = message.match(/^(.+?) claimed your/);
-    return match ? match[1] : "Someone";
-  };
+  }, [session?.user?.id, handleOrderNotification, handleOrderBookEvent]);
 
   useEffect(() => {
     if (session?.user?.id) {
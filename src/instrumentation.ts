@@ -0,0 +1,12 @@
+export async function register() {
+  // Background jobs only run in the Node.js server runtime
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    // Subscribe to the notification bus so this instance relays messages
+    // published by other instances to its own SSE clients
+    const { getNotificationBus } = await import("./lib/notification-bus");
+    getNotificationBus();
+
+    const { startOrderSweeper } = await import("./lib/order-sweeper");
+    startOrderSweeper();
+  }
+}
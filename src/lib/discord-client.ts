@@ -0,0 +1,88 @@
+import type { DiscordEmbed } from "@/lib/discord-webhooks";
+
+export interface DiscordMessage {
+  content?: string;
+  embeds?: DiscordEmbed[];
+}
+
+/**
+ * The slice of the Discord API the app uses. Swap the implementation with
+ * setDiscordClient to point notifications at a fake in tests.
+ */
+export interface DiscordClient {
+  sendDirectMessage(discordUserId: string, message: DiscordMessage): Promise<void>;
+}
+
+/**
+ * Talks to the Discord REST API as the configured bot. DMs only reach users
+ * who share a server with the bot and allow messages from server members.
+ */
+export class RestDiscordClient implements DiscordClient {
+  // DM channel ids never change for a bot/user pair, so open each one once
+  private dmChannels = new Map<string, string>();
+
+  constructor(
+    private botToken: string,
+    private baseUrl: string = "https://discord.com/api/v10"
+  ) {}
+
+  private async request(path: string, body: unknown) {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bot ${this.botToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Discord API ${path} failed with ${response.status}: ${await response.text()}`
+      );
+    }
+
+    return response.json();
+  }
+
+  private async getDmChannelId(discordUserId: string) {
+    const cached = this.dmChannels.get(discordUserId);
+    if (cached) return cached;
+
+    const channel = await this.request("/users/@me/channels", {
+      recipient_id: discordUserId,
+    });
+    this.dmChannels.set(discordUserId, channel.id);
+    return channel.id as string;
+  }
+
+  async sendDirectMessage(discordUserId: string, message: DiscordMessage) {
+    const channelId = await this.getDmChannelId(discordUserId);
+    await this.request(`/channels/${channelId}/messages`, message);
+  }
+}
+
+const globalForDiscord = globalThis as unknown as {
+  discordClient: DiscordClient | null | undefined;
+};
+
+/**
+ * Returns the Discord client, or null when DISCORD_BOT_TOKEN is not set and
+ * DMs are disabled
+ */
+export function getDiscordClient(): DiscordClient | null {
+  if (globalForDiscord.discordClient === undefined) {
+    const token = process.env.DISCORD_BOT_TOKEN;
+    globalForDiscord.discordClient = token
+      ? new RestDiscordClient(token, process.env.DISCORD_API_URL || undefined)
+      : null;
+  }
+
+  return globalForDiscord.discordClient;
+}
+
+// Replace the client, e.g. with a fake that records messages. Pass undefined
+// to go back to the configured one.
+export function setDiscordClient(client: DiscordClient | null | undefined) {
+  globalForDiscord.discordClient = client;
+}
@@ -0,0 +1,231 @@
+import { after, before, beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, IncomingMessage, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import {
+  DiscordWebhookEvent,
+  orderEmbed,
+  priceChangeEmbed,
+  priceChangesEmbed,
+  sendDiscordWebhook,
+} from "./discord-webhooks";
+
+// A stand-in for Discord: records every POST by path, and answers /down with
+// a 500
+let server: Server;
+let received: { path: string; body: any }[] = [];
+
+function readBody(request: IncomingMessage) {
+  return new Promise<string>((resolve) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => resolve(body));
+  });
+}
+
+before(async () => {
+  server = createServer(async (request, response) => {
+    received.push({
+      path: request.url ?? "",
+      body: JSON.parse(await readBody(request)),
+    });
+    response.statusCode = request.url === "/down" ? 500 : 204;
+    response.end();
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  process.env.NEXTAUTH_URL = "https://market.example.com/";
+  process.env.DISCORD_WEBHOOKS = JSON.stringify([
+    { name: "market", url: `${base}/market`, events: ["*"] },
+    { name: "prices", url: `${base}/prices`, events: ["price_changed"] },
+    { name: "down", url: `${base}/down`, events: ["order_created"] },
+    { name: "no events", url: `${base}/ignored` },
+  ]);
+});
+
+after(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  received = [];
+});
+
+// The single embed each webhook got, by path
+function embedsByPath() {
+  return Object.fromEntries(
+    received.map(({ path, body }) => {
+      assert.equal(body.embeds.length, 1);
+      return [path, body.embeds[0]];
+    })
+  );
+}
+
+const order = {
+  itemName: "iron",
+  tier: 3,
+  amount: 1000,
+  pricePerUnit: 2.5,
+  orderType: "BUY",
+};
+
+const ORDER_EVENTS: [DiscordWebhookEvent, number, string, string][] = [
+  ["order_created", 0x22c55e, "New order", "Posted by Alice"],
+  ["order_claimed", 0xeab308, "Order claimed", "Claimed by Bob"],
+  ["order_completed", 0x3b82f6, "Order completed", "Traded with Bob"],
+];
+
+for (const [event, color, title, description] of ORDER_EVENTS) {
+  test(`${event} posts an order embed to the webhooks subscribed to it`, async () => {
+    await sendDiscordWebhook(
+      event,
+      orderEmbed(title, order, { description, quantity: 250 })
+    );
+
+    const embeds = embedsByPath();
+    const expectedPaths =
+      event === "order_created" ? ["/down", "/market"] : ["/market"];
+    assert.deepEqual(Object.keys(embeds).sort(), expectedPaths);
+
+    const { timestamp, ...embed } = embeds["/market"];
+    assert.ok(!Number.isNaN(Date.parse(timestamp)));
+    assert.deepEqual(embed, {
+      color,
+      title: `${title}: T3 Iron`,
+      description,
+      url: "https://market.example.com/orders",
+      fields: [
+        { name: "Type", value: "BUY", inline: true },
+        { name: "Amount", value: "250x", inline: true },
+        { name: "Price/Unit", value: "2.5 HC", inline: true },
+      ],
+    });
+  });
+}
+
+test("price_changed posts a single change as its own embed", async () => {
+  await sendDiscordWebhook(
+    "price_changed",
+    priceChangesEmbed([
+      {
+        itemName: "iron",
+        tier: 3,
+        newPrice: 3,
+        previousPrice: 2.5,
+        changeType: "updated",
+      },
+    ])
+  );
+
+  const embeds = embedsByPath();
+  assert.deepEqual(Object.keys(embeds).sort(), ["/market", "/prices"]);
+
+  const { timestamp, ...embed } = embeds["/prices"];
+  assert.ok(!Number.isNaN(Date.parse(timestamp)));
+  assert.deepEqual(embed, {
+    color: 0xa855f7,
+    title: "Price updated: T3 Iron",
+    url: "https://market.example.com/pricing",
+    fields: [
+      { name: "Previous", value: "2.5 HC", inline: true },
+      { name: "New", value: "3 HC", inline: true },
+      { name: "Change", value: "+20.0%", inline: true },
+    ],
+  });
+});
+
+test("price_changed posts a whole save as one embed", async () => {
+  await sendDiscordWebhook(
+    "price_changed",
+    priceChangesEmbed([
+      {
+        itemName: "iron",
+        tier: 3,
+        newPrice: 2,
+        previousPrice: 2.5,
+        changeType: "updated",
+      },
+      { itemName: "wood", tier: 1, newPrice: 4, changeType: "created" },
+      {
+        itemName: "stone",
+        tier: 2,
+        newPrice: 0,
+        previousPrice: 1.5,
+        changeType: "deleted",
+      },
+    ])
+  );
+
+  assert.equal(received.length, 2);
+  const { timestamp, ...embed } = embedsByPath()["/prices"];
+  assert.ok(timestamp);
+  assert.deepEqual(embed, {
+    color: 0xa855f7,
+    title: "3 prices changed",
+    description: [
+      "T3 Iron: 2.5 → 2 HC (-20.0%)",
+      "T1 Wood: 4 HC (new)",
+      "T2 Stone: removed (was 1.5 HC)",
+    ].join("\n"),
+    url: "https://market.example.com/pricing",
+  });
+});
+
+test("a batched price embed stays within Discord's description limit", () => {
+  const changes = Array.from({ length: 500 }, (_, index) => ({
+    itemName: `item number ${index}`,
+    tier: 1,
+    newPrice: 2,
+    previousPrice: 1,
+    changeType: "updated" as const,
+  }));
+
+  const { title, description } = priceChangesEmbed(changes);
+  const lines = description!.split("\n");
+
+  assert.equal(title, "500 prices changed");
+  assert.ok(description!.length <= 4096);
+  assert.equal(
+    lines[lines.length - 1],
+    `…and ${500 - (lines.length - 1)} more`
+  );
+});
+
+test("deleted and new prices only show the side that exists", () => {
+  assert.deepEqual(
+    priceChangeEmbed({
+      itemName: "stone",
+      tier: 2,
+      newPrice: 0,
+      previousPrice: 1.5,
+      changeType: "deleted",
+    }).fields,
+    [{ name: "Previous", value: "1.5 HC", inline: true }]
+  );
+  assert.deepEqual(
+    priceChangeEmbed({
+      itemName: "wood",
+      tier: 1,
+      newPrice: 4,
+      changeType: "created",
+    }).fields,
+    [{ name: "New", value: "4 HC", inline: true }]
+  );
+});
+
+test("a failing webhook is logged, not thrown", async () => {
+  const errors: unknown[][] = [];
+  const originalError = console.error;
+  console.error = (...args: unknown[]) => errors.push(args);
+
+  try {
+    await sendDiscordWebhook("order_created", orderEmbed("New order", order));
+  } finally {
+    console.error = originalError;
+  }
+
+  assert.equal(received.length, 2);
+  assert.equal(errors.length, 1);
+  assert.match(String(errors[0][0]), /Discord webhook down returned 500/);
+});
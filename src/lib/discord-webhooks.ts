@@ -0,0 +1,274 @@
+// Events that can be posted to Discord channels
+export type DiscordWebhookEvent =
+  | "order_created"
+  | "order_claimed"
+  | "order_completed"
+  | "price_changed";
+
+/**
+ * One outgoing webhook, e.g. a #market channel that gets new orders and a
+ * #prices channel that gets price changes. "*" subscribes to every event.
+ */
+export interface DiscordWebhookConfig {
+  name?: string;
+  url: string;
+  events: (DiscordWebhookEvent | "*")[];
+}
+
+export interface DiscordEmbed {
+  title: string;
+  description?: string;
+  url?: string;
+  color?: number;
+  fields?: { name: string; value: string; inline?: boolean }[];
+  timestamp?: string;
+}
+
+const EVENT_COLORS: Record<DiscordWebhookEvent, number> = {
+  order_created: 0x22c55e,
+  order_claimed: 0xeab308,
+  order_completed: 0x3b82f6,
+  price_changed: 0xa855f7,
+};
+
+// Give up on a slow webhook rather than hold up the request that triggered it
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+let cachedConfigs: DiscordWebhookConfig[] | null = null;
+
+/**
+ * Reads the webhooks from DISCORD_WEBHOOKS, a JSON array of
+ * { name, url, events } objects. Invalid entries are skipped.
+ */
+export function getWebhookConfigs(): DiscordWebhookConfig[] {
+  if (cachedConfigs) return cachedConfigs;
+
+  cachedConfigs = [];
+  const raw = process.env.DISCORD_WEBHOOKS;
+  if (!raw) return cachedConfigs;
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      throw new Error("DISCORD_WEBHOOKS must be a JSON array");
+    }
+
+    cachedConfigs = parsed.filter(
+      (config: any): config is DiscordWebhookConfig =>
+        typeof config?.url === "string" && Array.isArray(config.events)
+    );
+
+    if (cachedConfigs.length < parsed.length) {
+      console.warn("Skipping Discord webhooks without a url or events list");
+    }
+  } catch (error) {
+    console.error("Invalid DISCORD_WEBHOOKS configuration:", error);
+  }
+
+  return cachedConfigs;
+}
+
+// Link back to the app from embeds when the public URL is known
+export function appUrl(path: string) {
+  const base = process.env.NEXTAUTH_URL;
+  return base ? `${base.replace(/\/$/, "")}${path}` : undefined;
+}
+
+/**
+ * Posts an embed to every webhook subscribed to the event. Failures are
+ * logged and never thrown, so Discord being down cannot break a trade.
+ */
+export async function sendDiscordWebhook(
+  event: DiscordWebhookEvent,
+  embed: DiscordEmbed
+) {
+  const webhooks = getWebhookConfigs().filter(
+    (config) => config.events.includes(event) || config.events.includes("*")
+  );
+
+  if (webhooks.length === 0) return;
+
+  const body = JSON.stringify({
+    embeds: [
+      {
+        color: EVENT_COLORS[event],
+        timestamp: new Date().toISOString(),
+        ...embed,
+      },
+    ],
+  });
+
+  await Promise.all(
+    webhooks.map(async (webhook) => {
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+
+      try {
+        const response = await fetch(webhook.url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body,
+          signal: controller.signal,
+        });
+
+        if (!response.ok) {
+          console.error(
+            `Discord webhook ${webhook.name || webhook.url} returned ${response.status}`
+          );
+        }
+      } catch (error) {
+        console.error(
+          `Failed to post Discord webhook ${webhook.name || webhook.url}:`,
+          error
+        );
+      } finally {
+        clearTimeout(timeout);
+      }
+    })
+  );
+}
+
+// Title-case item names the same way the UI does
+function formatItemName(itemName: string) {
+  return itemName.charAt(0).toUpperCase() + itemName.slice(1);
+}
+
+/**
+ * Builds the embed for an order event
+ */
+export function orderEmbed(
+  title: string,
+  order: {
+    itemName: string;
+    tier: number;
+    amount: number;
+    pricePerUnit?: number;
+    orderType: string;
+  },
+  details: { description?: string; quantity?: number } = {}
+): DiscordEmbed {
+  const quantity = details.quantity ?? order.amount;
+  const fields = [
+    { name: "Type", value: order.orderType, inline: true },
+    { name: "Amount", value: `${quantity.toLocaleString()}x`, inline: true },
+  ];
+
+  if (order.pricePerUnit !== undefined) {
+    fields.push({
+      name: "Price/Unit",
+      value: `${order.pricePerUnit} HC`,
+      inline: true,
+    });
+  }
+
+  return {
+    title: `${title}: T${order.tier} ${formatItemName(order.itemName)}`,
+    description: details.description,
+    url: appUrl("/orders"),
+    fields,
+  };
+}
+
+/**
+ * Builds the embed for a price change
+ */
+export function priceChangeEmbed({
+  itemName,
+  tier,
+  newPrice,
+  previousPrice,
+  changeType,
+}: {
+  itemName: string;
+  tier: number;
+  newPrice: number;
+  previousPrice?: number;
+  changeType: "created" | "updated" | "deleted";
+}): DiscordEmbed {
+  const fields = [];
+
+  if (previousPrice !== undefined) {
+    fields.push({ name: "Previous", value: `${previousPrice} HC`, inline: true });
+  }
+  if (changeType !== "deleted") {
+    fields.push({ name: "New", value: `${newPrice} HC`, inline: true });
+  }
+  if (changeType === "updated" && previousPrice) {
+    const percent = ((newPrice - previousPrice) / previousPrice) * 100;
+    fields.push({
+      name: "Change",
+      value: `${percent >= 0 ? "+" : ""}${percent.toFixed(1)}%`,
+      inline: true,
+    });
+  }
+
+  return {
+    title: `Price ${changeType}: T${tier} ${formatItemName(itemName)}`,
+    url: appUrl("/pricing"),
+    fields,
+  };
+}
+
+// Discord rejects embeds with a longer description
+const MAX_EMBED_DESCRIPTION_LENGTH = 4096;
+
+// "T3 Iron: 5 → 6 HC (+20.0%)" for one row of a batched price embed
+function describePriceChange({
+  itemName,
+  tier,
+  newPrice,
+  previousPrice,
+  changeType,
+}: {
+  itemName: string;
+  tier: number;
+  newPrice: number;
+  previousPrice?: number;
+  changeType: "created" | "updated" | "deleted";
+}) {
+  const name = `T${tier} ${formatItemName(itemName)}`;
+
+  if (changeType === "deleted") {
+    return `${name}: removed (was ${previousPrice} HC)`;
+  }
+  if (changeType === "created" || !previousPrice) {
+    return `${name}: ${newPrice} HC (new)`;
+  }
+
+  const percent = ((newPrice - previousPrice) / previousPrice) * 100;
+  return `${name}: ${previousPrice} → ${newPrice} HC (${
+    percent >= 0 ? "+" : ""
+  }${percent.toFixed(1)}%)`;
+}
+
+/**
+ * Builds one embed for the price changes of a single save, so a bulk edit
+ * posts once instead of once per row
+ */
+export function priceChangesEmbed(
+  changes: Parameters<typeof priceChangeEmbed>[0][]
+): DiscordEmbed {
+  if (changes.length === 1) {
+    return priceChangeEmbed(changes[0]);
+  }
+
+  // Leave room for a final "…and N more" line if the list gets cut short
+  const lines: string[] = [];
+  let length = 0;
+  for (let index = 0; index < changes.length; index++) {
+    const line = describePriceChange(changes[index]);
+    const more = `…and ${changes.length - index} more`;
+    if (length + line.length + more.length + 2 > MAX_EMBED_DESCRIPTION_LENGTH) {
+      lines.push(more);
+      break;
+    }
+    lines.push(line);
+    length += line.length + 1;
+  }
+
+  return {
+    title: `${changes.length} prices changed`,
+    description: lines.join("\n"),
+    url: appUrl("/pricing"),
+  };
+}
@@ -0,0 +1,228 @@
+import { prisma } from "@/lib/prisma";
+import { buildOrderBook } from "@/lib/order-book";
+
+// How far back completed trades count towards the market price (days)
+export const DEFAULT_LOOKBACK_DAYS = parseFloat(
+  process.env.MARKET_PRICE_LOOKBACK_DAYS || "14"
+);
+export const MAX_LOOKBACK_DAYS = 90;
+
+// Number of trades at which the market price gets half the weight of the
+// blend. Fewer trades lean on the reference price, more lean on the market.
+const HALF_CONFIDENCE_TRADES = 5;
+
+// Weight given to the open-order mid price when nothing has traded
+const QUOTE_ONLY_CONFIDENCE = 0.25;
+
+export interface MarketPriceSuggestion {
+  itemName: string;
+  tier: number;
+  // Blend of the reference and market prices, or null with no data at all
+  suggested: number | null;
+  referencePrice: number | null;
+  // Volume-weighted average price of completed trades in the window
+  marketPrice: number | null;
+  // 0-1 weight given to the market price
+  confidence: number;
+  sampleSize: number;
+  volume: number;
+  lookbackDays: number;
+}
+
+interface TradedFill {
+  amount: number;
+  order: { pricePerUnit: number };
+}
+
+function tradeConfidence(trades: number) {
+  return trades / (trades + HALF_CONFIDENCE_TRADES);
+}
+
+// Prices are entered with up to three decimals
+function roundPrice(price: number) {
+  return Math.round(price * 1000) / 1000;
+}
+
+function summarizeFills(fills: TradedFill[]) {
+  const volume = fills.reduce((sum, fill) => sum + fill.amount, 0);
+  const value = fills.reduce(
+    (sum, fill) => sum + fill.amount * fill.order.pricePerUnit,
+    0
+  );
+
+  return { volume, vwap: volume > 0 ? value / volume : null };
+}
+
+function lookbackStart(lookbackDays: number) {
+  return new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Suggests a price for an item and tier from the admin reference price and
+ * the volume-weighted average of fills completed in the lookback window.
+ */
+export async function getMarketPriceSuggestion(
+  itemName: string,
+  tier: number,
+  lookbackDays: number = DEFAULT_LOOKBACK_DAYS
+): Promise<MarketPriceSuggestion> {
+  const since = lookbackStart(lookbackDays);
+
+  const [pricing, fills] = await Promise.all([
+    prisma.pricing.findUnique({
+      where: { itemName_tier: { itemName, tier } },
+      select: { price: true },
+    }),
+    prisma.orderFill.findMany({
+      where: {
+        status: "FULFILLED",
+        fulfilledAt: { gte: since },
+        order: { itemName, tier },
+      },
+      select: {
+        amount: true,
+        order: { select: { pricePerUnit: true } },
+      },
+    }),
+  ]);
+
+  const { volume, vwap: marketPrice } = summarizeFills(fills);
+  const referencePrice = pricing?.price ?? null;
+  const confidence = marketPrice !== null ? tradeConfidence(fills.length) : 0;
+
+  const suggested =
+    marketPrice !== null && referencePrice !== null
+      ? referencePrice * (1 - confidence) + marketPrice * confidence
+      : marketPrice ?? referencePrice;
+
+  return {
+    itemName,
+    tier,
+    suggested: suggested !== null ? roundPrice(suggested) : null,
+    referencePrice,
+    marketPrice: marketPrice !== null ? roundPrice(marketPrice) : null,
+    confidence,
+    sampleSize: fills.length,
+    volume,
+    lookbackDays,
+  };
+}
+
+export interface ReferencePriceProposal {
+  itemName: string;
+  tier: number;
+  currentPrice: number;
+  proposedPrice: number;
+  changePercent: number;
+  marketPrice: number | null;
+  sampleSize: number;
+  volume: number;
+  bestBid: number | null;
+  bestAsk: number | null;
+  confidence: number;
+}
+
+/**
+ * Proposes a new reference price for every Pricing row with market data.
+ * Recent trades are the main signal, clamped into the current bid/ask spread
+ * so stale trades can't pull the price outside where people are quoting.
+ * With no trades the spread's mid price is used at a low weight. Rows whose
+ * proposal moves less than minChangePercent are left out.
+ */
+export async function proposeReferencePrices(
+  lookbackDays: number = DEFAULT_LOOKBACK_DAYS,
+  minChangePercent: number = 0.5
+): Promise<ReferencePriceProposal[]> {
+  const [pricing, fills, openOrders] = await Promise.all([
+    prisma.pricing.findMany({
+      orderBy: [{ itemName: "asc" }, { tier: "asc" }],
+    }),
+    prisma.orderFill.findMany({
+      where: {
+        status: "FULFILLED",
+        fulfilledAt: { gte: lookbackStart(lookbackDays) },
+      },
+      select: {
+        amount: true,
+        order: { select: { itemName: true, tier: true, pricePerUnit: true } },
+      },
+    }),
+    prisma.order.findMany({
+      where: { status: "OPEN" },
+      select: {
+        itemName: true,
+        tier: true,
+        orderType: true,
+        pricePerUnit: true,
+        amount: true,
+        claimedAmount: true,
+      },
+    }),
+  ]);
+
+  const fillsByKey = new Map<string, typeof fills>();
+  for (const fill of fills) {
+    const key = `${fill.order.itemName}-${fill.order.tier}`;
+    const keyFills = fillsByKey.get(key) || [];
+    keyFills.push(fill);
+    fillsByKey.set(key, keyFills);
+  }
+
+  const ordersByKey = new Map<string, typeof openOrders>();
+  for (const order of openOrders) {
+    const key = `${order.itemName}-${order.tier}`;
+    const keyOrders = ordersByKey.get(key) || [];
+    keyOrders.push(order);
+    ordersByKey.set(key, keyOrders);
+  }
+
+  const proposals: ReferencePriceProposal[] = [];
+
+  for (const row of pricing) {
+    const key = `${row.itemName}-${row.tier}`;
+    const rowFills = fillsByKey.get(key) || [];
+    const { volume, vwap } = summarizeFills(rowFills);
+    const book = buildOrderBook(ordersByKey.get(key) || []);
+
+    let marketPrice: number | null = null;
+    let confidence = 0;
+
+    if (vwap !== null) {
+      marketPrice = vwap;
+      if (book.bestBid !== null && book.bestAsk !== null) {
+        marketPrice = Math.min(Math.max(vwap, book.bestBid), book.bestAsk);
+      }
+      confidence = tradeConfidence(rowFills.length);
+    } else if (book.midPrice !== null) {
+      marketPrice = book.midPrice;
+      confidence = QUOTE_ONLY_CONFIDENCE;
+    }
+
+    if (marketPrice === null) continue;
+
+    const proposedPrice = roundPrice(
+      row.price * (1 - confidence) + marketPrice * confidence
+    );
+    const changePercent = ((proposedPrice - row.price) / row.price) * 100;
+
+    if (proposedPrice <= 0 || Math.abs(changePercent) < minChangePercent) {
+      continue;
+    }
+
+    proposals.push({
+      itemName: row.itemName,
+      tier: row.tier,
+      currentPrice: row.price,
+      proposedPrice,
+      changePercent,
+      marketPrice: roundPrice(marketPrice),
+      sampleSize: rowFills.length,
+      volume,
+      bestBid: book.bestBid,
+      bestAsk: book.bestAsk,
+      confidence,
+    });
+  }
+
+  return proposals;
+}
@@ -0,0 +1,203 @@
+import { Client } from "pg";
+import {
+  sendNotificationToUser,
+  broadcastNotification,
+  nextEventId,
+} from "@/app/api/notifications/stream/route";
+
+// A notification addressed to one user (by Discord ID) or to everyone. The
+// bus assigns the event id once at publish time so every instance uses the
+// same id and clients can resume with Last-Event-ID on any of them. A null id
+// means the bus couldn't assign one; such messages are delivered but never
+// replayed.
+export interface BusMessage {
+  eventId: number | null;
+  userId: string | null;
+  notification: any;
+}
+
+/**
+ * Carries notifications to every app instance. Each instance delivers what it
+ * receives to its own SSE connections, so publishers never need to know where
+ * a user is connected.
+ */
+export interface NotificationBus {
+  publish(message: Omit<BusMessage, "eventId">): Promise<void>;
+}
+
+// Deliver a message to the SSE connections held by this process
+function deliverLocally(message: BusMessage) {
+  if (message.userId) {
+    sendNotificationToUser(
+      message.userId,
+      message.notification,
+      message.eventId
+    );
+  } else {
+    broadcastNotification(message.notification, message.eventId);
+  }
+}
+
+/**
+ * Single-instance bus: publishing delivers straight to local connections
+ */
+class InProcessNotificationBus implements NotificationBus {
+  async publish(message: Omit<BusMessage, "eventId">) {
+    deliverLocally({ ...message, eventId: nextEventId() });
+  }
+}
+
+const PG_CHANNEL = "notification_bus";
+// Shared across instances so event ids never collide. Starts from the clock
+// so it sorts after ids handed out before it existed.
+const PG_EVENT_ID_SEQUENCE = "notification_bus_event_id";
+// Postgres rejects NOTIFY payloads of 8000 bytes or more
+const PG_MAX_PAYLOAD_BYTES = 7900;
+
+/**
+ * Multi-instance bus over Postgres LISTEN/NOTIFY on the app database. Every
+ * instance listens on the same channel, including the one that published.
+ */
+class PostgresNotificationBus implements NotificationBus {
+  // The connection in use or being opened, and its ready promise
+  private client: Client | null = null;
+  private connecting: Promise<Client> | null = null;
+
+  constructor(private connectionString: string) {
+    // Start listening straight away so this instance receives messages even
+    // if it never publishes
+    this.connect().catch(() => {});
+  }
+
+  private connect(): Promise<Client> {
+    if (this.connecting) return this.connecting;
+
+    const client = new Client({ connectionString: this.connectionString });
+    this.client = client;
+
+    this.connecting = (async () => {
+      client.on("notification", (msg) => {
+        if (msg.channel !== PG_CHANNEL || !msg.payload) return;
+        try {
+          deliverLocally(JSON.parse(msg.payload));
+        } catch (error) {
+          console.error("Failed to handle notification bus message:", error);
+        }
+      });
+
+      client.on("error", (error) => {
+        console.error("Notification bus connection error:", error);
+        this.reset(client);
+      });
+
+      client.on("end", () => this.reset(client));
+
+      try {
+        await client.connect();
+        await client.query(
+          `CREATE SEQUENCE IF NOT EXISTS ${PG_EVENT_ID_SEQUENCE} START WITH ${
+            Date.now() * 1000
+          }`
+        );
+        await client.query(`LISTEN ${PG_CHANNEL}`);
+      } catch (error) {
+        console.error("Failed to connect notification bus:", error);
+        this.reset(client);
+        throw error;
+      }
+
+      return client;
+    })();
+
+    return this.connecting;
+  }
+
+  // Drop a dead connection and reconnect after a short delay
+  private reset(client: Client) {
+    if (this.client !== client) return;
+
+    this.client = null;
+    this.connecting = null;
+    client.end().catch(() => {});
+
+    setTimeout(() => {
+      this.connect().catch(() => {});
+    }, 5000);
+  }
+
+  async publish(message: Omit<BusMessage, "eventId">) {
+    let client: Client;
+    let eventId: number;
+    try {
+      client = await this.connect();
+      const { rows } = await client.query<{ id: string }>(
+        `SELECT nextval('${PG_EVENT_ID_SEQUENCE}') AS id`
+      );
+      eventId = Number(rows[0].id);
+    } catch (error) {
+      // Better to reach this instance's users than nobody. A local id would
+      // sort against the sequence's by chance and make replays skip events.
+      console.error("Failed to publish to notification bus:", error);
+      deliverLocally({ ...message, eventId: null });
+      return;
+    }
+
+    const busMessage: BusMessage = { ...message, eventId };
+    const payload = JSON.stringify(busMessage);
+
+    if (Buffer.byteLength(payload) > PG_MAX_PAYLOAD_BYTES) {
+      console.warn(
+        "Notification too large for the bus, delivering to this instance only"
+      );
+      deliverLocally(busMessage);
+      return;
+    }
+
+    try {
+      await client.query("SELECT pg_notify($1, $2)", [PG_CHANNEL, payload]);
+    } catch (error) {
+      console.error("Failed to publish to notification bus:", error);
+      deliverLocally(busMessage);
+    }
+  }
+}
+
+// Keep one bus per process across hot reloads and route bundles
+const globalForBus = globalThis as unknown as {
+  notificationBus: NotificationBus | undefined;
+};
+
+/**
+ * Returns the configured bus. NOTIFICATION_BUS=postgres enables cross-instance
+ * delivery; anything else uses the in-process bus.
+ */
+export function getNotificationBus(): NotificationBus {
+  if (!globalForBus.notificationBus) {
+    const backend = process.env.NOTIFICATION_BUS || "memory";
+
+    if (backend === "postgres" && process.env.DATABASE_URL) {
+      globalForBus.notificationBus = new PostgresNotificationBus(
+        process.env.DATABASE_URL
+      );
+    } else {
+      if (backend === "postgres") {
+        console.warn(
+          "NOTIFICATION_BUS=postgres requires DATABASE_URL, using in-process bus"
+        );
+      }
+      globalForBus.notificationBus = new InProcessNotificationBus();
+    }
+  }
+
+  return globalForBus.notificationBus;
+}
+
+// Publish a notification to every connection of a user, on any instance
+export function publishToUser(userId: string, notification: any) {
+  return getNotificationBus().publish({ userId, notification });
+}
+
+// Publish a notification to every connected user, on any instance
+export function publishBroadcast(notification: any) {
+  return getNotificationBus().publish({ userId: null, notification });
+}
@@ -0,0 +1,121 @@
+// Per-event notification preferences, shared by the server (what to send) and
+// the client (what to show and play). Stored as JSON on the user; events or
+// channels missing from the stored value fall back to the defaults.
+
+export const NOTIFICATION_CHANNELS = [
+  "inApp",
+  "sound",
+  "push",
+  "discord",
+] as const;
+
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+export const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  inApp: "In-app",
+  sound: "Sound",
+  push: "Push",
+  discord: "Discord",
+};
+
+// Events users can configure, in the order they appear on the profile page
+export const PREFERENCE_EVENTS = [
+  { type: "order_claimed", label: "Order claimed" },
+  { type: "order_ready", label: "Order ready" },
+  { type: "order_completed", label: "Order completed" },
+  { type: "order_cancelled", label: "Claim cancelled" },
+  { type: "order_expired", label: "Order expired" },
+  { type: "claim_expired", label: "Claim timed out" },
+  { type: "claim_completed", label: "Your claim completed" },
+  { type: "order_modified_by_creator", label: "Claimed order edited" },
+  { type: "order_deleted_while_claimed", label: "Claimed order deleted" },
+  {
+    type: "order_cancelled_while_claimed",
+    label: "Claimed order cancelled",
+  },
+  { type: "order_disputed", label: "Trade disputed" },
+  { type: "dispute_resolved", label: "Dispute resolved" },
+  { type: "trade_confirmed", label: "Trade confirmed by other side" },
+  { type: "new_order_created", label: "New orders" },
+  { type: "order_match", label: "Matching orders" },
+  { type: "price_alert", label: "Price changes" },
+] as const;
+
+export type PreferenceEventType = (typeof PREFERENCE_EVENTS)[number]["type"];
+
+export type NotificationPreferences = Record<
+  string,
+  Record<NotificationChannel, boolean>
+>;
+
+const DEFAULT_CHANNELS: Record<NotificationChannel, boolean> = {
+  inApp: true,
+  sound: true,
+  push: true,
+  discord: true,
+};
+
+/**
+ * Builds the full matrix from a stored value, filling anything missing or
+ * malformed with the defaults
+ */
+export function resolvePreferences(stored: unknown): NotificationPreferences {
+  const source =
+    stored && typeof stored === "object" ? (stored as Record<string, any>) : {};
+  const preferences: NotificationPreferences = {};
+
+  PREFERENCE_EVENTS.forEach(({ type }) => {
+    const channels = { ...DEFAULT_CHANNELS };
+    const storedChannels = source[type];
+
+    if (storedChannels && typeof storedChannels === "object") {
+      NOTIFICATION_CHANNELS.forEach((channel) => {
+        if (typeof storedChannels[channel] === "boolean") {
+          channels[channel] = storedChannels[channel];
+        }
+      });
+    }
+
+    preferences[type] = channels;
+  });
+
+  return preferences;
+}
+
+/**
+ * Validates a preferences object sent by the client. Returns the cleaned
+ * matrix, or null if it has unknown events or non-boolean values.
+ */
+export function parsePreferences(input: unknown): NotificationPreferences | null {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return null;
+  }
+
+  const knownTypes = PREFERENCE_EVENTS.map(({ type }) => type as string);
+
+  for (const [type, channels] of Object.entries(input)) {
+    if (!knownTypes.includes(type)) return null;
+    if (!channels || typeof channels !== "object") return null;
+
+    for (const [channel, enabled] of Object.entries(channels)) {
+      if (!(NOTIFICATION_CHANNELS as readonly string[]).includes(channel)) {
+        return null;
+      }
+      if (typeof enabled !== "boolean") return null;
+    }
+  }
+
+  return resolvePreferences(input);
+}
+
+/**
+ * Whether a notification type should be delivered on a channel. Types
+ * without a preference row are always delivered.
+ */
+export function isChannelEnabled(
+  preferences: NotificationPreferences,
+  type: string,
+  channel: NotificationChannel
+) {
+  return preferences[type]?.[channel] ?? true;
+}
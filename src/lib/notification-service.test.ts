@@ -0,0 +1,221 @@
+import { before, beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import webpush from "web-push";
+import type { DiscordClient, DiscordMessage } from "./discord-client";
+import type { BusMessage } from "./notification-bus";
+import type { OrderNotificationPayload } from "./notification-service";
+
+// deliver() is exercised against in-memory stand-ins: the Prisma client, the
+// notification bus and the SSE connection map are all read from globalThis
+// when their modules load, so they are put in place before the first import.
+
+const users = new Map<string, any>();
+const inbox: any[] = [];
+const pushLookups: string[] = [];
+const published: Omit<BusMessage, "eventId">[] = [];
+const connections = new Map<string, Set<unknown>>();
+
+Object.assign(globalThis, {
+  prisma: {
+    user: {
+      findUnique: async ({ where }: any) => users.get(where.discordId) ?? null,
+    },
+    notification: {
+      create: async ({ data }: any) => {
+        inbox.push(data);
+        return { id: `notification-${inbox.length}`, createdAt: new Date() };
+      },
+    },
+    pushSubscription: {
+      findMany: async ({ where }: any) => {
+        pushLookups.push(where.userId);
+        return [];
+      },
+    },
+  },
+  notificationBus: {
+    publish: async (message: Omit<BusMessage, "eventId">) => {
+      published.push(message);
+    },
+  },
+  sseConnections: connections,
+});
+
+// Push only reaches the subscription lookup once VAPID keys are set
+const vapidKeys = webpush.generateVAPIDKeys();
+process.env.VAPID_PUBLIC_KEY = vapidKeys.publicKey;
+process.env.VAPID_PRIVATE_KEY = vapidKeys.privateKey;
+process.env.VAPID_SUBJECT = "mailto:admin@example.com";
+
+let NotificationService: typeof import("./notification-service").NotificationService;
+let setDiscordClient: typeof import("./discord-client").setDiscordClient;
+
+const dms: { discordUserId: string; message: DiscordMessage }[] = [];
+const fakeDiscord: DiscordClient = {
+  sendDirectMessage: async (discordUserId, message) => {
+    dms.push({ discordUserId, message });
+  },
+};
+
+before(async () => {
+  ({ NotificationService } = await import("./notification-service"));
+  ({ setDiscordClient } = await import("./discord-client"));
+});
+
+beforeEach(() => {
+  users.clear();
+  connections.clear();
+  inbox.length = 0;
+  pushLookups.length = 0;
+  published.length = 0;
+  dms.length = 0;
+  setDiscordClient(fakeDiscord);
+});
+
+function addUser(
+  discordId: string,
+  settings: {
+    notificationsEnabled?: boolean;
+    discordDmEnabled?: boolean;
+    notificationPreferences?: unknown;
+  } = {}
+) {
+  users.set(discordId, {
+    id: `db-${discordId}`,
+    notificationsEnabled: true,
+    discordDmEnabled: true,
+    notificationPreferences: null,
+    ...settings,
+  });
+}
+
+function payload(notificationType = "order_claimed"): OrderNotificationPayload {
+  return {
+    notificationType,
+    orderId: "order-1",
+    title: "Order Claimed",
+    message: "Bob claimed your order",
+    orderDetails: {
+      itemName: "iron",
+      tier: 3,
+      amount: 100,
+      orderType: "BUY",
+    },
+  };
+}
+
+// Which channels a delivery went out on
+function channels() {
+  return {
+    inbox: inbox.length,
+    live: published.length,
+    push: pushLookups.length,
+    dm: dms.length,
+  };
+}
+
+test("opted-in users with no live connection get a Discord DM", async () => {
+  addUser("alice");
+
+  await NotificationService.deliver("alice", payload());
+
+  assert.deepEqual(channels(), { inbox: 1, live: 1, push: 1, dm: 1 });
+  assert.equal(dms[0].discordUserId, "alice");
+  assert.equal(dms[0].message.embeds?.[0].title, "Order Claimed");
+  assert.equal(
+    dms[0].message.embeds?.[0].description,
+    "Bob claimed your order"
+  );
+  assert.equal(published[0].userId, "alice");
+  assert.equal(inbox[0].userId, "db-alice");
+  assert.equal(pushLookups[0], "db-alice");
+});
+
+test("users on the site get the live notification instead of a DM", async () => {
+  addUser("alice");
+  connections.set("alice", new Set([{}]));
+
+  await NotificationService.deliver("alice", payload());
+
+  assert.deepEqual(channels(), { inbox: 1, live: 1, push: 1, dm: 0 });
+});
+
+test("users who turned Discord DMs off get none", async () => {
+  addUser("alice", { discordDmEnabled: false });
+
+  await NotificationService.deliver("alice", payload());
+
+  assert.deepEqual(channels(), { inbox: 1, live: 1, push: 1, dm: 0 });
+});
+
+test("turning notifications off stops DMs and push but keeps the inbox", async () => {
+  addUser("alice", { notificationsEnabled: false });
+
+  await NotificationService.deliver("alice", payload());
+
+  assert.deepEqual(channels(), { inbox: 1, live: 1, push: 0, dm: 0 });
+});
+
+test("preferences switch channels off for one event only", async () => {
+  addUser("alice", {
+    notificationPreferences: {
+      order_claimed: { inApp: false, discord: false },
+    },
+  });
+
+  await NotificationService.deliver("alice", payload("order_claimed"));
+  assert.deepEqual(channels(), { inbox: 0, live: 0, push: 1, dm: 0 });
+
+  await NotificationService.deliver("alice", payload("order_ready"));
+  assert.deepEqual(channels(), { inbox: 1, live: 1, push: 2, dm: 1 });
+});
+
+test("a push-only preference still reaches the browser", async () => {
+  addUser("alice", {
+    notificationPreferences: {
+      order_claimed: { inApp: false, push: true, discord: false },
+    },
+  });
+
+  await NotificationService.deliver("alice", payload());
+
+  assert.deepEqual(channels(), { inbox: 0, live: 0, push: 1, dm: 0 });
+});
+
+test("unknown users still get the live notification, nothing else", async () => {
+  await NotificationService.deliver("stranger", payload());
+
+  assert.deepEqual(channels(), { inbox: 0, live: 1, push: 0, dm: 0 });
+});
+
+test("without a bot token there is no DM", async () => {
+  addUser("alice");
+  setDiscordClient(null);
+
+  await NotificationService.deliver("alice", payload());
+
+  assert.deepEqual(channels(), { inbox: 1, live: 1, push: 1, dm: 0 });
+});
+
+test("a failing DM is logged, not thrown", async () => {
+  addUser("alice");
+  setDiscordClient({
+    sendDirectMessage: async () => {
+      throw new Error("Cannot send messages to this user");
+    },
+  });
+
+  const errors: unknown[][] = [];
+  const originalError = console.error;
+  console.error = (...args: unknown[]) => errors.push(args);
+
+  try {
+    await NotificationService.deliver("alice", payload());
+  } finally {
+    console.error = originalError;
+  }
+
+  assert.equal(inbox.length, 1);
+  assert.equal(errors.length, 1);
+  assert.match(String(errors[0][0]), /Failed to send Discord DM/);
+});
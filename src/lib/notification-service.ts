@@ -1,5 +1,18 @@
+import { OrderType, PriceAlertType, Prisma } from "@prisma/client";
 import { prisma } from "./prisma";
-import { sendNotificationToUser } from "@/app/api/notifications/stream/route";
+import { publishToUser, publishBroadcast } from "./notification-bus";
+import { getLatestStatusChange, OrderEventChanges } from "./order-events";
+import { orderListSelect } from "./order-fills";
+import {
+  DisputeResolution,
+  getTransitionNotification,
+} from "./order-transitions";
+import { appUrl, orderEmbed, sendDiscordWebhook } from "./discord-webhooks";
+import { getDiscordClient } from "./discord-client";
+import { sendWebPush } from "./web-push";
+import { isChannelEnabled, resolvePreferences } from "./notification-preferences";
+import { findWatchersForOrder } from "./watchlist";
+import { hasActiveConnection } from "@/app/api/notifications/stream/route";
 
 export interface OrderChangeEvent {
   orderId: string;
@@ -18,9 +31,241 @@ export interface OrderChangeEvent {
     name: string | null;
     inGameName: string | null;
   } | null;
+  // The claimed slice of the order this change applies to, if any
+  fill?: {
+    id: string;
+    amount: number;
+  } | null;
+}
+
+// What gets stored in the inbox and pushed over SSE for a single recipient
+export interface OrderNotificationPayload {
+  notificationType: string;
+  // Null for notifications not tied to an order, such as price alerts
+  orderId: string | null;
+  title: string;
+  message: string;
+  orderDetails: OrderChangeEvent["orderDetails"] | null;
+  claimer?: OrderChangeEvent["claimer"];
+  fill?: OrderChangeEvent["fill"];
+  // Field changes behind the notification, e.g. a creator's edit
+  changes?: OrderEventChanges;
+}
+
+// Live order book events sent to everyone viewing the board
+export type OrderBookEventType =
+  | "order_created"
+  | "order_updated"
+  | "order_deleted";
+
+// A claim together with the claimer who should hear about changes to it
+export interface ClaimedFill {
+  id: string;
+  amount: number;
+  status: string;
+  claimer: {
+    id: string;
+    discordId: string | null;
+    name: string | null;
+    inGameName: string | null;
+  };
+}
+
+interface MatchedOrder {
+  id: string;
+  itemName: string;
+  tier: number;
+  amount: number;
+  orderType: string;
+  creator: {
+    discordId: string | null;
+    discordName: string | null;
+    inGameName: string | null;
+  };
+}
+
+interface OrderSummary {
+  id: string;
+  itemName: string;
+  tier: number;
+  amount: number;
+  orderType: string;
+}
+
+export interface FillSnapshot {
+  id: string;
+  amount: number;
+  claimerId: string;
+}
+
+// "5000x" for whole-order changes, "1000 of 5000x" for partial fills
+function describeQuantity(
+  orderDetails: OrderChangeEvent["orderDetails"],
+  fill?: OrderChangeEvent["fill"]
+) {
+  if (fill && fill.amount < orderDetails.amount) {
+    return `${fill.amount} of ${orderDetails.amount}x`;
+  }
+  return `${orderDetails.amount}x`;
+}
+
+const CHANGE_LABELS: Record<string, string> = {
+  tier: "tier",
+  pricePerUnit: "price",
+  amount: "amount",
+  orderType: "type",
+};
+
+// "price 5 → 6 HC, amount 100 → 200" for the fields a claimer cares about
+function describeChanges(changes: OrderEventChanges) {
+  return Object.keys(changes)
+    .filter((field) => CHANGE_LABELS[field])
+    .map((field) => {
+      const { from, to } = changes[field];
+      if (field === "tier") return `tier T${from} → T${to}`;
+      if (field === "pricePerUnit") return `price ${from} → ${to} HC`;
+      return `${CHANGE_LABELS[field]} ${from} → ${to}`;
+    })
+    .join(", ");
+}
+
+function toOrderDetails(order: OrderSummary): OrderChangeEvent["orderDetails"] {
+  return {
+    itemName: order.itemName,
+    tier: order.tier,
+    amount: order.amount,
+    orderType: order.orderType,
+  };
+}
+
+function toClaimer(fill: ClaimedFill): OrderChangeEvent["claimer"] {
+  return {
+    id: fill.claimer.id,
+    name: fill.claimer.name,
+    inGameName: fill.claimer.inGameName,
+  };
 }
 
 export class NotificationService {
+  // Persist a notification to the user's inbox, then push it to the user's open SSE connections on every instance.
+  // Each channel is skipped when the user turned it off for this notification type.
+  static async deliver(discordId: string, payload: OrderNotificationPayload) {
+    let notificationId: string | null = null;
+    let timestamp = new Date();
+    let sendInApp = true;
+    let sendDm = false;
+    let pushUserId: string | null = null;
+
+    try {
+      const user = await prisma.user.findUnique({
+        where: { discordId },
+        select: {
+          id: true,
+          notificationsEnabled: true,
+          discordDmEnabled: true,
+          notificationPreferences: true,
+        },
+      });
+
+      if (user) {
+        const preferences = resolvePreferences(user.notificationPreferences);
+        const type = payload.notificationType;
+
+        sendInApp = isChannelEnabled(preferences, type, "inApp");
+        sendDm =
+          user.notificationsEnabled &&
+          user.discordDmEnabled &&
+          isChannelEnabled(preferences, type, "discord");
+        pushUserId =
+          user.notificationsEnabled &&
+          isChannelEnabled(preferences, type, "push")
+            ? user.id
+            : null;
+
+        if (sendInApp) {
+          const record = await prisma.notification.create({
+            data: {
+              userId: user.id,
+              type,
+              title: payload.title,
+              message: payload.message,
+              orderId: payload.orderId,
+              data: {
+                orderDetails: payload.orderDetails,
+                claimer: payload.claimer ?? null,
+                fill: payload.fill ?? null,
+                changes: (payload.changes as Prisma.InputJsonValue) ?? null,
+              },
+            },
+          });
+          notificationId = record.id;
+          timestamp = record.createdAt;
+        }
+      }
+    } catch (error) {
+      // Still push live so online users are not affected by a failed write
+      console.error("Failed to persist notification:", error);
+    }
+
+    if (sendInApp) {
+      await publishToUser(discordId, {
+        type: "order_notification",
+        notificationId,
+        ...payload,
+        timestamp: timestamp.toISOString(),
+      });
+    }
+
+    // Browsers with a push subscription show it even when the site is closed;
+    // the service worker skips it while a tab is visible
+    if (pushUserId) {
+      try {
+        await sendWebPush(pushUserId, {
+          title: payload.title,
+          message: payload.message,
+          type: payload.notificationType,
+          orderId: payload.orderId ?? undefined,
+          url: payload.orderId ? "/orders" : "/pricing",
+        });
+      } catch (error) {
+        console.error("Failed to send push notification:", error);
+      }
+    }
+
+    // Users who opted in get a Discord DM when they are not on the site.
+    // Presence is per instance, so with several replicas a user connected
+    // elsewhere may get both.
+    if (sendDm && !hasActiveConnection(discordId)) {
+      await this.sendDirectMessage(discordId, payload);
+    }
+  }
+
+  // Send a notification as a Discord DM from the bot, if one is configured
+  static async sendDirectMessage(
+    discordId: string,
+    payload: OrderNotificationPayload
+  ) {
+    const client = getDiscordClient();
+    if (!client) {
+      return;
+    }
+
+    try {
+      await client.sendDirectMessage(discordId, {
+        embeds: [
+          {
+            title: payload.title,
+            description: payload.message,
+            url: appUrl("/orders"),
+            timestamp: new Date().toISOString(),
+          },
+        ],
+      });
+    } catch (error) {
+      console.error("Failed to send Discord DM:", error);
+    }
+  }
+
   static async notifyOrderStatusChange(orderChangeEvent: OrderChangeEvent) {
     const {
       orderId,
@@ -29,6 +274,7 @@ export class NotificationService {
       creatorId,
       orderDetails,
       claimer,
+      fill,
     } = orderChangeEvent;
 
     // Only notify the order creator
@@ -36,96 +282,594 @@ export class NotificationService {
       return;
     }
 
-    let notificationType: string;
-    let title: string;
-    let message: string;
-
-    // Determine notification type based on status transition
-    switch (newStatus) {
-      case "IN_PROGRESS":
-        if (previousStatus === "OPEN") {
-          notificationType = "order_claimed";
-          const claimerName = claimer?.inGameName || claimer?.name || "Someone";
-          title = "Order Claimed";
-          message = `${claimerName} claimed your ${orderDetails.orderType.toLowerCase()} order for ${
-            orderDetails.amount
-          }x ${orderDetails.itemName} (T${orderDetails.tier})`;
-        } else {
-          return; // Don't notify for other transitions to IN_PROGRESS
-        }
-        break;
-
-      case "READY_TO_TRADE":
-        if (previousStatus === "IN_PROGRESS") {
-          notificationType = "order_ready";
-          title = "Order Ready";
-          message = `Your ${orderDetails.orderType.toLowerCase()} order for ${
-            orderDetails.amount
-          }x ${orderDetails.itemName} (T${
-            orderDetails.tier
-          }) is ready for pickup`;
-        } else if (previousStatus === "OPEN") {
-          // Handle SELL orders that go directly from OPEN to READY_TO_TRADE
-          notificationType = "order_claimed";
-          const claimerName = claimer?.inGameName || claimer?.name || "Someone";
-          title = "Order Claimed & Ready";
-          message = `${claimerName} claimed your ${orderDetails.orderType.toLowerCase()} order for ${
-            orderDetails.amount
-          }x ${orderDetails.itemName} (T${orderDetails.tier}) and it's ready for pickup`;
-        } else {
-          return;
-        }
-        break;
-
-      case "OPEN":
-        if (["IN_PROGRESS", "READY_TO_TRADE"].includes(previousStatus)) {
-          notificationType = "order_cancelled";
-          title = "Order Cancelled";
-          message = `Your ${orderDetails.orderType.toLowerCase()} order for ${
-            orderDetails.amount
-          }x ${orderDetails.itemName} (T${orderDetails.tier}) was cancelled`;
-        } else {
-          return;
-        }
-        break;
-
-      case "FULFILLED":
-        // Notify when order is completed
-        if (["IN_PROGRESS", "READY_TO_TRADE"].includes(previousStatus)) {
-          notificationType = "order_completed";
-          title = "Order Completed";
-          message = `Your ${orderDetails.orderType.toLowerCase()} order for ${
-            orderDetails.amount
-          }x ${orderDetails.itemName} (T${orderDetails.tier}) has been completed`;
-        } else {
-          return;
-        }
-        break;
-
-      default:
-        return;
+    // Only moves the transition table attaches a notification to are announced
+    const notification = getTransitionNotification(previousStatus, newStatus);
+    if (!notification) {
+      return;
     }
 
-    // Send SSE notification to the creator
-    const notification = {
-      type: "order_notification",
+    const notificationType = notification.type;
+    const title = notification.title;
+    const quantity = describeQuantity(orderDetails, fill);
+    const message = notification.message
+      .replace("{claimer}", claimer?.inGameName || claimer?.name || "Someone")
+      .replace(
+        "{order}",
+        `${orderDetails.orderType.toLowerCase()} order for ${quantity} ${
+          orderDetails.itemName
+        } (T${orderDetails.tier})`
+      );
+
+    // Store and send the notification to the creator
+    await this.deliver(creatorId, {
       notificationType,
       orderId,
       title,
       message,
       orderDetails,
       claimer,
-      timestamp: new Date().toISOString(),
+      fill,
+    });
+
+    // Claims and completions are also announced in the Discord channels
+    if (
+      notificationType === "order_claimed" ||
+      notificationType === "order_completed"
+    ) {
+      const claimerName = claimer?.inGameName || claimer?.name || "Someone";
+      await sendDiscordWebhook(
+        notificationType,
+        orderEmbed(
+          notificationType === "order_claimed" ? "Order claimed" : "Order completed",
+          orderDetails,
+          {
+            description:
+              notificationType === "order_claimed"
+                ? `Claimed by ${claimerName}`
+                : `Traded with ${claimerName}`,
+            quantity: fill?.amount,
+          }
+        )
+      );
+    }
+  }
+
+  // Notify the creator that the unclaimed part of their order expired
+  static async notifyOrderExpired(
+    order: {
+      id: string;
+      itemName: string;
+      tier: number;
+      amount: number;
+      orderType: string;
+      creator: { discordId: string | null };
+    },
+    expiredAmount: number
+  ) {
+    if (!order.creator.discordId) {
+      return;
+    }
+
+    const orderDetails = {
+      itemName: order.itemName,
+      tier: order.tier,
+      amount: order.amount,
+      orderType: order.orderType,
+    };
+    const quantity =
+      expiredAmount < order.amount
+        ? `the unclaimed ${expiredAmount} of ${order.amount}x`
+        : `${order.amount}x`;
+
+    await this.deliver(order.creator.discordId, {
+      notificationType: "order_expired",
+      orderId: order.id,
+      title: "Order Expired",
+      message: `Your ${order.orderType.toLowerCase()} order for ${quantity} ${
+        order.itemName
+      } (T${order.tier}) has expired`,
+      orderDetails,
+      claimer: null,
+    });
+  }
+
+  // Notify both parties that a claim was released after sitting in progress too long
+  static async notifyClaimExpired(
+    order: {
+      id: string;
+      itemName: string;
+      tier: number;
+      amount: number;
+      orderType: string;
+      creator: { discordId: string | null };
+    },
+    fill: {
+      id: string;
+      amount: number;
+      claimer: {
+        id: string;
+        discordId: string | null;
+        name: string | null;
+        inGameName: string | null;
+      };
+    }
+  ) {
+    const orderDetails = {
+      itemName: order.itemName,
+      tier: order.tier,
+      amount: order.amount,
+      orderType: order.orderType,
+    };
+    const quantity = describeQuantity(orderDetails, fill);
+    const claimerName =
+      fill.claimer.inGameName || fill.claimer.name || "Someone";
+    const claimer = {
+      id: fill.claimer.id,
+      name: fill.claimer.name,
+      inGameName: fill.claimer.inGameName,
     };
+    if (order.creator.discordId) {
+      await this.deliver(order.creator.discordId, {
+        notificationType: "claim_expired",
+        orderId: order.id,
+        title: "Claim Released",
+        message: `${claimerName}'s claim on your ${order.orderType.toLowerCase()} order for ${quantity} ${
+          order.itemName
+        } (T${order.tier}) timed out and is open again`,
+        orderDetails,
+        claimer,
+        fill: { id: fill.id, amount: fill.amount },
+      });
+    }
 
-    sendNotificationToUser(creatorId, notification);
+    if (fill.claimer.discordId) {
+      await this.deliver(fill.claimer.discordId, {
+        notificationType: "claim_expired",
+        orderId: order.id,
+        title: "Claim Released",
+        message: `Your claim on ${quantity} ${order.itemName} (T${order.tier}) timed out and was released`,
+        orderDetails,
+        claimer,
+        fill: { id: fill.id, amount: fill.amount },
+      });
+    }
+  }
+
+  // Tell everyone holding an active claim that the creator changed the order
+  // under them, with what changed
+  static async notifyOrderModified(
+    order: OrderSummary,
+    fills: ClaimedFill[],
+    changes: OrderEventChanges
+  ) {
+    const summary = describeChanges(changes);
+    if (!summary) {
+      return;
+    }
+
+    const orderDetails = toOrderDetails(order);
+
+    for (const fill of fills) {
+      if (!fill.claimer.discordId) continue;
+
+      try {
+        await this.deliver(fill.claimer.discordId, {
+          notificationType: "order_modified_by_creator",
+          orderId: order.id,
+          title: "Claimed Order Changed",
+          message: `The ${order.orderType.toLowerCase()} order for ${order.itemName} (T${
+            order.tier
+          }) you claimed ${fill.amount}x of was edited: ${summary}`,
+          orderDetails,
+          claimer: toClaimer(fill),
+          fill: { id: fill.id, amount: fill.amount },
+          changes,
+        });
+      } catch (error) {
+        console.error("Failed to notify claimer of order edit:", error);
+      }
+    }
+  }
+
+  // Tell everyone holding an active claim that the order was deleted
+  static async notifyOrderDeleted(order: OrderSummary, fills: ClaimedFill[]) {
+    const orderDetails = toOrderDetails(order);
+
+    for (const fill of fills) {
+      if (!fill.claimer.discordId) continue;
+
+      try {
+        await this.deliver(fill.claimer.discordId, {
+          notificationType: "order_deleted_while_claimed",
+          orderId: order.id,
+          title: "Claimed Order Deleted",
+          message: `The ${order.orderType.toLowerCase()} order for ${order.itemName} (T${
+            order.tier
+          }) you claimed ${fill.amount}x of was deleted`,
+          orderDetails,
+          claimer: toClaimer(fill),
+          fill: { id: fill.id, amount: fill.amount },
+        });
+      } catch (error) {
+        console.error("Failed to notify claimer of order deletion:", error);
+      }
+    }
+  }
+
+  // Tell everyone holding an active claim that the creator cancelled the
+  // order, and why
+  static async notifyOrderCancelled(
+    order: OrderSummary,
+    fills: ClaimedFill[],
+    reason: string
+  ) {
+    const orderDetails = toOrderDetails(order);
+
+    for (const fill of fills) {
+      if (!fill.claimer.discordId) continue;
+
+      try {
+        await this.deliver(fill.claimer.discordId, {
+          notificationType: "order_cancelled_while_claimed",
+          orderId: order.id,
+          title: "Claimed Order Cancelled",
+          message: `The ${order.orderType.toLowerCase()} order for ${order.itemName} (T${
+            order.tier
+          }) you claimed ${fill.amount}x of was cancelled: ${reason}`,
+          orderDetails,
+          claimer: toClaimer(fill),
+          fill: { id: fill.id, amount: fill.amount },
+        });
+      } catch (error) {
+        console.error("Failed to notify claimer of order cancellation:", error);
+      }
+    }
+  }
+
+  // Tell the other side of a trade and every admin that it was disputed
+  static async notifyOrderDisputed(
+    order: OrderSummary & { creator: { discordId: string | null } },
+    fill: ClaimedFill,
+    { raisedByCreator, reason }: { raisedByCreator: boolean; reason: string }
+  ) {
+    const orderDetails = toOrderDetails(order);
+    const quantity = describeQuantity(orderDetails, fill);
+    const payload = {
+      notificationType: "order_disputed",
+      orderId: order.id,
+      title: "Trade Disputed",
+      orderDetails,
+      claimer: toClaimer(fill),
+      fill: { id: fill.id, amount: fill.amount },
+    };
+
+    try {
+      const otherParty = raisedByCreator
+        ? fill.claimer.discordId
+        : order.creator.discordId;
+      if (otherParty) {
+        await this.deliver(otherParty, {
+          ...payload,
+          message: `The trade for ${quantity} ${order.itemName} (T${
+            order.tier
+          }) was disputed and is waiting for an admin: ${reason}`,
+        });
+      }
+
+      const admins = await prisma.user.findMany({
+        where: { isAdmin: true, discordId: { not: null } },
+        select: { discordId: true },
+      });
+      for (const admin of admins) {
+        await this.deliver(admin.discordId!, {
+          ...payload,
+          message: `A ${order.orderType.toLowerCase()} order for ${quantity} ${
+            order.itemName
+          } (T${order.tier}) needs resolving: ${reason}`,
+        });
+      }
+    } catch (error) {
+      console.error("Failed to notify dispute:", error);
+    }
+  }
+
+  // Tell both sides of a disputed trade how an admin resolved it
+  static async notifyDisputeResolved(
+    order: OrderSummary & { creator: { discordId: string | null } },
+    fill: ClaimedFill,
+    { resolution, note }: { resolution: DisputeResolution; note?: string }
+  ) {
+    const orderDetails = toOrderDetails(order);
+    const outcome = {
+      complete: "marked as completed",
+      release: "released back to the order",
+      resume: "reopened for trading",
+    }[resolution];
+    const message = `The disputed trade for ${describeQuantity(
+      orderDetails,
+      fill
+    )} ${order.itemName} (T${order.tier}) was ${outcome}${
+      note ? `: ${note}` : ""
+    }`;
+
+    for (const discordId of [order.creator.discordId, fill.claimer.discordId]) {
+      if (!discordId) continue;
+
+      try {
+        await this.deliver(discordId, {
+          notificationType: "dispute_resolved",
+          orderId: order.id,
+          title: "Dispute Resolved",
+          message,
+          orderDetails,
+          claimer: toClaimer(fill),
+          fill: { id: fill.id, amount: fill.amount },
+        });
+      } catch (error) {
+        console.error("Failed to notify dispute resolution:", error);
+      }
+    }
+  }
+
+  // Tell the other side of a trade that needs two-sided confirmation that
+  // one side has confirmed it
+  static async notifyTradeConfirmed(
+    order: OrderSummary & { creator: { discordId: string | null } },
+    fill: ClaimedFill,
+    { confirmedByCreator }: { confirmedByCreator: boolean }
+  ) {
+    const otherParty = confirmedByCreator
+      ? fill.claimer.discordId
+      : order.creator.discordId;
+    if (!otherParty) {
+      return;
+    }
+
+    const orderDetails = toOrderDetails(order);
+
+    try {
+      await this.deliver(otherParty, {
+        notificationType: "trade_confirmed",
+        orderId: order.id,
+        title: "Trade Confirmed",
+        message: `The other side confirmed the trade for ${describeQuantity(
+          orderDetails,
+          fill
+        )} ${order.itemName} (T${order.tier}). Confirm it too to complete it`,
+        orderDetails,
+        claimer: toClaimer(fill),
+        fill: { id: fill.id, amount: fill.amount },
+      });
+    } catch (error) {
+      console.error("Failed to notify trade confirmation:", error);
+    }
+  }
+
+  // Tell both sides that a half-confirmed trade was completed once the
+  // confirmation window ran out
+  static async notifyConfirmationTimedOut(
+    order: OrderSummary & { creator: { discordId: string | null } },
+    fill: ClaimedFill
+  ) {
+    const orderDetails = toOrderDetails(order);
+    const message = `The trade for ${describeQuantity(orderDetails, fill)} ${
+      order.itemName
+    } (T${order.tier}) was completed after the other side didn't confirm in time`;
+
+    for (const discordId of [order.creator.discordId, fill.claimer.discordId]) {
+      if (!discordId) continue;
+
+      try {
+        await this.deliver(discordId, {
+          notificationType: "order_completed",
+          orderId: order.id,
+          title: "Trade Completed",
+          message,
+          orderDetails,
+          claimer: toClaimer(fill),
+          fill: { id: fill.id, amount: fill.amount },
+        });
+      } catch (error) {
+        console.error("Failed to notify confirmation timeout:", error);
+      }
+    }
+  }
+
+  // Tell the claimer that the creator marked their claim as traded
+  static async notifyClaimCompleted(order: OrderSummary, fill: ClaimedFill) {
+    if (!fill.claimer.discordId) {
+      return;
+    }
+
+    const orderDetails = toOrderDetails(order);
+
+    try {
+      await this.deliver(fill.claimer.discordId, {
+        notificationType: "claim_completed",
+        orderId: order.id,
+        title: "Trade Completed",
+        message: `Your claim on ${describeQuantity(orderDetails, fill)} ${
+          order.itemName
+        } (T${order.tier}) was marked as completed`,
+        orderDetails,
+        claimer: toClaimer(fill),
+        fill: { id: fill.id, amount: fill.amount },
+      });
+    } catch (error) {
+      console.error("Failed to notify claimer of completion:", error);
+    }
+  }
+
+  // Tell users watching this item that a matching order was posted
+  static async notifyWatchers(order: {
+    id: string;
+    itemName: string;
+    tier: number;
+    amount: number;
+    pricePerUnit: number;
+    orderType: OrderType;
+    creatorId: string;
+  }) {
+    try {
+      const watches = await findWatchersForOrder(order);
+      const orderDetails = toOrderDetails(order);
+
+      for (const watch of watches) {
+        if (!watch.user.discordId) continue;
+
+        await this.deliver(watch.user.discordId, {
+          notificationType: "new_order_created",
+          orderId: order.id,
+          title: "Watched Item Posted",
+          message: `New ${order.orderType.toLowerCase()} order for ${order.amount}x ${
+            order.itemName
+          } (T${order.tier}) at ${order.pricePerUnit} HC`,
+          orderDetails,
+          claimer: null,
+        });
+      }
+    } catch (error) {
+      console.error("Failed to notify watchers:", error);
+    }
+  }
+
+  // Tell a user that a price update set off one of their price alerts
+  static async notifyPriceAlert(
+    discordId: string,
+    alert: {
+      id: string;
+      itemName: string;
+      tier: number;
+      type: PriceAlertType;
+      threshold: number;
+    },
+    { newPrice, previousPrice }: { newPrice: number; previousPrice?: number }
+  ) {
+    const from = previousPrice !== undefined ? `${previousPrice} → ` : "";
+    let reason: string;
+    switch (alert.type) {
+      case "ABOVE":
+        reason = `rose to ${alert.threshold} HC or more`;
+        break;
+      case "BELOW":
+        reason = `fell to ${alert.threshold} HC or less`;
+        break;
+      default:
+        reason = `moved by ${alert.threshold}% or more`;
+    }
+
+    await this.deliver(discordId, {
+      notificationType: "price_alert",
+      orderId: null,
+      title: "Price Alert",
+      message: `${alert.itemName} (T${alert.tier}) ${reason}: ${from}${newPrice} HC`,
+      orderDetails: null,
+      claimer: null,
+    });
+  }
+
+  // Tell both traders that their BUY and SELL orders cross and could trade
+  static async notifyOrderMatch(match: {
+    buyOrder: MatchedOrder;
+    sellOrder: MatchedOrder;
+    amount: number;
+    price: number;
+  }) {
+    const sides = [
+      { own: match.buyOrder, other: match.sellOrder },
+      { own: match.sellOrder, other: match.buyOrder },
+    ];
+
+    for (const { own, other } of sides) {
+      if (!own.creator.discordId) continue;
+
+      const otherName =
+        other.creator.inGameName || other.creator.discordName || "Someone";
+      const action = own.orderType === "BUY" ? "sells" : "buys";
+
+      try {
+        await this.deliver(own.creator.discordId, {
+          notificationType: "order_match",
+          orderId: own.id,
+          title: "Matching Order Found",
+          message: `${otherName} ${action} ${match.amount}x ${own.itemName} (T${
+            own.tier
+          }) at ${match.price} HC, matching your ${own.orderType.toLowerCase()} order`,
+          orderDetails: toOrderDetails(own),
+          claimer: null,
+        });
+      } catch (error) {
+        console.error("Failed to notify order match:", error);
+      }
+    }
+  }
+
+  // Tell every connected user that an order changed. Only a summary goes out,
+  // so the event stays well inside the bus's payload limit however many fills
+  // the order has; boards fetch the full order from GET /api/orders/[id].
+  static async broadcastOrderChange(
+    type: Exclude<OrderBookEventType, "order_deleted">,
+    orderId: string
+  ) {
+    try {
+      const order = await prisma.order.findUnique({
+        where: { id: orderId },
+        select: orderListSelect,
+      });
+
+      if (!order) {
+        return;
+      }
+
+      await publishBroadcast({
+        type,
+        orderId,
+        order: {
+          id: order.id,
+          itemName: order.itemName,
+          tier: order.tier,
+          orderType: order.orderType,
+          status: order.status,
+          amount: order.amount,
+          claimedAmount: order.claimedAmount,
+          pricePerUnit: order.pricePerUnit,
+        },
+        timestamp: new Date().toISOString(),
+      });
+
+      if (type === "order_created") {
+        await sendDiscordWebhook(
+          "order_created",
+          orderEmbed("New order", order, {
+            description: `Posted by ${
+              order.creator.inGameName || order.creator.discordName
+            }`,
+          })
+        );
+      }
+    } catch (error) {
+      console.error("Failed to broadcast order change:", error);
+    }
+  }
+
+  static async broadcastOrderDeleted(orderId: string) {
+    try {
+      await publishBroadcast({
+        type: "order_deleted",
+        orderId,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error("Failed to broadcast order deletion:", error);
+    }
   }
 
   // Helper method to be called when orders are updated
   static async handleOrderUpdate(
     orderId: string,
     newStatus: string,
-    previousStatus?: string
+    previousStatus?: string,
+    fill?: FillSnapshot
   ) {
     try {
       // Fetch the order with related data, including creator's Discord ID
@@ -151,11 +895,13 @@ export class NotificationService {
         return;
       }
 
-      // If we don't have the previous status, try to determine it
+      // If we don't have the previous status, look it up in the order's audit trail
       if (!previousStatus) {
-        // This is a limitation - we'd need to track status changes in a separate table
-        // For now, we'll skip notifications when we don't know the previous status
-        return;
+        const latestChange = await getLatestStatusChange(orderId);
+        if (!latestChange?.previousStatus) {
+          return;
+        }
+        previousStatus = latestChange.previousStatus;
       }
 
       // Use creator's Discord ID for SSE notifications (matches session.user.id)
@@ -167,19 +913,32 @@ export class NotificationService {
         return;
       }
 
+      // For partial fills, the claimer is whoever holds the fill rather than the order
+      const claimer = fill
+        ? await prisma.user.findUnique({
+            where: { id: fill.claimerId },
+            select: {
+              id: true,
+              name: true,
+              inGameName: true,
+            },
+          })
+        : order.claimer;
+
       const orderChangeEvent: OrderChangeEvent = {
         orderId: order.id,
         previousStatus,
         newStatus,
         creatorId: creatorDiscordId, // Use Discord ID instead of database ID
-        claimerId: order.claimerId,
+        claimerId: fill ? fill.claimerId : order.claimerId,
         orderDetails: {
           itemName: order.itemName,
           tier: order.tier,
           amount: order.amount,
           orderType: order.orderType,
         },
-        claimer: order.claimer,
+        claimer,
+        fill: fill ? { id: fill.id, amount: fill.amount } : null,
       };
 
       await this.notifyOrderStatusChange(orderChangeEvent);
@@ -1,10 +1,26 @@
+import {
+  NotificationPreferences,
+  resolvePreferences,
+} from "@/lib/notification-preferences";
+
 // Notification types for different order events
 export type NotificationType =
   | "order_claimed"
   | "order_ready"
   | "order_completed"
   | "order_cancelled"
-  | "new_order_created";
+  | "order_expired"
+  | "claim_expired"
+  | "claim_completed"
+  | "order_modified_by_creator"
+  | "order_deleted_while_claimed"
+  | "order_cancelled_while_claimed"
+  | "order_disputed"
+  | "dispute_resolved"
+  | "trade_confirmed"
+  | "new_order_created"
+  | "price_alert"
+  | "order_match";
 
 export interface NotificationData {
   id: string;
@@ -97,6 +113,7 @@ class AudioNotifications {
         break;
 
       case "order_completed":
+      case "claim_completed":
         // Success chime - order completed
         this.createBeep(523, 0.2); // C
         setTimeout(() => this.createBeep(659, 0.2), 200); // E
@@ -104,11 +121,40 @@ class AudioNotifications {
         break;
 
       case "order_cancelled":
+      case "claim_expired":
+      case "order_deleted_while_claimed":
+      case "order_cancelled_while_claimed":
         // Low descending beep - order cancelled
         this.createBeep(400, 0.3);
         setTimeout(() => this.createBeep(300, 0.3), 200);
         break;
 
+      case "order_match":
+        // Rising pair - a trade is waiting
+        this.createBeep(600, 0.15);
+        setTimeout(() => this.createBeep(900, 0.2), 180);
+        break;
+
+      case "order_disputed":
+        // Low-high-low - a trade needs attention
+        this.createBeep(500, 0.15);
+        setTimeout(() => this.createBeep(800, 0.15), 180);
+        setTimeout(() => this.createBeep(500, 0.15), 360);
+        break;
+
+      case "order_modified_by_creator":
+      case "dispute_resolved":
+      case "trade_confirmed":
+        // Two quick beeps - claimed order changed
+        this.createBeep(700, 0.1);
+        setTimeout(() => this.createBeep(700, 0.1), 150);
+        break;
+
+      case "order_expired":
+        // Single low beep - order expired
+        this.createBeep(350, 0.4);
+        break;
+
       default:
         // Default single beep
         this.createBeep(600, 0.2);
@@ -116,6 +162,18 @@ class AudioNotifications {
   }
 }
 
+// Web Push expects the VAPID key as bytes rather than base64url text
+function urlBase64ToUint8Array(base64String: string) {
+  const padding = "=".repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, "+").replace(/_/g, "/");
+  const raw = window.atob(base64);
+  const output = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i++) {
+    output[i] = raw.charCodeAt(i);
+  }
+  return output;
+}
+
 // Notification settings interface
 export interface NotificationSettings {
   enabled: boolean;
@@ -129,6 +187,8 @@ class NotificationManager {
   private audio = new AudioNotifications();
   private storageKey = "farmy-notifications";
   private settingsKey = "notification-settings";
+  private preferencesKey = "notification-preferences";
+  private preferences: NotificationPreferences = resolvePreferences(null);
   private settings: NotificationSettings = {
     enabled: true,
     audioEnabled: true,
@@ -138,6 +198,7 @@ class NotificationManager {
     if (typeof window !== "undefined") {
       this.loadFromStorage();
       this.loadSettings();
+      this.loadPreferences();
       this.requestPermission();
     }
   }
@@ -191,6 +252,17 @@ class NotificationManager {
     }
   }
 
+  private loadPreferences() {
+    try {
+      const stored = localStorage.getItem(this.preferencesKey);
+      if (stored) {
+        this.preferences = resolvePreferences(JSON.parse(stored));
+      }
+    } catch (error) {
+      console.warn("Failed to load notification preferences:", error);
+    }
+  }
+
   subscribe(listener: (notifications: NotificationData[]) => void) {
     this.listeners.push(listener);
     return () => {
@@ -203,16 +275,26 @@ class NotificationManager {
     this.saveToStorage();
   }
 
-  addNotification(data: Omit<NotificationData, "id" | "timestamp" | "read">) {
+  addNotification(
+    data: Omit<NotificationData, "id" | "timestamp" | "read"> & {
+      id?: string | null;
+      timestamp?: Date;
+    }
+  ) {
     // Don't add notifications if globally disabled
     if (!this.settings.enabled) {
       return null;
     }
 
+    // Server-stored notifications can arrive twice (live push and inbox reload)
+    if (data.id && this.notifications.some((n) => n.id === data.id)) {
+      return null;
+    }
+
     const notification: NotificationData = {
       ...data,
-      id: crypto.randomUUID(),
-      timestamp: new Date(),
+      id: data.id || crypto.randomUUID(),
+      timestamp: data.timestamp || new Date(),
       read: false,
     };
 
@@ -248,27 +330,73 @@ class NotificationManager {
     }
   }
 
+  // Replace local notifications with the user's inbox stored on the server
+  async loadFromServer() {
+    try {
+      const response = await fetch("/api/notifications");
+      if (!response.ok) return;
+
+      const { notifications } = await response.json();
+      this.notifications = notifications.map((n: any) => ({
+        id: n.id,
+        type: n.type,
+        title: n.title,
+        message: n.message,
+        orderId: n.orderId || "",
+        orderDetails: n.data?.orderDetails,
+        timestamp: new Date(n.createdAt),
+        read: n.read,
+        playSound: false,
+      }));
+      this.notify();
+    } catch (error) {
+      console.warn("Failed to load notifications from server:", error);
+    }
+  }
+
+  private async syncToServer(url: string, init: RequestInit) {
+    try {
+      await fetch(url, init);
+    } catch (error) {
+      console.warn("Failed to sync notifications with server:", error);
+    }
+  }
+
   markAsRead(id: string) {
     const notification = this.notifications.find((n) => n.id === id);
     if (notification) {
       notification.read = true;
       this.notify();
+      this.syncToServer("/api/notifications", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids: [id] }),
+      });
     }
   }
 
   markAllAsRead() {
     this.notifications.forEach((n) => (n.read = true));
     this.notify();
+    this.syncToServer("/api/notifications", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ all: true }),
+    });
   }
 
   removeNotification(id: string) {
     this.notifications = this.notifications.filter((n) => n.id !== id);
     this.notify();
+    this.syncToServer(`/api/notifications?id=${encodeURIComponent(id)}`, {
+      method: "DELETE",
+    });
   }
 
   clearAll() {
     this.notifications = [];
     this.notify();
+    this.syncToServer("/api/notifications", { method: "DELETE" });
   }
 
   getUnreadCount() {
@@ -307,6 +435,105 @@ class NotificationManager {
     this.saveSettings();
   }
 
+  getPreferences(): NotificationPreferences {
+    return this.preferences;
+  }
+
+  // Keep a copy of the per-event preferences saved on the profile
+  setPreferences(preferences: unknown) {
+    this.preferences = resolvePreferences(preferences);
+    try {
+      localStorage.setItem(this.preferencesKey, JSON.stringify(this.preferences));
+    } catch (error) {
+      console.warn("Failed to save notification preferences:", error);
+    }
+  }
+
+  // Refresh the per-event preferences from the user's profile
+  async loadPreferencesFromServer() {
+    try {
+      const response = await fetch("/api/profile");
+      if (!response.ok) return;
+
+      const { user } = await response.json();
+      this.setPreferences(user.notificationPreferences);
+    } catch (error) {
+      console.warn("Failed to load notification preferences from server:", error);
+    }
+  }
+
+  isPushSupported() {
+    return (
+      typeof window !== "undefined" &&
+      "serviceWorker" in navigator &&
+      "PushManager" in window
+    );
+  }
+
+  // Whether this browser is currently subscribed to Web Push
+  async isPushEnabled() {
+    if (!this.isPushSupported()) return false;
+
+    const registration = await navigator.serviceWorker.getRegistration();
+    const subscription = await registration?.pushManager.getSubscription();
+    return Boolean(subscription);
+  }
+
+  // Register the service worker and subscribe this browser to Web Push
+  async enablePush() {
+    if (!this.isPushSupported()) {
+      throw new Error("Push notifications are not supported in this browser");
+    }
+
+    const keyResponse = await fetch("/api/notifications/push");
+    const { publicKey } = await keyResponse.json();
+    if (!publicKey) {
+      throw new Error("Push notifications are not enabled on this server");
+    }
+
+    const permission = await Notification.requestPermission();
+    if (permission !== "granted") {
+      throw new Error("Notification permission was denied");
+    }
+
+    const registration = await navigator.serviceWorker.register("/sw.js");
+    await navigator.serviceWorker.ready;
+
+    const subscription =
+      (await registration.pushManager.getSubscription()) ||
+      (await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(publicKey),
+      }));
+
+    const response = await fetch("/api/notifications/push/subscribe", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ subscription: subscription.toJSON() }),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || "Failed to enable push notifications");
+    }
+  }
+
+  // Unsubscribe this browser from Web Push
+  async disablePush() {
+    if (!this.isPushSupported()) return;
+
+    const registration = await navigator.serviceWorker.getRegistration();
+    const subscription = await registration?.pushManager.getSubscription();
+    if (!subscription) return;
+
+    await this.syncToServer("/api/notifications/push/unsubscribe", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ endpoint: subscription.endpoint }),
+    });
+    await subscription.unsubscribe();
+  }
+
   // Helper methods for creating specific notification types
   orderClaimed(
     orderId: string,
@@ -385,6 +612,10 @@ export function getNotificationIcon(type: NotificationType): string {
       return "•";
     case "order_cancelled":
       return "•";
+    case "order_expired":
+      return "•";
+    case "claim_expired":
+      return "•";
     case "new_order_created":
       return "•";
     default:
@@ -402,6 +633,10 @@ export function getNotificationColor(type: NotificationType): string {
       return "green";
     case "order_cancelled":
       return "red";
+    case "order_expired":
+      return "gray";
+    case "claim_expired":
+      return "orange";
     case "new_order_created":
       return "purple";
     default:
@@ -0,0 +1,85 @@
+// Aggregates open orders for one item and tier into a bid/ask ladder. Kept
+// free of database access so the API and any other callers share one shape.
+
+export interface OrderBookOrder {
+  orderType: "BUY" | "SELL";
+  pricePerUnit: number;
+  amount: number;
+  claimedAmount: number;
+}
+
+export interface OrderBookLevel {
+  price: number;
+  // Unclaimed quantity at this price
+  amount: number;
+  orders: number;
+  // Quantity available at this price or better
+  cumulative: number;
+}
+
+export interface OrderBook {
+  // Best (highest) bid first
+  bids: OrderBookLevel[];
+  // Best (lowest) ask first
+  asks: OrderBookLevel[];
+  bestBid: number | null;
+  bestAsk: number | null;
+  spread: number | null;
+  spreadPercent: number | null;
+  midPrice: number | null;
+}
+
+function buildLevels(orders: OrderBookOrder[], descending: boolean) {
+  const byPrice = new Map<number, { amount: number; orders: number }>();
+
+  for (const order of orders) {
+    const remaining = order.amount - order.claimedAmount;
+    if (remaining <= 0) continue;
+
+    const level = byPrice.get(order.pricePerUnit) || { amount: 0, orders: 0 };
+    level.amount += remaining;
+    level.orders += 1;
+    byPrice.set(order.pricePerUnit, level);
+  }
+
+  let cumulative = 0;
+  return Array.from(byPrice.entries())
+    .sort(([a], [b]) => (descending ? b - a : a - b))
+    .map(([price, level]): OrderBookLevel => {
+      cumulative += level.amount;
+      return { price, amount: level.amount, orders: level.orders, cumulative };
+    });
+}
+
+/**
+ * Builds the ladder from open orders. Bids and asks are grouped by price with
+ * cumulative depth running outward from the best price on each side.
+ */
+export function buildOrderBook(orders: OrderBookOrder[]): OrderBook {
+  const bids = buildLevels(
+    orders.filter((order) => order.orderType === "BUY"),
+    true
+  );
+  const asks = buildLevels(
+    orders.filter((order) => order.orderType === "SELL"),
+    false
+  );
+
+  const bestBid = bids[0]?.price ?? null;
+  const bestAsk = asks[0]?.price ?? null;
+  const midPrice =
+    bestBid !== null && bestAsk !== null ? (bestBid + bestAsk) / 2 : null;
+  const spread =
+    bestBid !== null && bestAsk !== null ? bestAsk - bestBid : null;
+
+  return {
+    bids,
+    asks,
+    bestBid,
+    bestAsk,
+    spread,
+    spreadPercent:
+      spread !== null && midPrice ? (spread / midPrice) * 100 : null,
+    midPrice,
+  };
+}
@@ -0,0 +1,123 @@
+import { OrderStatus, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+export type OrderEventType =
+  | "created"
+  | "claimed"
+  | "unclaimed"
+  | "ready"
+  | "completed"
+  | "confirmed"
+  | "edited"
+  | "expired"
+  | "cancelled"
+  | "disputed"
+  | "dispute_resolved"
+  | "deleted";
+
+export type OrderEventChanges = Record<
+  string,
+  { from: unknown; to: unknown }
+>;
+
+export interface OrderEventInput {
+  orderId: string;
+  type: OrderEventType;
+  actorId?: string | null;
+  fillId?: string | null;
+  previousStatus?: OrderStatus | null;
+  newStatus?: OrderStatus | null;
+  changes?: OrderEventChanges;
+}
+
+/**
+ * Records an order event in the audit trail. Pass the transaction client when
+ * the event belongs to a larger write so both commit together.
+ */
+export async function recordOrderEvent(
+  {
+    orderId,
+    type,
+    actorId,
+    fillId,
+    previousStatus,
+    newStatus,
+    changes,
+  }: OrderEventInput,
+  client: Prisma.TransactionClient = prisma
+) {
+  try {
+    return await client.orderEvent.create({
+      data: {
+        orderId,
+        type,
+        actorId: actorId ?? null,
+        fillId: fillId ?? null,
+        previousStatus: previousStatus ?? null,
+        newStatus: newStatus ?? null,
+        changes: changes
+          ? (changes as Prisma.InputJsonValue)
+          : Prisma.JsonNull,
+      },
+    });
+  } catch (error) {
+    console.error("Error recording order event:", error);
+    throw error;
+  }
+}
+
+/**
+ * Builds a { field: { from, to } } map of the fields whose value differs
+ */
+export function diffOrderFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): OrderEventChanges {
+  const changes: OrderEventChanges = {};
+
+  Object.keys(after).forEach((field) => {
+    if (field === "updatedAt" || after[field] === undefined) return;
+    if (before[field] !== after[field]) {
+      changes[field] = { from: before[field] ?? null, to: after[field] };
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Gets the full event timeline for an order, oldest first
+ */
+export async function getOrderHistory(orderId: string) {
+  try {
+    return await prisma.orderEvent.findMany({
+      where: { orderId },
+      orderBy: { createdAt: "asc" },
+      include: {
+        actor: {
+          select: {
+            id: true,
+            discordName: true,
+            inGameName: true,
+          },
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching order history:", error);
+    throw error;
+  }
+}
+
+/**
+ * Gets the most recent event that changed the order's status
+ */
+export async function getLatestStatusChange(orderId: string) {
+  return prisma.orderEvent.findFirst({
+    where: {
+      orderId,
+      newStatus: { not: null },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+}
@@ -0,0 +1,200 @@
+import { OrderStatus, Prisma } from "@prisma/client";
+
+// Fill statuses that still hold part of an order's quantity but are not yet traded
+export const ACTIVE_FILL_STATUSES: OrderStatus[] = [
+  "IN_PROGRESS",
+  "READY_TO_TRADE",
+];
+
+// A trader's name and reputation, shown next to creators and claimers. See
+// lib/reputation.ts for how the totals are kept.
+export const traderSelect = {
+  id: true,
+  discordName: true,
+  inGameName: true,
+  ratingCount: true,
+  ratingTotal: true,
+  abandonedClaims: true,
+} satisfies Prisma.UserSelect;
+
+// Fields returned for each fill wherever orders are sent to the client
+export const fillSelect = {
+  id: true,
+  amount: true,
+  status: true,
+  createdAt: true,
+  fulfilledAt: true,
+  disputedAt: true,
+  disputedById: true,
+  disputeReason: true,
+  creatorConfirmedAt: true,
+  claimerConfirmedAt: true,
+  claimer: { select: traderSelect },
+  ratings: { select: { raterId: true } },
+} satisfies Prisma.OrderFillSelect;
+
+// Claimer fields needed to notify whoever holds a fill
+export const fillClaimerInclude = {
+  claimer: {
+    select: {
+      id: true,
+      discordId: true,
+      name: true,
+      inGameName: true,
+    },
+  },
+} satisfies Prisma.OrderFillInclude;
+
+export const orderFillsInclude = {
+  select: fillSelect,
+  orderBy: { createdAt: "asc" },
+} satisfies Prisma.Order$fillsArgs;
+
+// Fields returned for each order on the order board, both from GET /api/orders
+// and in live order book events
+export const orderListSelect = {
+  id: true,
+  itemName: true,
+  tier: true,
+  pricePerUnit: true,
+  amount: true,
+  claimedAmount: true,
+  orderType: true,
+  status: true,
+  createdAt: true,
+  fulfilledAt: true,
+  expiresAt: true,
+  cancelledAt: true,
+  cancelReason: true,
+  requireConfirmation: true,
+  creator: { select: traderSelect },
+  claimer: { select: traderSelect },
+  fills: orderFillsInclude,
+} satisfies Prisma.OrderSelect;
+
+/**
+ * Quantity of an order that can still be claimed
+ */
+export function getRemainingAmount(order: {
+  amount: number;
+  claimedAmount: number;
+}) {
+  return Math.max(order.amount - order.claimedAmount, 0);
+}
+
+/**
+ * Derives the order-level status from its fills. A disputed fill holds the
+ * whole order until an admin resolves it. Otherwise an order stays OPEN while
+ * any quantity is unclaimed; once fully claimed it follows its least
+ * advanced fill.
+ */
+export function deriveOrderStatus(
+  order: { amount: number; claimedAmount: number },
+  fills: { status: OrderStatus }[]
+): OrderStatus {
+  if (fills.some((fill) => fill.status === "DISPUTED")) {
+    return "DISPUTED";
+  }
+  if (getRemainingAmount(order) > 0 || fills.length === 0) {
+    return "OPEN";
+  }
+  if (fills.some((fill) => fill.status === "IN_PROGRESS")) {
+    return "IN_PROGRESS";
+  }
+  if (fills.some((fill) => fill.status === "READY_TO_TRADE")) {
+    return "READY_TO_TRADE";
+  }
+  return "FULFILLED";
+}
+
+/**
+ * Recomputes claimedAmount, status, claimerId and fulfilledAt for an order
+ * from its fills. Must be called after any fill is created, updated or removed.
+ * Fills cancelled along with the order no longer hold any of it.
+ *
+ * Quantity freed up after expiresAt doesn't reopen the order: it shrinks to
+ * what is still claimed, or becomes EXPIRED once nothing is.
+ */
+export async function syncOrderWithFills(
+  tx: Prisma.TransactionClient,
+  orderId: string
+) {
+  const order = await tx.order.findUnique({
+    where: { id: orderId },
+    include: { fills: true },
+  });
+
+  if (!order) {
+    return null;
+  }
+
+  const fills = order.fills.filter((fill) => fill.status !== "CANCELLED");
+  const claimedAmount = fills.reduce((sum, fill) => sum + fill.amount, 0);
+  let amount = order.amount;
+  let status = deriveOrderStatus({ amount, claimedAmount }, fills);
+
+  if (status === "OPEN" && order.expiresAt && order.expiresAt <= new Date()) {
+    if (claimedAmount > 0) {
+      amount = claimedAmount;
+      status = deriveOrderStatus({ amount, claimedAmount }, fills);
+    } else {
+      status = "EXPIRED";
+    }
+  }
+
+  // Keep the legacy single-claimer field populated when one fill covers the whole order
+  const claimerId =
+    fills.length === 1 && fills[0].amount === amount
+      ? fills[0].claimerId
+      : null;
+
+  const updatedOrder = await tx.order.update({
+    where: { id: orderId },
+    data: {
+      amount,
+      claimedAmount,
+      status,
+      claimerId,
+      fulfilledAt:
+        status === "FULFILLED" ? order.fulfilledAt ?? new Date() : null,
+      updatedAt: new Date(),
+    },
+  });
+
+  return { previousStatus: order.status, order: updatedOrder };
+}
+
+/**
+ * Picks the fill a user is acting on. An explicit fillId always wins;
+ * otherwise claimers act on their own active fill and creators on the only
+ * active fill of the order.
+ */
+export function resolveActingFill<
+  T extends { id: string; claimerId: string; status: OrderStatus }
+>(
+  fills: T[],
+  {
+    userId,
+    isCreator,
+    fillId,
+  }: { userId: string; isCreator: boolean; fillId?: string }
+): T | null {
+  if (fillId) {
+    return fills.find((fill) => fill.id === fillId) ?? null;
+  }
+
+  const activeFills = fills.filter((fill) =>
+    ACTIVE_FILL_STATUSES.includes(fill.status)
+  );
+
+  const ownFill = activeFills.find((fill) => fill.claimerId === userId);
+  if (ownFill) {
+    return ownFill;
+  }
+
+  if (isCreator && activeFills.length === 1) {
+    return activeFills[0];
+  }
+
+  return null;
+}
@@ -0,0 +1,77 @@
+import { prisma } from "@/lib/prisma";
+import { NotificationService } from "@/lib/notification-service";
+import {
+  MatchableOrder,
+  findMatches,
+  findNewMatches,
+} from "@/lib/order-matching";
+
+const matchOrderSelect = {
+  id: true,
+  itemName: true,
+  tier: true,
+  orderType: true,
+  pricePerUnit: true,
+  amount: true,
+  claimedAmount: true,
+  creatorId: true,
+  status: true,
+  createdAt: true,
+  creator: {
+    select: {
+      discordId: true,
+      discordName: true,
+      inGameName: true,
+    },
+  },
+} as const;
+
+/**
+ * Looks for open orders on the other side of the book that cross the given
+ * order and proposes each pairing to both traders. Nothing is claimed
+ * automatically; either side can claim the other's order from the board.
+ *
+ * After an edit, pass the order as it was before so only pairings the edit
+ * made new are proposed.
+ */
+export async function matchOrder(orderId: string, previous?: MatchableOrder) {
+  try {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      select: matchOrderSelect,
+    });
+
+    if (!order || order.status !== "OPEN") {
+      return [];
+    }
+
+    const candidates = await prisma.order.findMany({
+      where: {
+        itemName: order.itemName,
+        tier: order.tier,
+        orderType: order.orderType === "BUY" ? "SELL" : "BUY",
+        status: "OPEN",
+        creatorId: { not: order.creatorId },
+        pricePerUnit:
+          order.orderType === "BUY"
+            ? { lte: order.pricePerUnit }
+            : { gte: order.pricePerUnit },
+      },
+      select: matchOrderSelect,
+    });
+
+    const matches = previous
+      ? findNewMatches(order, candidates, previous)
+      : findMatches(order, candidates);
+
+    for (const match of matches) {
+      await NotificationService.notifyOrderMatch(match);
+    }
+
+    return matches;
+  } catch (error) {
+    // Matching is a convenience; never fail the create/edit over it
+    console.error("Error matching order:", error);
+    return [];
+  }
+}
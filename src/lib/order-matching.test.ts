@@ -0,0 +1,178 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  MatchableOrder,
+  canMatch,
+  findMatches,
+  findNewMatches,
+} from "./order-matching";
+
+let nextId = 0;
+
+function order(overrides: Partial<MatchableOrder> = {}): MatchableOrder {
+  nextId++;
+  return {
+    id: `order-${nextId}`,
+    itemName: "iron",
+    tier: 3,
+    orderType: "SELL",
+    pricePerUnit: 10,
+    amount: 100,
+    claimedAmount: 0,
+    creatorId: `trader-${nextId}`,
+    status: "OPEN",
+    createdAt: new Date(Date.UTC(2024, 0, 1, 0, nextId)),
+    ...overrides,
+  };
+}
+
+// The other side of each match, in match order
+function counterparts(
+  matches: { buyOrder: MatchableOrder; sellOrder: MatchableOrder }[],
+  incoming: MatchableOrder
+) {
+  return matches.map((match) =>
+    match.buyOrder.id === incoming.id ? match.sellOrder.id : match.buyOrder.id
+  );
+}
+
+test("orders only match on the same item and tier, across sides and traders", () => {
+  const buy = order({ orderType: "BUY", pricePerUnit: 12 });
+
+  assert.equal(canMatch(buy, order()), true);
+  assert.equal(canMatch(buy, order({ itemName: "copper" })), false);
+  assert.equal(canMatch(buy, order({ tier: 4 })), false);
+  assert.equal(canMatch(buy, order({ orderType: "BUY" })), false);
+  assert.equal(canMatch(buy, order({ creatorId: buy.creatorId })), false);
+  assert.equal(canMatch(buy, order({ status: "IN_PROGRESS" })), false);
+  assert.equal(canMatch(buy, order({ claimedAmount: 100 })), false);
+});
+
+test("the buyer has to pay at least the asking price", () => {
+  const sell = order({ pricePerUnit: 10 });
+
+  assert.equal(
+    canMatch(order({ orderType: "BUY", pricePerUnit: 10 }), sell),
+    true
+  );
+  assert.equal(
+    canMatch(order({ orderType: "BUY", pricePerUnit: 9.99 }), sell),
+    false
+  );
+  // The check doesn't depend on argument order
+  assert.equal(
+    canMatch(sell, order({ orderType: "BUY", pricePerUnit: 11 })),
+    true
+  );
+});
+
+test("a buy takes the cheapest asks first, oldest first on ties", () => {
+  const buy = order({ orderType: "BUY", pricePerUnit: 12, amount: 1000 });
+  const pricey = order({ pricePerUnit: 12 });
+  const olderCheap = order({ pricePerUnit: 9 });
+  const newerCheap = order({ pricePerUnit: 9 });
+  const tooPricey = order({ pricePerUnit: 13 });
+
+  const matches = findMatches(buy, [pricey, newerCheap, tooPricey, olderCheap]);
+
+  assert.deepEqual(counterparts(matches, buy), [
+    olderCheap.id,
+    newerCheap.id,
+    pricey.id,
+  ]);
+  // Each match trades at the resting order's price
+  assert.deepEqual(
+    matches.map((match) => match.price),
+    [9, 9, 12]
+  );
+  assert.ok(matches.every((match) => match.buyOrder === buy));
+});
+
+test("a sell takes the highest bids first", () => {
+  const sell = order({ pricePerUnit: 10, amount: 1000 });
+  const low = order({ orderType: "BUY", pricePerUnit: 10 });
+  const high = order({ orderType: "BUY", pricePerUnit: 15 });
+
+  const matches = findMatches(sell, [low, high]);
+
+  assert.deepEqual(counterparts(matches, sell), [high.id, low.id]);
+  assert.ok(matches.every((match) => match.sellOrder === sell));
+});
+
+test("the incoming quantity is split across matches until it runs out", () => {
+  const buy = order({
+    orderType: "BUY",
+    pricePerUnit: 10,
+    amount: 150,
+    claimedAmount: 20,
+  });
+  const first = order({ amount: 100, claimedAmount: 40 });
+  const second = order({ amount: 100 });
+  const third = order({ amount: 100 });
+
+  const matches = findMatches(buy, [first, second, third]);
+
+  assert.deepEqual(
+    matches.map((match) => [match.sellOrder.id, match.amount]),
+    [
+      [first.id, 60],
+      [second.id, 70],
+    ]
+  );
+});
+
+test("an order never matches itself and a closed order matches nothing", () => {
+  const buy = order({ orderType: "BUY", pricePerUnit: 10 });
+
+  assert.deepEqual(findMatches(buy, [buy]), []);
+  assert.deepEqual(findMatches({ ...buy, status: "FULFILLED" }, [order()]), []);
+});
+
+test("after an edit only pairings that are new are returned", () => {
+  const before = order({ orderType: "BUY", pricePerUnit: 10, amount: 1000 });
+  const after = { ...before, pricePerUnit: 12 };
+  const alreadyMatched = order({ pricePerUnit: 9 });
+  const nowInReach = order({ pricePerUnit: 12 });
+
+  const matches = findNewMatches(after, [alreadyMatched, nowInReach], before);
+
+  assert.deepEqual(counterparts(matches, after), [nowInReach.id]);
+});
+
+test("an edit that changes nothing about the pairings returns none", () => {
+  const before = order({ orderType: "BUY", pricePerUnit: 10, amount: 100 });
+  const after = { ...before, amount: 200 };
+  const resting = order({ pricePerUnit: 9, amount: 1000 });
+
+  // The pair trades more now, but the traders already heard about it
+  assert.deepEqual(findNewMatches(after, [resting], before), []);
+});
+
+test("pairings that were crowded out before count as new", () => {
+  const before = order({ orderType: "BUY", pricePerUnit: 10, amount: 100 });
+  const after = { ...before, amount: 200 };
+  const cheapest = order({ pricePerUnit: 8, amount: 100 });
+  const next = order({ pricePerUnit: 9, amount: 100 });
+
+  const matches = findNewMatches(after, [cheapest, next], before);
+
+  assert.deepEqual(counterparts(matches, after), [next.id]);
+});
+
+test("reopening or flipping an order makes every pairing new", () => {
+  const resting = order({ orderType: "BUY", pricePerUnit: 12 });
+  const before = order({ orderType: "BUY", pricePerUnit: 10 });
+  const after = { ...before, orderType: "SELL" as const };
+
+  assert.deepEqual(
+    counterparts(findNewMatches(after, [resting], before), after),
+    [resting.id]
+  );
+
+  const claimed = order({ status: "IN_PROGRESS", pricePerUnit: 9 });
+  const reopened = { ...claimed, status: "OPEN" };
+  assert.deepEqual(
+    counterparts(findNewMatches(reopened, [resting], claimed), reopened),
+    [resting.id]
+  );
+});
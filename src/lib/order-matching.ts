@@ -0,0 +1,110 @@
+// Pure matching logic for crossing BUY/SELL orders. No database access, so the
+// rules can be exercised with plain objects; see lib/order-matcher.ts for the
+// side that loads orders and notifies traders.
+
+export interface MatchableOrder {
+  id: string;
+  itemName: string;
+  tier: number;
+  orderType: "BUY" | "SELL";
+  pricePerUnit: number;
+  amount: number;
+  claimedAmount: number;
+  creatorId: string;
+  status: string;
+  createdAt: Date;
+}
+
+export interface OrderMatch<T extends MatchableOrder = MatchableOrder> {
+  buyOrder: T;
+  sellOrder: T;
+  // Quantity both sides can trade
+  amount: number;
+  // The resting order's price, which the incoming order accepted by crossing it
+  price: number;
+}
+
+function remaining(order: MatchableOrder) {
+  return Math.max(order.amount - order.claimedAmount, 0);
+}
+
+/**
+ * Whether two orders can trade with each other: same item and tier, opposite
+ * sides, different traders, both open with quantity left, and the buyer
+ * willing to pay at least what the seller asks.
+ */
+export function canMatch(a: MatchableOrder, b: MatchableOrder) {
+  if (a.itemName !== b.itemName || a.tier !== b.tier) return false;
+  if (a.orderType === b.orderType) return false;
+  if (a.creatorId === b.creatorId) return false;
+  if (a.status !== "OPEN" || b.status !== "OPEN") return false;
+  if (remaining(a) <= 0 || remaining(b) <= 0) return false;
+
+  const buy = a.orderType === "BUY" ? a : b;
+  const sell = a.orderType === "SELL" ? a : b;
+  return buy.pricePerUnit >= sell.pricePerUnit;
+}
+
+/**
+ * Matches an incoming order against resting orders using price-time
+ * priority: the best price for the incoming order first (lowest ask for a
+ * buy, highest bid for a sell), oldest first on ties. The incoming order's
+ * remaining quantity is split across matches until it runs out.
+ */
+export function findMatches<T extends MatchableOrder>(
+  order: T,
+  candidates: T[]
+): OrderMatch<T>[] {
+  const eligible = candidates
+    .filter(
+      (candidate) => candidate.id !== order.id && canMatch(order, candidate)
+    )
+    .sort((a, b) => {
+      if (a.pricePerUnit !== b.pricePerUnit) {
+        return order.orderType === "BUY"
+          ? a.pricePerUnit - b.pricePerUnit
+          : b.pricePerUnit - a.pricePerUnit;
+      }
+      return a.createdAt.getTime() - b.createdAt.getTime();
+    });
+
+  const matches: OrderMatch<T>[] = [];
+  let left = remaining(order);
+
+  for (const candidate of eligible) {
+    if (left <= 0) break;
+
+    const amount = Math.min(left, remaining(candidate));
+    matches.push({
+      buyOrder: order.orderType === "BUY" ? order : candidate,
+      sellOrder: order.orderType === "SELL" ? order : candidate,
+      amount,
+      price: candidate.pricePerUnit,
+    });
+    left -= amount;
+  }
+
+  return matches;
+}
+
+/**
+ * Matches for an order that it didn't already have before an edit, so traders
+ * only hear about pairings that are new to them. Pairs are told apart by the
+ * other order; a different quantity or price on the same pair isn't new.
+ */
+export function findNewMatches<T extends MatchableOrder>(
+  order: T,
+  candidates: T[],
+  previous: MatchableOrder
+): OrderMatch<T>[] {
+  const counterpart = (match: OrderMatch<MatchableOrder>) =>
+    match.buyOrder.id === order.id ? match.sellOrder.id : match.buyOrder.id;
+
+  const matchedBefore = new Set(
+    findMatches<MatchableOrder>(previous, candidates).map(counterpart)
+  );
+
+  return findMatches(order, candidates).filter(
+    (match) => !matchedBefore.has(counterpart(match))
+  );
+}
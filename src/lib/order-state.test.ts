@@ -0,0 +1,163 @@
+import { before, beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+
+// Transitions run against an in-memory stand-in for the Prisma client that
+// holds one order and its fills. The client is read from globalThis when
+// lib/prisma loads, so it is put in place before the first import.
+
+let order: any;
+let fills: any[];
+let events: any[];
+
+const tx = {
+  $queryRaw: async () => [{ id: order.id }],
+  order: {
+    findUnique: async () => ({ ...order, fills: [...fills] }),
+    findUniqueOrThrow: async () => ({
+      ...order,
+      fills: fills.map((fill) => ({ ...fill, claimer: null })),
+    }),
+    updateMany: async ({ where, data }: any) => {
+      if (where.status !== order.status) return { count: 0 };
+      Object.assign(order, data);
+      return { count: 1 };
+    },
+    update: async ({ data }: any) => Object.assign(order, data),
+  },
+  orderEvent: {
+    create: async ({ data }: any) => {
+      events.push(data);
+      return data;
+    },
+  },
+};
+
+Object.assign(globalThis, {
+  prisma: { $transaction: (run: (client: typeof tx) => unknown) => run(tx) },
+});
+
+let OrderConflictError: typeof import("./order-state").OrderConflictError;
+let adminEditOrder: typeof import("./order-state").adminEditOrder;
+let syncOrderWithFills: typeof import("./order-fills").syncOrderWithFills;
+
+before(async () => {
+  ({ OrderConflictError, adminEditOrder } = await import("./order-state"));
+  ({ syncOrderWithFills } = await import("./order-fills"));
+});
+
+beforeEach(() => {
+  order = {
+    id: "order-1",
+    amount: 100,
+    claimedAmount: 0,
+    pricePerUnit: 2,
+    orderType: "BUY",
+    status: "OPEN",
+    claimerId: null,
+    expiresAt: null,
+    fulfilledAt: null,
+  };
+  fills = [];
+  events = [];
+});
+
+function fill(amount: number, status: string, claimerId = "claimer-1") {
+  return { id: `fill-${fills.length + 1}`, amount, status, claimerId };
+}
+
+// Cancels the order the way cancelOrder leaves it: claims marked CANCELLED
+// but still in place, claimedAmount untouched
+function cancelWithClaims(...amounts: number[]) {
+  fills = amounts.map((amount) => fill(amount, "CANCELLED"));
+  order.claimedAmount = amounts.reduce((sum, amount) => sum + amount, 0);
+  order.status = "CANCELLED";
+}
+
+for (const [label, amounts] of [
+  ["partly", [60]],
+  ["fully", [60, 40]],
+] as const) {
+  test(`an admin edit doesn't bring back a ${label} claimed cancelled order`, async () => {
+    cancelWithClaims(...amounts);
+
+    await assert.rejects(
+      adminEditOrder({
+        orderId: order.id,
+        expectedStatus: "CANCELLED",
+        data: { pricePerUnit: 3 },
+      }),
+      OrderConflictError
+    );
+
+    assert.equal(order.status, "CANCELLED");
+    assert.equal(order.pricePerUnit, 2);
+    assert.equal(order.fulfilledAt, null);
+    assert.deepEqual(events, []);
+  });
+}
+
+test("claims cancelled with the order don't count towards it", async () => {
+  fills = [fill(60, "READY_TO_TRADE"), fill(40, "CANCELLED", "claimer-2")];
+
+  await syncOrderWithFills(tx as any, order.id);
+
+  assert.equal(order.claimedAmount, 60);
+  assert.equal(order.status, "OPEN");
+  assert.equal(order.claimerId, null);
+});
+
+test("a single live claim still covers the order next to cancelled ones", async () => {
+  order.amount = 60;
+  fills = [fill(60, "FULFILLED"), fill(40, "CANCELLED", "claimer-2")];
+
+  await syncOrderWithFills(tx as any, order.id);
+
+  assert.equal(order.claimedAmount, 60);
+  assert.equal(order.status, "FULFILLED");
+  assert.equal(order.claimerId, "claimer-1");
+  assert.ok(order.fulfilledAt instanceof Date);
+});
+
+for (const status of ["IN_PROGRESS", "READY_TO_TRADE", "FULFILLED"] as const) {
+  test(`an order without claims can't be set to ${status}`, async () => {
+    await assert.rejects(
+      adminEditOrder({
+        orderId: order.id,
+        expectedStatus: "OPEN",
+        data: { status },
+      }),
+      OrderConflictError
+    );
+
+    assert.equal(order.status, "OPEN");
+    assert.deepEqual(events, []);
+  });
+}
+
+test("an order without claims can't be given a claimer", async () => {
+  await assert.rejects(
+    adminEditOrder({
+      orderId: order.id,
+      expectedStatus: "OPEN",
+      data: { claimerId: "claimer-1" },
+    }),
+    OrderConflictError
+  );
+
+  assert.equal(order.claimerId, null);
+});
+
+test("an admin can still close an order without claims", async () => {
+  const { order: updated } = await adminEditOrder({
+    orderId: order.id,
+    actorId: "admin-1",
+    expectedStatus: "OPEN",
+    data: { status: "EXPIRED", claimerId: null },
+  });
+
+  assert.equal(updated.status, "EXPIRED");
+  assert.equal(events.length, 1);
+  assert.deepEqual(events[0].changes, {
+    status: { from: "OPEN", to: "EXPIRED" },
+  });
+});
@@ -0,0 +1,864 @@
+import { OrderStatus, OrderType, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  ACTIVE_FILL_STATUSES,
+  fillClaimerInclude,
+  getRemainingAmount,
+  syncOrderWithFills,
+} from "@/lib/order-fills";
+import {
+  DisputeResolution,
+  TransitionRole,
+  getClaimStatus,
+  getFromStatuses,
+} from "@/lib/order-transitions";
+import {
+  OrderEventChanges,
+  diffOrderFields,
+  recordOrderEvent,
+} from "@/lib/order-events";
+import { countAbandonedClaims } from "@/lib/reputation";
+
+// Order and fill state transitions. Each one runs in a transaction that
+// locks the order row, re-checks its precondition against the locked state
+// and writes with conditional updates, so two people acting on the same order
+// at once can't both succeed. Routes still validate up front to give friendly
+// 400s; a precondition that fails here means the order changed in between.
+
+/**
+ * The order changed between the request being made and the transition being
+ * applied, e.g. someone else claimed it first. Maps to HTTP 409.
+ */
+export class OrderConflictError extends Error {
+  readonly status = 409;
+
+  constructor(
+    message: string = "This order was just changed by someone else. Refresh and try again."
+  ) {
+    super(message);
+    this.name = "OrderConflictError";
+  }
+}
+
+type Tx = Prisma.TransactionClient;
+
+// Orders that are finished with and can no longer change hands
+export const CLOSED_ORDER_STATUSES: OrderStatus[] = [
+  "FULFILLED",
+  "EXPIRED",
+  "CANCELLED",
+];
+
+// The only statuses an order without claims can be set to. Anything further
+// along needs a fill, which only claimOrder creates.
+export const UNCLAIMED_ORDER_STATUSES: OrderStatus[] = [
+  "OPEN",
+  "EXPIRED",
+  "CANCELLED",
+];
+
+// Fields an admin can set directly through the admin order editor
+export type AdminOrderEdit = {
+  itemName?: string;
+  tier?: number;
+  pricePerUnit?: number;
+  amount?: number;
+  orderType?: OrderType;
+  status?: OrderStatus;
+  claimerId?: string | null;
+};
+
+// Serializes transitions on one order until the transaction ends, so fills
+// are never synced from a stale read
+async function lockOrder(tx: Tx, orderId: string) {
+  const rows = await tx.$queryRaw<{ id: string }[]>`
+    SELECT id FROM orders WHERE id = ${orderId} FOR UPDATE
+  `;
+
+  if (rows.length === 0) {
+    throw new OrderConflictError("This order no longer exists");
+  }
+
+  return tx.order.findUniqueOrThrow({
+    where: { id: orderId },
+    include: { fills: { include: fillClaimerInclude } },
+  });
+}
+
+// Moves a fill between statuses only if it is still in one of the expected ones
+async function updateFillIf(
+  tx: Tx,
+  fillId: string,
+  from: OrderStatus[],
+  data: Prisma.OrderFillUpdateManyMutationInput
+) {
+  const { count } = await tx.orderFill.updateMany({
+    where: { id: fillId, status: { in: from } },
+    data: { ...data, updatedAt: new Date() },
+  });
+
+  if (count === 0) {
+    throw new OrderConflictError(
+      "This claim was just changed. Refresh and try again."
+    );
+  }
+}
+
+type LockedOrder = Awaited<ReturnType<typeof lockOrder>>;
+
+// When the order type changes while claimed, moves each active fill to the
+// status a claim on the new side starts in. Any confirmation was for the trade
+// as it stood before the change.
+async function moveFillsToOrderType(
+  tx: Tx,
+  order: LockedOrder,
+  orderType: OrderType | undefined
+) {
+  const changedFills: {
+    fill: LockedOrder["fills"][number];
+    newStatus: OrderStatus;
+  }[] = [];
+
+  if (orderType === undefined || orderType === order.orderType) {
+    return changedFills;
+  }
+
+  const newStatus = getClaimStatus(orderType);
+  for (const fill of order.fills) {
+    if (
+      ACTIVE_FILL_STATUSES.includes(fill.status) &&
+      fill.status !== newStatus
+    ) {
+      await updateFillIf(tx, fill.id, [fill.status], {
+        status: newStatus,
+        creatorConfirmedAt: null,
+        claimerConfirmedAt: null,
+      });
+      changedFills.push({ fill, newStatus });
+    }
+  }
+
+  return changedFills;
+}
+
+/**
+ * Claims part of an OPEN order. Without an amount, claims everything left.
+ */
+export async function claimOrder({
+  orderId,
+  claimerId,
+  amount,
+}: {
+  orderId: string;
+  claimerId: string;
+  amount?: number;
+}) {
+  return prisma.$transaction(async (tx) => {
+    const order = await lockOrder(tx, orderId);
+    const remaining = getRemainingAmount(order);
+    const claimAmount = amount ?? remaining;
+
+    if (order.status !== "OPEN" || remaining === 0) {
+      throw new OrderConflictError("This order was just claimed or closed");
+    }
+    // Past expiresAt but not swept yet
+    if (order.expiresAt && order.expiresAt <= new Date()) {
+      throw new OrderConflictError("This order has expired");
+    }
+    if (claimAmount > remaining) {
+      throw new OrderConflictError(`Only ${remaining} remaining on this order`);
+    }
+    if (
+      order.fills.some(
+        (fill) =>
+          fill.claimerId === claimerId &&
+          ACTIVE_FILL_STATUSES.includes(fill.status)
+      )
+    ) {
+      throw new OrderConflictError(
+        "You already have an active claim on this order"
+      );
+    }
+
+    const status = getClaimStatus(order.orderType);
+
+    const fill = await tx.orderFill.create({
+      data: { orderId, claimerId, amount: claimAmount, status },
+    });
+
+    const synced = await syncOrderWithFills(tx, orderId);
+
+    await recordOrderEvent(
+      {
+        orderId,
+        type: "claimed",
+        actorId: claimerId,
+        fillId: fill.id,
+        previousStatus: synced?.previousStatus,
+        newStatus: synced?.order.status,
+        changes: {
+          claimedAmount: {
+            from: order.claimedAmount,
+            to: synced?.order.claimedAmount,
+          },
+        },
+      },
+      tx
+    );
+
+    return { fill, status };
+  });
+}
+
+/**
+ * Moves an IN_PROGRESS fill to READY_TO_TRADE
+ */
+export async function markFillReady({
+  orderId,
+  fillId,
+  actorId,
+}: {
+  orderId: string;
+  fillId: string;
+  actorId: string;
+}) {
+  return prisma.$transaction(async (tx) => {
+    const order = await lockOrder(tx, orderId);
+    await updateFillIf(
+      tx,
+      fillId,
+      getFromStatuses("ready", { orderType: order.orderType, role: "claimer" }),
+      { status: "READY_TO_TRADE" }
+    );
+
+    const synced = await syncOrderWithFills(tx, orderId);
+
+    await recordOrderEvent(
+      {
+        orderId,
+        type: "ready",
+        actorId,
+        fillId,
+        previousStatus: synced?.previousStatus,
+        newStatus: synced?.order.status,
+        changes: {
+          fillStatus: { from: "IN_PROGRESS", to: "READY_TO_TRADE" },
+        },
+      },
+      tx
+    );
+
+    return synced;
+  });
+}
+
+/**
+ * Records one side's confirmation of a READY_TO_TRADE fill on an order that
+ * requires both sides to confirm. The second confirmation completes the fill.
+ */
+export async function confirmFill({
+  orderId,
+  fillId,
+  actorId,
+  role,
+}: {
+  orderId: string;
+  fillId: string;
+  actorId: string;
+  role: TransitionRole;
+}) {
+  return prisma.$transaction(async (tx) => {
+    const order = await lockOrder(tx, orderId);
+    const fill = order.fills.find((candidate) => candidate.id === fillId);
+
+    if (!fill) {
+      throw new OrderConflictError("This claim no longer exists");
+    }
+
+    const confirmedAt =
+      role === "creator" ? fill.creatorConfirmedAt : fill.claimerConfirmedAt;
+    if (confirmedAt) {
+      throw new OrderConflictError("You already confirmed this trade");
+    }
+
+    const otherConfirmedAt =
+      role === "creator" ? fill.claimerConfirmedAt : fill.creatorConfirmedAt;
+    const completed = otherConfirmedAt !== null;
+    const now = new Date();
+
+    await updateFillIf(
+      tx,
+      fillId,
+      getFromStatuses("confirm", { orderType: order.orderType, role }),
+      {
+        ...(role === "creator"
+          ? { creatorConfirmedAt: now }
+          : { claimerConfirmedAt: now }),
+        ...(completed ? { status: "FULFILLED", fulfilledAt: now } : {}),
+      }
+    );
+
+    const synced = await syncOrderWithFills(tx, orderId);
+
+    await recordOrderEvent(
+      {
+        orderId,
+        type: "confirmed",
+        actorId,
+        fillId,
+        changes: {
+          confirmedBy: { from: null, to: role },
+        },
+      },
+      tx
+    );
+
+    if (completed) {
+      await recordOrderEvent(
+        {
+          orderId,
+          type: "completed",
+          actorId,
+          fillId,
+          previousStatus: synced?.previousStatus,
+          newStatus: synced?.order.status,
+          changes: {
+            fillStatus: { from: fill.status, to: "FULFILLED" },
+          },
+        },
+        tx
+      );
+    }
+
+    return { synced, completed };
+  });
+}
+
+/**
+ * Marks a fill as traded, from whichever statuses the role may complete it in
+ * unless a narrower `from` is given. `via` records why a trade skipped
+ * two-sided confirmation.
+ */
+export async function completeFill({
+  orderId,
+  fillId,
+  actorId,
+  role,
+  via,
+  from,
+}: {
+  orderId: string;
+  fillId: string;
+  actorId?: string;
+  role: TransitionRole;
+  via?: "admin" | "timeout";
+  from?: OrderStatus[];
+}) {
+  return prisma.$transaction(async (tx) => {
+    const order = await lockOrder(tx, orderId);
+    const fill = order.fills.find((candidate) => candidate.id === fillId);
+
+    await updateFillIf(
+      tx,
+      fillId,
+      from ?? getFromStatuses("complete", { orderType: order.orderType, role }),
+      { status: "FULFILLED", fulfilledAt: new Date() }
+    );
+
+    const synced = await syncOrderWithFills(tx, orderId);
+
+    await recordOrderEvent(
+      {
+        orderId,
+        type: "completed",
+        actorId,
+        fillId,
+        previousStatus: synced?.previousStatus,
+        newStatus: synced?.order.status,
+        changes: {
+          fillStatus: { from: fill?.status, to: "FULFILLED" },
+          ...(via ? { completedVia: { from: null, to: via } } : {}),
+        },
+      },
+      tx
+    );
+
+    return synced;
+  });
+}
+
+/**
+ * Removes a fill and returns its quantity to the order. The sweeper passes
+ * a narrower `from` so it only releases claims still IN_PROGRESS.
+ */
+export async function releaseFill({
+  orderId,
+  fillId,
+  actorId,
+  from,
+}: {
+  orderId: string;
+  fillId: string;
+  actorId?: string;
+  from?: OrderStatus[];
+}) {
+  return prisma.$transaction(async (tx) => {
+    const order = await lockOrder(tx, orderId);
+
+    const { count } = await tx.orderFill.deleteMany({
+      where: {
+        id: fillId,
+        status: {
+          in:
+            from ??
+            getFromStatuses("unclaim", {
+              orderType: order.orderType,
+              role: "claimer",
+            }),
+        },
+      },
+    });
+
+    if (count === 0) {
+      throw new OrderConflictError(
+        "This claim was just changed. Refresh and try again."
+      );
+    }
+
+    const synced = await syncOrderWithFills(tx, orderId);
+
+    await recordOrderEvent(
+      {
+        orderId,
+        type: "unclaimed",
+        actorId,
+        fillId,
+        previousStatus: synced?.previousStatus,
+        newStatus: synced?.order.status,
+        changes: {
+          claimedAmount: {
+            from: order.claimedAmount,
+            to: synced?.order.claimedAmount,
+          },
+        },
+      },
+      tx
+    );
+
+    // Counts against the claimer's reputation whether they let go themselves
+    // or the sweeper timed the claim out, unless the order was edited under
+    // them. Recounted from the trail so the total can't drift.
+    const fill = order.fills.find((candidate) => candidate.id === fillId);
+    if (fill) {
+      await tx.user.update({
+        where: { id: fill.claimerId },
+        data: {
+          abandonedClaims: await countAbandonedClaims(fill.claimerId, tx),
+        },
+      });
+    }
+
+    return synced;
+  });
+}
+
+/**
+ * Applies a creator's edit. Changing the order type moves active fills to
+ * the status that side starts in, and the amount can never drop below what
+ * is claimed at the moment the edit lands.
+ */
+export async function editOrder({
+  orderId,
+  actorId,
+  data,
+}: {
+  orderId: string;
+  actorId: string;
+  data: {
+    tier?: number;
+    pricePerUnit?: number;
+    amount?: number;
+    orderType?: OrderType;
+  };
+}) {
+  return prisma.$transaction(async (tx) => {
+    const order = await lockOrder(tx, orderId);
+
+    if (CLOSED_ORDER_STATUSES.includes(order.status)) {
+      throw new OrderConflictError(
+        "This order was just completed, expired or cancelled"
+      );
+    }
+    if (order.status === "DISPUTED") {
+      throw new OrderConflictError("This order is under dispute");
+    }
+    if (data.amount !== undefined && data.amount < order.claimedAmount) {
+      throw new OrderConflictError(
+        `Amount cannot be less than the ${order.claimedAmount} already claimed`
+      );
+    }
+
+    const updateData = { ...data, updatedAt: new Date() };
+    const changes = diffOrderFields(order, updateData);
+
+    await tx.order.update({
+      where: { id: orderId },
+      data: updateData,
+    });
+
+    const changedFills = await moveFillsToOrderType(tx, order, data.orderType);
+
+    const synced = await syncOrderWithFills(tx, orderId);
+
+    await recordOrderEvent(
+      {
+        orderId,
+        type: "edited",
+        actorId,
+        previousStatus: synced?.previousStatus,
+        newStatus: synced?.order.status,
+        changes,
+      },
+      tx
+    );
+
+    const activeFills = order.fills.filter((fill) =>
+      ACTIVE_FILL_STATUSES.includes(fill.status)
+    );
+
+    return { changes, changedFills, activeFills };
+  });
+}
+
+/**
+ * Applies an admin edit. Admins may open or close an unclaimed order, so
+ * instead of a fixed precondition the edit only lands if the order is still
+ * in the status the admin was looking at.
+ *
+ * Once an order has claims its status and claimer follow the fills, so those
+ * can't be set directly; the claims have to be completed, released or
+ * resolved instead. Other edits move the fills along like a creator's edit.
+ * Without claims there is no fill to carry a claimed status or a claimer.
+ */
+export async function adminEditOrder({
+  orderId,
+  actorId,
+  expectedStatus,
+  data,
+}: {
+  orderId: string;
+  actorId?: string;
+  expectedStatus: OrderStatus;
+  data: AdminOrderEdit;
+}) {
+  return prisma.$transaction(async (tx) => {
+    const order = await lockOrder(tx, orderId);
+    const hasFills = order.fills.length > 0;
+
+    // Reopening a closed order would bring back the claims cancelled with it
+    if (CLOSED_ORDER_STATUSES.includes(order.status)) {
+      throw new OrderConflictError(
+        "This order was just completed, expired or cancelled"
+      );
+    }
+    if (data.amount !== undefined && data.amount < order.claimedAmount) {
+      throw new OrderConflictError(
+        `Amount cannot be less than the ${order.claimedAmount} already claimed`
+      );
+    }
+    if (
+      hasFills &&
+      ((data.status !== undefined && data.status !== order.status) ||
+        (data.claimerId !== undefined && data.claimerId !== order.claimerId))
+    ) {
+      throw new OrderConflictError(
+        "This order has claims. Complete, release or resolve them instead of setting its status or claimer."
+      );
+    }
+    if (
+      !hasFills &&
+      ((data.status !== undefined &&
+        !UNCLAIMED_ORDER_STATUSES.includes(data.status)) ||
+        data.claimerId)
+    ) {
+      throw new OrderConflictError(
+        "This order has no claims, so it can only be open, expired or cancelled, with no claimer"
+      );
+    }
+
+    const { count } = await tx.order.updateMany({
+      where: { id: orderId, status: expectedStatus },
+      data: { ...data, updatedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new OrderConflictError(
+        `This order is now ${order.status}, not ${expectedStatus}. Refresh and try again.`
+      );
+    }
+
+    const changes: OrderEventChanges = diffOrderFields(order, data);
+    const changedFills = await moveFillsToOrderType(tx, order, data.orderType);
+
+    // Without claims the admin's open or closed status stands as set
+    const synced = hasFills ? await syncOrderWithFills(tx, orderId) : null;
+    const updatedOrder =
+      synced?.order ??
+      (await tx.order.findUniqueOrThrow({ where: { id: orderId } }));
+
+    await recordOrderEvent(
+      {
+        orderId,
+        type: "edited",
+        actorId,
+        previousStatus: expectedStatus,
+        newStatus: updatedOrder.status,
+        changes,
+      },
+      tx
+    );
+
+    const activeFills = order.fills.filter((fill) =>
+      ACTIVE_FILL_STATUSES.includes(fill.status)
+    );
+
+    return { order: updatedOrder, changes, changedFills, activeFills };
+  });
+}
+
+/**
+ * Expires an OPEN order past its expiresAt. A partly claimed order shrinks to
+ * the claimed quantity instead, and carries on with its claims.
+ */
+export async function expireOrder(orderId: string) {
+  return prisma.$transaction(async (tx) => {
+    const order = await lockOrder(tx, orderId);
+
+    if (order.status !== "OPEN") {
+      throw new OrderConflictError("This order is no longer open");
+    }
+
+    if (order.claimedAmount > 0) {
+      await tx.order.update({
+        where: { id: orderId },
+        data: { amount: order.claimedAmount },
+      });
+
+      const synced = await syncOrderWithFills(tx, orderId);
+
+      await recordOrderEvent(
+        {
+          orderId,
+          type: "expired",
+          previousStatus: synced?.previousStatus,
+          newStatus: synced?.order.status,
+          changes: {
+            amount: { from: order.amount, to: order.claimedAmount },
+          },
+        },
+        tx
+      );
+    } else {
+      await tx.order.update({
+        where: { id: orderId },
+        data: { status: "EXPIRED", updatedAt: new Date() },
+      });
+
+      await recordOrderEvent(
+        {
+          orderId,
+          type: "expired",
+          previousStatus: "OPEN",
+          newStatus: "EXPIRED",
+        },
+        tx
+      );
+    }
+
+    return order.amount - order.claimedAmount;
+  });
+}
+
+/**
+ * Cancels an order but keeps the row, so it still counts in history and
+ * stats. Active claims are cancelled with it; fills already traded stay
+ * FULFILLED.
+ */
+export async function cancelOrder({
+  orderId,
+  actorId,
+  reason,
+}: {
+  orderId: string;
+  actorId: string;
+  reason: string;
+}) {
+  return prisma.$transaction(async (tx) => {
+    const order = await lockOrder(tx, orderId);
+
+    if (CLOSED_ORDER_STATUSES.includes(order.status)) {
+      throw new OrderConflictError(
+        "This order was just completed, expired or cancelled"
+      );
+    }
+    if (order.status === "DISPUTED") {
+      throw new OrderConflictError("This order is under dispute");
+    }
+
+    const activeFills = order.fills.filter((fill) =>
+      ACTIVE_FILL_STATUSES.includes(fill.status)
+    );
+
+    await tx.orderFill.updateMany({
+      where: { orderId, status: { in: ACTIVE_FILL_STATUSES } },
+      data: { status: "CANCELLED", updatedAt: new Date() },
+    });
+
+    const updatedOrder = await tx.order.update({
+      where: { id: orderId },
+      data: {
+        status: "CANCELLED",
+        cancelledAt: new Date(),
+        cancelReason: reason,
+        updatedAt: new Date(),
+      },
+    });
+
+    await recordOrderEvent(
+      {
+        orderId,
+        type: "cancelled",
+        actorId,
+        previousStatus: order.status,
+        newStatus: "CANCELLED",
+        changes: { cancelReason: { from: null, to: reason } },
+      },
+      tx
+    );
+
+    return { order: updatedOrder, previousStatus: order.status, activeFills };
+  });
+}
+
+/**
+ * Flags a READY_TO_TRADE fill for an admin to resolve. The order is held as
+ * DISPUTED until then.
+ */
+export async function disputeFill({
+  orderId,
+  fillId,
+  actorId,
+  role,
+  reason,
+}: {
+  orderId: string;
+  fillId: string;
+  actorId: string;
+  role: TransitionRole;
+  reason: string;
+}) {
+  return prisma.$transaction(async (tx) => {
+    const order = await lockOrder(tx, orderId);
+    const fill = order.fills.find((candidate) => candidate.id === fillId);
+
+    await updateFillIf(
+      tx,
+      fillId,
+      getFromStatuses("dispute", { orderType: order.orderType, role }),
+      {
+        status: "DISPUTED",
+        disputedAt: new Date(),
+        disputedById: actorId,
+        disputeReason: reason,
+      }
+    );
+
+    const synced = await syncOrderWithFills(tx, orderId);
+
+    await recordOrderEvent(
+      {
+        orderId,
+        type: "disputed",
+        actorId,
+        fillId,
+        previousStatus: synced?.previousStatus,
+        newStatus: synced?.order.status,
+        changes: {
+          fillStatus: { from: fill?.status, to: "DISPUTED" },
+          disputeReason: { from: null, to: reason },
+        },
+      },
+      tx
+    );
+
+    return synced;
+  });
+}
+
+/**
+ * Resolves a disputed fill: complete the trade, release the claimed quantity
+ * back to the order, or send the fill back to READY_TO_TRADE
+ */
+export async function resolveDispute({
+  orderId,
+  fillId,
+  actorId,
+  resolution,
+  note,
+}: {
+  orderId: string;
+  fillId: string;
+  actorId?: string;
+  resolution: DisputeResolution;
+  note?: string;
+}) {
+  return prisma.$transaction(async (tx) => {
+    await lockOrder(tx, orderId);
+
+    let fillStatus: OrderStatus | null;
+    if (resolution === "release") {
+      const { count } = await tx.orderFill.deleteMany({
+        where: { id: fillId, status: "DISPUTED" },
+      });
+      if (count === 0) {
+        throw new OrderConflictError("This dispute was already resolved");
+      }
+      fillStatus = null;
+    } else {
+      fillStatus = resolution === "complete" ? "FULFILLED" : "READY_TO_TRADE";
+      // A resumed trade starts its confirmations over
+      await updateFillIf(tx, fillId, ["DISPUTED"], {
+        status: fillStatus,
+        fulfilledAt: resolution === "complete" ? new Date() : null,
+        ...(resolution === "resume"
+          ? { creatorConfirmedAt: null, claimerConfirmedAt: null }
+          : {}),
+      });
+    }
+
+    const synced = await syncOrderWithFills(tx, orderId);
+
+    const changes: OrderEventChanges = {
+      fillStatus: { from: "DISPUTED", to: fillStatus },
+      resolution: { from: null, to: resolution },
+    };
+    if (note) {
+      changes.resolutionNote = { from: null, to: note };
+    }
+
+    await recordOrderEvent(
+      {
+        orderId,
+        type: "dispute_resolved",
+        actorId,
+        fillId,
+        previousStatus: synced?.previousStatus,
+        newStatus: synced?.order.status,
+        changes,
+      },
+      tx
+    );
+
+    return { synced, fillStatus };
+  });
+}
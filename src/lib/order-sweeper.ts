@@ -0,0 +1,259 @@
+import { prisma } from "@/lib/prisma";
+import { NotificationService } from "@/lib/notification-service";
+import {
+  OrderConflictError,
+  completeFill,
+  expireOrder,
+  releaseFill,
+} from "@/lib/order-state";
+
+// How often the sweeper runs, and how long a claim may sit IN_PROGRESS before
+// it is released. A claim timeout of 0 disables automatic unclaiming.
+const SWEEP_INTERVAL_MINUTES = parseFloat(
+  process.env.ORDER_SWEEP_INTERVAL_MINUTES || "5"
+);
+const CLAIM_TIMEOUT_HOURS = parseFloat(process.env.CLAIM_TIMEOUT_HOURS || "48");
+// How long the second side of a two-sided confirmation has before the trade
+// completes on the first side's word. 0 leaves such trades waiting.
+const CONFIRMATION_TIMEOUT_HOURS = parseFloat(
+  process.env.CONFIRMATION_TIMEOUT_HOURS || "24"
+);
+
+// Keep a single timer across hot reloads in development
+const globalForSweeper = globalThis as unknown as {
+  orderSweeperTimer: NodeJS.Timeout | undefined;
+};
+
+/**
+ * Expires OPEN orders whose expiresAt has passed. Orders with claims keep the
+ * claimed quantity; only the unclaimed remainder expires.
+ */
+export async function expireStaleOrders(now: Date = new Date()) {
+  const orders = await prisma.order.findMany({
+    where: {
+      status: "OPEN",
+      expiresAt: { lte: now },
+    },
+    include: {
+      creator: {
+        select: {
+          discordId: true,
+        },
+      },
+    },
+  });
+
+  let expired = 0;
+
+  for (const order of orders) {
+    try {
+      // The order was claimed or changed mid-sweep; pick it up next run if
+      // still stale
+      const expiredAmount = await expireOrder(order.id).catch((error) => {
+        if (error instanceof OrderConflictError) return null;
+        throw error;
+      });
+
+      if (expiredAmount !== null) {
+        await NotificationService.notifyOrderExpired(order, expiredAmount);
+        await NotificationService.broadcastOrderChange(
+          "order_updated",
+          order.id
+        );
+        expired++;
+      }
+    } catch (error) {
+      console.error(`Error expiring order ${order.id}:`, error);
+    }
+  }
+
+  return expired;
+}
+
+/**
+ * Releases claims that have been IN_PROGRESS longer than the claim timeout
+ */
+export async function releaseStaleClaims(now: Date = new Date()) {
+  if (!(CLAIM_TIMEOUT_HOURS > 0)) {
+    return 0;
+  }
+
+  const cutoff = new Date(now.getTime() - CLAIM_TIMEOUT_HOURS * 60 * 60 * 1000);
+
+  const fills = await prisma.orderFill.findMany({
+    where: {
+      status: "IN_PROGRESS",
+      createdAt: { lte: cutoff },
+    },
+    include: {
+      claimer: {
+        select: {
+          id: true,
+          discordId: true,
+          name: true,
+          inGameName: true,
+        },
+      },
+      order: {
+        include: {
+          creator: {
+            select: {
+              discordId: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  let released = 0;
+
+  for (const fill of fills) {
+    try {
+      // Only release claims still IN_PROGRESS; one marked ready meanwhile stays
+      const wasReleased = await releaseFill({
+        orderId: fill.orderId,
+        fillId: fill.id,
+        from: ["IN_PROGRESS"],
+      }).then(
+        () => true,
+        (error) => {
+          if (error instanceof OrderConflictError) return false;
+          throw error;
+        }
+      );
+
+      if (wasReleased) {
+        await NotificationService.notifyClaimExpired(fill.order, fill);
+        await NotificationService.broadcastOrderChange(
+          "order_updated",
+          fill.orderId
+        );
+        released++;
+      }
+    } catch (error) {
+      console.error(`Error releasing claim ${fill.id}:`, error);
+    }
+  }
+
+  return released;
+}
+
+/**
+ * Completes trades where one side confirmed longer than the confirmation
+ * timeout ago and the other side never did
+ */
+export async function completeUnconfirmedTrades(now: Date = new Date()) {
+  if (!(CONFIRMATION_TIMEOUT_HOURS > 0)) {
+    return 0;
+  }
+
+  const cutoff = new Date(
+    now.getTime() - CONFIRMATION_TIMEOUT_HOURS * 60 * 60 * 1000
+  );
+
+  const fills = await prisma.orderFill.findMany({
+    where: {
+      status: "READY_TO_TRADE",
+      order: { requireConfirmation: true },
+      OR: [
+        { creatorConfirmedAt: { lte: cutoff }, claimerConfirmedAt: null },
+        { claimerConfirmedAt: { lte: cutoff }, creatorConfirmedAt: null },
+      ],
+    },
+    include: {
+      claimer: {
+        select: {
+          id: true,
+          discordId: true,
+          name: true,
+          inGameName: true,
+        },
+      },
+      order: {
+        include: {
+          creator: {
+            select: {
+              discordId: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  let completed = 0;
+
+  for (const fill of fills) {
+    try {
+      // A fill disputed or completed meanwhile is left alone
+      const wasCompleted = await completeFill({
+        orderId: fill.orderId,
+        fillId: fill.id,
+        role: "system",
+        via: "timeout",
+      }).then(
+        () => true,
+        (error) => {
+          if (error instanceof OrderConflictError) return false;
+          throw error;
+        }
+      );
+
+      if (wasCompleted) {
+        await NotificationService.notifyConfirmationTimedOut(fill.order, fill);
+        await NotificationService.broadcastOrderChange(
+          "order_updated",
+          fill.orderId
+        );
+        completed++;
+      }
+    } catch (error) {
+      console.error(`Error completing unconfirmed trade ${fill.id}:`, error);
+    }
+  }
+
+  return completed;
+}
+
+/**
+ * Runs one pass of the sweeper. Stale claims are released first so their
+ * quantity can expire with the order in the same pass. Passes that change
+ * nothing stay out of the logs.
+ */
+export async function runOrderSweep() {
+  try {
+    const released = await releaseStaleClaims();
+    const expired = await expireStaleOrders();
+    const confirmed = await completeUnconfirmedTrades();
+
+    if (released > 0 || expired > 0 || confirmed > 0) {
+      console.log(
+        `Order sweep: released ${released} stale claims, expired ${expired} orders, completed ${confirmed} unconfirmed trades`
+      );
+    }
+
+    return { released, expired, confirmed };
+  } catch (error) {
+    console.error("Error running order sweep:", error);
+    return { released: 0, expired: 0, confirmed: 0 };
+  }
+}
+
+/**
+ * Starts the background sweeper on an interval. Safe to call more than once.
+ */
+export function startOrderSweeper() {
+  if (globalForSweeper.orderSweeperTimer || !(SWEEP_INTERVAL_MINUTES > 0)) {
+    return;
+  }
+
+  globalForSweeper.orderSweeperTimer = setInterval(
+    runOrderSweep,
+    SWEEP_INTERVAL_MINUTES * 60 * 1000
+  );
+
+  console.log(
+    `Order sweeper started (every ${SWEEP_INTERVAL_MINUTES} min, claim timeout ${CLAIM_TIMEOUT_HOURS}h, confirmation timeout ${CONFIRMATION_TIMEOUT_HOURS}h)`
+  );
+}
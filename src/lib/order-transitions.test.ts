@@ -0,0 +1,218 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { OrderType } from "@prisma/client";
+import {
+  FillAction,
+  FillState,
+  TransitionRole,
+  canTransition,
+  findTransition,
+  getActorRole,
+  getClaimStatus,
+  getFromStatuses,
+  getTransitionNotification,
+  toFillState,
+} from "./order-transitions";
+
+const STATES: FillState[] = [
+  "UNCLAIMED",
+  "IN_PROGRESS",
+  "READY_TO_TRADE",
+  "FULFILLED",
+  "DISPUTED",
+];
+const ACTIONS: FillAction[] = [
+  "claim",
+  "ready",
+  "confirm",
+  "complete",
+  "unclaim",
+  "dispute",
+  "resume",
+];
+const ROLES: TransitionRole[] = ["creator", "claimer", "admin", "system"];
+const ORDER_TYPES: OrderType[] = ["BUY", "SELL"];
+
+// The lifecycle spelled out independently of FILL_TRANSITIONS, as
+// "action from orderType role" -> to. Anything not listed is not allowed.
+const EXPECTED: Record<string, FillState> = {
+  "claim UNCLAIMED BUY claimer": "IN_PROGRESS",
+  "claim UNCLAIMED SELL claimer": "READY_TO_TRADE",
+  "ready IN_PROGRESS BUY claimer": "READY_TO_TRADE",
+  "confirm READY_TO_TRADE BUY creator": "READY_TO_TRADE",
+  "confirm READY_TO_TRADE BUY claimer": "READY_TO_TRADE",
+  "confirm READY_TO_TRADE SELL creator": "READY_TO_TRADE",
+  "confirm READY_TO_TRADE SELL claimer": "READY_TO_TRADE",
+  "complete READY_TO_TRADE BUY creator": "FULFILLED",
+  "complete READY_TO_TRADE BUY claimer": "FULFILLED",
+  "complete READY_TO_TRADE BUY admin": "FULFILLED",
+  "complete READY_TO_TRADE BUY system": "FULFILLED",
+  "complete READY_TO_TRADE SELL creator": "FULFILLED",
+  "complete READY_TO_TRADE SELL claimer": "FULFILLED",
+  "complete READY_TO_TRADE SELL admin": "FULFILLED",
+  "complete READY_TO_TRADE SELL system": "FULFILLED",
+  "complete IN_PROGRESS BUY admin": "FULFILLED",
+  "complete IN_PROGRESS SELL admin": "FULFILLED",
+  "complete DISPUTED BUY admin": "FULFILLED",
+  "complete DISPUTED SELL admin": "FULFILLED",
+  "unclaim IN_PROGRESS BUY claimer": "UNCLAIMED",
+  "unclaim IN_PROGRESS SELL claimer": "UNCLAIMED",
+  "unclaim READY_TO_TRADE BUY claimer": "UNCLAIMED",
+  "unclaim READY_TO_TRADE SELL claimer": "UNCLAIMED",
+  "unclaim DISPUTED BUY admin": "UNCLAIMED",
+  "unclaim DISPUTED SELL admin": "UNCLAIMED",
+  "dispute READY_TO_TRADE BUY creator": "DISPUTED",
+  "dispute READY_TO_TRADE BUY claimer": "DISPUTED",
+  "dispute READY_TO_TRADE SELL creator": "DISPUTED",
+  "dispute READY_TO_TRADE SELL claimer": "DISPUTED",
+  "resume DISPUTED BUY admin": "READY_TO_TRADE",
+  "resume DISPUTED SELL admin": "READY_TO_TRADE",
+};
+
+// Notification titles by "from to" for moves between order statuses
+const EXPECTED_NOTIFICATIONS: Record<string, [string, string]> = {
+  "OPEN IN_PROGRESS": ["order_claimed", "Order Claimed"],
+  "OPEN READY_TO_TRADE": ["order_claimed", "Order Claimed & Ready"],
+  "IN_PROGRESS READY_TO_TRADE": ["order_ready", "Order Ready"],
+  "IN_PROGRESS FULFILLED": ["order_completed", "Order Completed"],
+  "READY_TO_TRADE FULFILLED": ["order_completed", "Order Completed"],
+  "DISPUTED FULFILLED": ["order_completed", "Order Completed"],
+  "IN_PROGRESS OPEN": ["order_cancelled", "Order Cancelled"],
+  "READY_TO_TRADE OPEN": ["order_cancelled", "Order Cancelled"],
+  "DISPUTED OPEN": ["order_cancelled", "Order Cancelled"],
+};
+
+const ORDER_STATUSES = [
+  "OPEN",
+  "IN_PROGRESS",
+  "READY_TO_TRADE",
+  "FULFILLED",
+  "EXPIRED",
+  "CANCELLED",
+  "DISPUTED",
+];
+
+// The status a fill state is stored as on the order
+function toOrderStatus(state: FillState) {
+  return state === "UNCLAIMED" ? "OPEN" : state;
+}
+
+test("every action, state, order type and role matches the lifecycle", () => {
+  for (const action of ACTIONS) {
+    for (const from of STATES) {
+      for (const orderType of ORDER_TYPES) {
+        for (const role of ROLES) {
+          const key = `${action} ${from} ${orderType} ${role}`;
+          const context = { from: toOrderStatus(from), orderType, role };
+
+          assert.equal(
+            findTransition(action, context)?.to ?? null,
+            EXPECTED[key] ?? null,
+            key
+          );
+          assert.equal(canTransition(action, context), key in EXPECTED, key);
+        }
+      }
+    }
+  }
+});
+
+test("statuses outside the fill lifecycle allow no action", () => {
+  for (const action of ACTIONS) {
+    for (const from of ["EXPIRED", "CANCELLED", "BOGUS"]) {
+      for (const orderType of ORDER_TYPES) {
+        for (const role of ROLES) {
+          assert.equal(canTransition(action, { from, orderType, role }), false);
+        }
+      }
+    }
+  }
+});
+
+test("no role means no transition", () => {
+  for (const action of ACTIONS) {
+    for (const from of STATES) {
+      for (const orderType of ORDER_TYPES) {
+        assert.equal(
+          canTransition(action, {
+            from: toOrderStatus(from),
+            orderType,
+            role: null,
+          }),
+          false
+        );
+      }
+    }
+  }
+});
+
+test("getFromStatuses lists the claimed states each action starts from", () => {
+  for (const action of ACTIONS) {
+    for (const orderType of ORDER_TYPES) {
+      for (const role of ROLES) {
+        const expected = STATES.filter(
+          (from) =>
+            from !== "UNCLAIMED" &&
+            `${action} ${from} ${orderType} ${role}` in EXPECTED
+        );
+
+        assert.deepEqual(
+          [...getFromStatuses(action, { orderType, role })].sort(),
+          [...expected].sort(),
+          `${action} ${orderType} ${role}`
+        );
+      }
+    }
+  }
+});
+
+test("getClaimStatus starts buy claims in progress and sell claims ready", () => {
+  assert.equal(getClaimStatus("BUY"), "IN_PROGRESS");
+  assert.equal(getClaimStatus("SELL"), "READY_TO_TRADE");
+});
+
+test("every status pair maps to the expected notification", () => {
+  for (const from of ORDER_STATUSES) {
+    for (const to of ORDER_STATUSES) {
+      const notification = getTransitionNotification(from, to);
+      const expected = EXPECTED_NOTIFICATIONS[`${from} ${to}`];
+
+      assert.deepEqual(
+        notification ? [notification.type, notification.title] : null,
+        expected ?? null,
+        `${from} -> ${to}`
+      );
+    }
+  }
+});
+
+test("notification messages carry the claimer and order placeholders", () => {
+  assert.match(
+    getTransitionNotification("OPEN", "IN_PROGRESS")!.message,
+    /\{claimer\}.*\{order\}/
+  );
+  assert.match(
+    getTransitionNotification("READY_TO_TRADE", "FULFILLED")!.message,
+    /\{order\}/
+  );
+});
+
+test("toFillState maps order statuses onto the table", () => {
+  assert.equal(toFillState(undefined), "UNCLAIMED");
+  assert.equal(toFillState(null), "UNCLAIMED");
+  assert.equal(toFillState("OPEN"), "UNCLAIMED");
+  for (const state of STATES.filter((state) => state !== "UNCLAIMED")) {
+    assert.equal(toFillState(state), state);
+  }
+  assert.equal(toFillState("EXPIRED"), null);
+  assert.equal(toFillState("CANCELLED"), null);
+});
+
+test("getActorRole tells creators, claimers and bystanders apart", () => {
+  assert.equal(getActorRole("creator", "creator", "claimer"), "creator");
+  assert.equal(getActorRole("claimer", "creator", "claimer"), "claimer");
+  assert.equal(getActorRole("someone", "creator", "claimer"), null);
+  // Before a fill exists anyone but the creator could claim
+  assert.equal(getActorRole("someone", "creator"), "claimer");
+  assert.equal(getActorRole("creator", "creator"), "creator");
+});
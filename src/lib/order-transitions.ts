@@ -0,0 +1,331 @@
+import type { OrderStatus, OrderType } from "@prisma/client";
+
+// The lifecycle of a single claim (fill) as one table. API routes check it
+// before acting, order-state re-checks it under the row lock,
+// NotificationService reads the notification off it and the orders page uses
+// it to decide which buttons to show. Kept free of server imports so client
+// components can use it too.
+
+// Where a fill can be. UNCLAIMED stands for the quantity before a fill exists
+// and after it is released, which is OPEN at the order level.
+export type FillState =
+  | "UNCLAIMED"
+  | Extract<
+      OrderStatus,
+      "IN_PROGRESS" | "READY_TO_TRADE" | "FULFILLED" | "DISPUTED"
+    >;
+
+export type FillAction =
+  "claim" | "ready" | "confirm" | "complete" | "unclaim" | "dispute" | "resume";
+
+// Admins appear for completions they force through the admin order editor and
+// for resolving disputes. "system" is the order sweeper completing a trade
+// whose confirmation timed out.
+export type TransitionRole = "creator" | "claimer" | "admin" | "system";
+
+export type TransitionNotificationType =
+  "order_claimed" | "order_ready" | "order_cancelled" | "order_completed";
+
+// Sent to the order creator. {claimer} and {order} in the message are filled
+// in by NotificationService.
+export interface TransitionNotification {
+  type: TransitionNotificationType;
+  title: string;
+  message: string;
+}
+
+export interface FillTransition {
+  action: FillAction;
+  from: FillState;
+  to: FillState;
+  orderTypes: OrderType[];
+  roles: TransitionRole[];
+  notification: TransitionNotification | null;
+}
+
+const CLAIMED: TransitionNotification = {
+  type: "order_claimed",
+  title: "Order Claimed",
+  message: "{claimer} claimed your {order}",
+};
+
+const CLAIMED_AND_READY: TransitionNotification = {
+  type: "order_claimed",
+  title: "Order Claimed & Ready",
+  message: "{claimer} claimed your {order} and it's ready for pickup",
+};
+
+const READY: TransitionNotification = {
+  type: "order_ready",
+  title: "Order Ready",
+  message: "Your {order} is ready for pickup",
+};
+
+const CANCELLED: TransitionNotification = {
+  type: "order_cancelled",
+  title: "Order Cancelled",
+  message: "Your {order} was cancelled",
+};
+
+const COMPLETED: TransitionNotification = {
+  type: "order_completed",
+  title: "Order Completed",
+  message: "Your {order} has been completed",
+};
+
+export const FILL_TRANSITIONS: readonly FillTransition[] = [
+  // A buy claim still has to gather the items; a sell claim can trade at once
+  {
+    action: "claim",
+    from: "UNCLAIMED",
+    to: "IN_PROGRESS",
+    orderTypes: ["BUY"],
+    roles: ["claimer"],
+    notification: CLAIMED,
+  },
+  {
+    action: "claim",
+    from: "UNCLAIMED",
+    to: "READY_TO_TRADE",
+    orderTypes: ["SELL"],
+    roles: ["claimer"],
+    notification: CLAIMED_AND_READY,
+  },
+  {
+    action: "ready",
+    from: "IN_PROGRESS",
+    to: "READY_TO_TRADE",
+    orderTypes: ["BUY"],
+    roles: ["claimer"],
+    notification: READY,
+  },
+  {
+    action: "complete",
+    from: "READY_TO_TRADE",
+    to: "FULFILLED",
+    orderTypes: ["BUY", "SELL"],
+    roles: ["creator", "claimer"],
+    notification: COMPLETED,
+  },
+  // On orders that require confirmation each side confirms separately; the
+  // fill stays READY_TO_TRADE until the second one completes it
+  {
+    action: "confirm",
+    from: "READY_TO_TRADE",
+    to: "READY_TO_TRADE",
+    orderTypes: ["BUY", "SELL"],
+    roles: ["creator", "claimer"],
+    notification: null,
+  },
+  {
+    action: "complete",
+    from: "IN_PROGRESS",
+    to: "FULFILLED",
+    orderTypes: ["BUY", "SELL"],
+    roles: ["admin"],
+    notification: COMPLETED,
+  },
+  {
+    action: "complete",
+    from: "READY_TO_TRADE",
+    to: "FULFILLED",
+    orderTypes: ["BUY", "SELL"],
+    roles: ["admin", "system"],
+    notification: COMPLETED,
+  },
+  {
+    action: "unclaim",
+    from: "IN_PROGRESS",
+    to: "UNCLAIMED",
+    orderTypes: ["BUY", "SELL"],
+    roles: ["claimer"],
+    notification: CANCELLED,
+  },
+  {
+    action: "unclaim",
+    from: "READY_TO_TRADE",
+    to: "UNCLAIMED",
+    orderTypes: ["BUY", "SELL"],
+    roles: ["claimer"],
+    notification: CANCELLED,
+  },
+  // Either side can flag a trade that went wrong; the other party and the
+  // admins are told by NotificationService.notifyOrderDisputed
+  {
+    action: "dispute",
+    from: "READY_TO_TRADE",
+    to: "DISPUTED",
+    orderTypes: ["BUY", "SELL"],
+    roles: ["creator", "claimer"],
+    notification: null,
+  },
+  // An admin resolves a dispute by completing the trade, releasing the claim
+  // or sending it back to READY_TO_TRADE
+  {
+    action: "complete",
+    from: "DISPUTED",
+    to: "FULFILLED",
+    orderTypes: ["BUY", "SELL"],
+    roles: ["admin"],
+    notification: COMPLETED,
+  },
+  {
+    action: "unclaim",
+    from: "DISPUTED",
+    to: "UNCLAIMED",
+    orderTypes: ["BUY", "SELL"],
+    roles: ["admin"],
+    notification: CANCELLED,
+  },
+  {
+    action: "resume",
+    from: "DISPUTED",
+    to: "READY_TO_TRADE",
+    orderTypes: ["BUY", "SELL"],
+    roles: ["admin"],
+    notification: null,
+  },
+];
+
+// How an admin can settle a disputed fill, and the action each one takes
+export type DisputeResolution = "complete" | "release" | "resume";
+
+export const DISPUTE_RESOLUTION_ACTIONS: Record<DisputeResolution, FillAction> =
+  {
+    complete: "complete",
+    release: "unclaim",
+    resume: "resume",
+  };
+
+/**
+ * Maps an order or fill status onto the table. OPEN, or no fill at all, is
+ * UNCLAIMED; statuses the table doesn't cover map to null.
+ */
+export function toFillState(
+  status: string | null | undefined
+): FillState | null {
+  switch (status) {
+    case undefined:
+    case null:
+    case "OPEN":
+      return "UNCLAIMED";
+    case "IN_PROGRESS":
+    case "READY_TO_TRADE":
+    case "FULFILLED":
+    case "DISPUTED":
+      return status;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Works out how a user relates to a fill. Without a claimerId, i.e. before a
+ * fill exists, anyone other than the creator is a prospective claimer.
+ */
+export function getActorRole(
+  userId: string,
+  creatorId: string,
+  claimerId?: string
+): TransitionRole | null {
+  if (userId === creatorId) {
+    return "creator";
+  }
+  if (claimerId === undefined || claimerId === userId) {
+    return "claimer";
+  }
+  return null;
+}
+
+/**
+ * Finds the transition an action takes from a state, or null if the action
+ * isn't allowed there for this order type and role
+ */
+export function findTransition(
+  action: FillAction,
+  {
+    from,
+    orderType,
+    role,
+  }: { from: string; orderType: string; role: TransitionRole | null }
+): FillTransition | null {
+  const state = toFillState(from);
+  if (!state || !role) {
+    return null;
+  }
+
+  return (
+    FILL_TRANSITIONS.find(
+      (transition) =>
+        transition.action === action &&
+        transition.from === state &&
+        transition.orderTypes.includes(orderType as OrderType) &&
+        transition.roles.includes(role)
+    ) ?? null
+  );
+}
+
+export function canTransition(
+  action: FillAction,
+  context: { from: string; orderType: string; role: TransitionRole | null }
+) {
+  return findTransition(action, context) !== null;
+}
+
+/**
+ * Statuses a fill may be in for an action on this order type and role. Used
+ * for the conditional writes in order-state.
+ */
+export function getFromStatuses(
+  action: FillAction,
+  { orderType, role }: { orderType: OrderType; role: TransitionRole }
+): OrderStatus[] {
+  const statuses: OrderStatus[] = [];
+  for (const transition of FILL_TRANSITIONS) {
+    if (
+      transition.action === action &&
+      transition.orderTypes.includes(orderType) &&
+      transition.roles.includes(role) &&
+      transition.from !== "UNCLAIMED" &&
+      !statuses.includes(transition.from)
+    ) {
+      statuses.push(transition.from);
+    }
+  }
+  return statuses;
+}
+
+/**
+ * The status a new claim on this order type starts in
+ */
+export function getClaimStatus(orderType: OrderType): OrderStatus {
+  const transition = FILL_TRANSITIONS.find(
+    (candidate) =>
+      candidate.action === "claim" && candidate.orderTypes.includes(orderType)
+  );
+
+  if (!transition || transition.to === "UNCLAIMED") {
+    throw new Error(`No claim transition for ${orderType} orders`);
+  }
+
+  return transition.to;
+}
+
+/**
+ * The notification for a move between two statuses, whatever caused it.
+ * Admin edits and order type changes reach here without an action, so this
+ * only looks at the states.
+ */
+export function getTransitionNotification(
+  previousStatus: string,
+  newStatus: string
+): TransitionNotification | null {
+  const from = toFillState(previousStatus);
+  const to = toFillState(newStatus);
+
+  return (
+    FILL_TRANSITIONS.find(
+      (transition) => transition.from === from && transition.to === to
+    )?.notification ?? null
+  );
+}
@@ -0,0 +1,96 @@
+import { PriceAlertType } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { NotificationService } from "@/lib/notification-service";
+
+/**
+ * Whether a price move from previousPrice to newPrice sets off an alert.
+ * Threshold alerts fire when the price crosses the threshold, so an alert
+ * does not repeat while the price stays on the far side of it. With no
+ * previous price (a newly listed item) they fire if the price is already past
+ * the threshold.
+ */
+export function isAlertTriggered(
+  alert: { type: PriceAlertType; threshold: number },
+  previousPrice: number | undefined,
+  newPrice: number
+) {
+  switch (alert.type) {
+    case "ABOVE":
+      return (
+        newPrice >= alert.threshold &&
+        (previousPrice === undefined || previousPrice < alert.threshold)
+      );
+
+    case "BELOW":
+      return (
+        newPrice <= alert.threshold &&
+        (previousPrice === undefined || previousPrice > alert.threshold)
+      );
+
+    case "PERCENT_CHANGE":
+      if (!previousPrice) return false;
+      return (
+        (Math.abs(newPrice - previousPrice) / previousPrice) * 100 >=
+        alert.threshold
+      );
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Checks every alert on an item/tier against a price change and notifies the
+ * owners of the ones it sets off
+ */
+export async function evaluatePriceAlerts({
+  itemName,
+  tier,
+  newPrice,
+  previousPrice,
+}: {
+  itemName: string;
+  tier: number;
+  newPrice: number;
+  previousPrice?: number;
+}) {
+  try {
+    const alerts = await prisma.priceAlert.findMany({
+      where: { itemName, tier },
+      include: {
+        user: {
+          select: {
+            discordId: true,
+          },
+        },
+      },
+    });
+
+    const triggered = alerts.filter((alert) =>
+      isAlertTriggered(alert, previousPrice, newPrice)
+    );
+
+    for (const alert of triggered) {
+      if (alert.user.discordId) {
+        await NotificationService.notifyPriceAlert(
+          alert.user.discordId,
+          alert,
+          { newPrice, previousPrice }
+        );
+      }
+    }
+
+    if (triggered.length > 0) {
+      await prisma.priceAlert.updateMany({
+        where: { id: { in: triggered.map((alert) => alert.id) } },
+        data: { lastTriggeredAt: new Date() },
+      });
+    }
+
+    return triggered.length;
+  } catch (error) {
+    // A failed alert check must not undo the price update
+    console.error("Error evaluating price alerts:", error);
+    return 0;
+  }
+}
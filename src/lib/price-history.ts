@@ -1,4 +1,7 @@
+import { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
+import { priceChangesEmbed, sendDiscordWebhook } from "@/lib/discord-webhooks";
+import { evaluatePriceAlerts } from "@/lib/price-alerts";
 
 export interface PriceUpdate {
   itemName: string;
@@ -9,19 +12,20 @@ export interface PriceUpdate {
   userId: string;
 }
 
+// Saving a whole price table writes it row by row, which can outlast
+// Prisma's default 5 s transaction timeout
+export const PRICE_TRANSACTION_OPTIONS = { timeout: 30000 };
+
 /**
- * Records a price change in the price history table
+ * Records a price change in the price history table. Pass the transaction
+ * client when the change belongs to a larger write so both commit together.
  */
-export async function recordPriceChange({
-  itemName,
-  tier,
-  newPrice,
-  previousPrice,
-  changeType,
-  userId,
-}: PriceUpdate) {
+export async function recordPriceChange(
+  { itemName, tier, newPrice, previousPrice, changeType, userId }: PriceUpdate,
+  client: Prisma.TransactionClient = prisma
+) {
   try {
-    await prisma.priceHistory.create({
+    await client.priceHistory.create({
       data: {
         itemName,
         tier,
@@ -42,22 +46,27 @@ export async function recordPriceChange({
 }
 
 /**
- * Updates a price and automatically records the change in history
+ * Updates a price and automatically records the change in history. Returns
+ * the change, or null when the price is already newPrice. Pass the returned
+ * changes to announcePriceChanges once they are committed.
  */
-export async function updatePriceWithHistory({
-  itemName,
-  tier,
-  newPrice,
-  userId,
-}: {
-  itemName: string;
-  tier: number;
-  newPrice: number;
-  userId: string;
-}) {
+export async function updatePriceWithHistory(
+  {
+    itemName,
+    tier,
+    newPrice,
+    userId,
+  }: {
+    itemName: string;
+    tier: number;
+    newPrice: number;
+    userId: string;
+  },
+  client: Prisma.TransactionClient = prisma
+): Promise<PriceUpdate | null> {
   try {
     // Get the current price first
-    const existingPrice = await prisma.pricing.findUnique({
+    const existingPrice = await client.pricing.findUnique({
       where: {
         itemName_tier: {
           itemName,
@@ -66,16 +75,22 @@ export async function updatePriceWithHistory({
       },
     });
 
-    let changeType: "created" | "updated" = "created";
-    let previousPrice: number | undefined;
-
-    if (existingPrice) {
-      changeType = "updated";
-      previousPrice = existingPrice.price;
+    // Saving a whole table re-sends every price; only real changes count
+    if (existingPrice && existingPrice.price === newPrice) {
+      return null;
     }
 
+    const change: PriceUpdate = {
+      itemName,
+      tier,
+      newPrice,
+      previousPrice: existingPrice?.price,
+      changeType: existingPrice ? "updated" : "created",
+      userId,
+    };
+
     // Update or create the price
-    const updatedPrice = await prisma.pricing.upsert({
+    await client.pricing.upsert({
       where: {
         itemName_tier: {
           itemName,
@@ -96,16 +111,9 @@ export async function updatePriceWithHistory({
     });
 
     // Record the change in history
-    await recordPriceChange({
-      itemName,
-      tier,
-      newPrice,
-      previousPrice,
-      changeType,
-      userId,
-    });
+    await recordPriceChange(change, client);
 
-    return updatedPrice;
+    return change;
   } catch (error) {
     console.error("Error updating price with history:", error);
     throw error;
@@ -113,20 +121,24 @@ export async function updatePriceWithHistory({
 }
 
 /**
- * Deletes a price and records the deletion in history
+ * Deletes a price and records the deletion in history. Returns the change for
+ * announcePriceChanges.
  */
-export async function deletePriceWithHistory({
-  itemName,
-  tier,
-  userId,
-}: {
-  itemName: string;
-  tier: number;
-  userId: string;
-}) {
+export async function deletePriceWithHistory(
+  {
+    itemName,
+    tier,
+    userId,
+  }: {
+    itemName: string;
+    tier: number;
+    userId: string;
+  },
+  client: Prisma.TransactionClient = prisma
+): Promise<PriceUpdate> {
   try {
     // Get the current price first
-    const existingPrice = await prisma.pricing.findUnique({
+    const existingPrice = await client.pricing.findUnique({
       where: {
         itemName_tier: {
           itemName,
@@ -140,7 +152,7 @@ export async function deletePriceWithHistory({
     }
 
     // Delete the price
-    await prisma.pricing.delete({
+    await client.pricing.delete({
       where: {
         itemName_tier: {
           itemName,
@@ -149,23 +161,49 @@ export async function deletePriceWithHistory({
       },
     });
 
-    // Record the deletion in history
-    await recordPriceChange({
+    const change: PriceUpdate = {
       itemName,
       tier,
       newPrice: 0, // Use 0 to indicate deletion
       previousPrice: existingPrice.price,
       changeType: "deleted",
       userId,
-    });
+    };
 
-    return existingPrice;
+    // Record the deletion in history
+    await recordPriceChange(change, client);
+
+    return change;
   } catch (error) {
     console.error("Error deleting price with history:", error);
     throw error;
   }
 }
 
+/**
+ * Posts one Discord embed for a batch of committed price changes and checks
+ * price alerts against them. Runs in the background, so a slow webhook never
+ * holds up the save.
+ */
+export function announcePriceChanges(changes: (PriceUpdate | null)[]) {
+  const changed = changes.filter(
+    (change): change is PriceUpdate => change !== null
+  );
+  if (changed.length === 0) return;
+
+  (async () => {
+    await sendDiscordWebhook("price_changed", priceChangesEmbed(changed));
+
+    // Let users whose price alerts these changes cross know
+    for (const change of changed) {
+      if (change.changeType === "deleted") continue;
+      await evaluatePriceAlerts(change);
+    }
+  })().catch((error) => {
+    console.error("Error announcing price changes:", error);
+  });
+}
+
 /**
  * Gets price history for a specific item and tier
  */
@@ -0,0 +1,205 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  PriceRow,
+  diffPrices,
+  hashPriceDiff,
+  parsePriceFile,
+  pricesToCsv,
+} from "./price-import";
+
+test("CSV rows are read with or without the header and around blank lines", () => {
+  const { rows, errors } = parsePriceFile(
+    "\r\nitemName,tier,price\r\niron,3,2.5\r\n\r\n  wood , 1 , 4 \r\n",
+    "csv"
+  );
+
+  assert.deepEqual(errors, []);
+  assert.deepEqual(rows, [
+    { itemName: "iron", tier: 3, price: 2.5 },
+    { itemName: "wood", tier: 1, price: 4 },
+  ]);
+});
+
+test("quoted CSV fields keep their commas, quotes and line breaks", () => {
+  const { rows, errors } = parsePriceFile(
+    [
+      "itemName,tier,price",
+      '"iron, refined",3,2.5',
+      '"the ""good"" wood",1,4',
+      '"two',
+      'lines",2,1',
+      "stone,0,1",
+    ].join("\n"),
+    "csv"
+  );
+
+  assert.deepEqual(rows, [
+    { itemName: "iron, refined", tier: 3, price: 2.5 },
+    { itemName: 'the "good" wood', tier: 1, price: 4 },
+    { itemName: "two\nlines", tier: 2, price: 1 },
+  ]);
+  // Lines are still counted in the file, not in records
+  assert.deepEqual(
+    errors.map((error) => error.location),
+    ["line 6"]
+  );
+});
+
+test("an unclosed quote is reported on the line it opens", () => {
+  const { rows, errors } = parsePriceFile(
+    'iron,3,2.5\n"wood,1,4\nstone,2,1',
+    "csv"
+  );
+
+  assert.deepEqual(rows, [{ itemName: "iron", tier: 3, price: 2.5 }]);
+  assert.deepEqual(errors, [
+    { location: "line 2", message: "Quoted field is never closed" },
+  ]);
+});
+
+test("every bad CSV row is reported and the good ones still come through", () => {
+  const { rows, errors } = parsePriceFile(
+    [
+      "iron,3,2.5",
+      "iron,3",
+      ",3,2.5",
+      "iron,11,2.5",
+      "iron,2.5,2.5",
+      "iron,2,0",
+      "iron,2,",
+      "iron,2,cheap",
+      "wood,1,4",
+    ].join("\n"),
+    "csv"
+  );
+
+  assert.deepEqual(rows, [
+    { itemName: "iron", tier: 3, price: 2.5 },
+    { itemName: "wood", tier: 1, price: 4 },
+  ]);
+  assert.deepEqual(errors, [
+    { location: "line 2", message: "Expected itemName,tier,price" },
+    { location: "line 3", message: "Item name is required" },
+    { location: "line 4", message: "Tier must be a whole number from 1 to 10" },
+    { location: "line 5", message: "Tier must be a whole number from 1 to 10" },
+    { location: "line 6", message: "Price must be a positive number" },
+    { location: "line 7", message: "Price must be a positive number" },
+    { location: "line 8", message: "Price must be a positive number" },
+  ]);
+});
+
+test("an item and tier listed twice is an error", () => {
+  const { errors } = parsePriceFile("iron,3,2.5\nwood,1,4\niron,3,3", "csv");
+
+  assert.deepEqual(errors, [
+    { location: "T3 iron", message: "Listed more than once" },
+  ]);
+});
+
+test("JSON files can use the pricing data shape or a flat list", () => {
+  const expected = [
+    { itemName: "iron", tier: 3, price: 2.5 },
+    { itemName: "wood", tier: 1, price: 4 },
+  ];
+
+  assert.deepEqual(
+    parsePriceFile(
+      JSON.stringify({ items: { iron: { tier3: 2.5 }, wood: { tier1: 4 } } }),
+      "json"
+    ),
+    { rows: expected, errors: [] }
+  );
+  assert.deepEqual(parsePriceFile(JSON.stringify(expected), "json"), {
+    rows: expected,
+    errors: [],
+  });
+});
+
+test("bad JSON entries are reported by their path", () => {
+  assert.deepEqual(parsePriceFile("{", "json").errors, [
+    { location: "file", message: "File is not valid JSON" },
+  ]);
+  assert.deepEqual(parsePriceFile("{}", "json").errors, [
+    {
+      location: "file",
+      message: "Expected an items object or an array of prices",
+    },
+  ]);
+  assert.deepEqual(
+    parsePriceFile(
+      JSON.stringify({ items: { iron: 3, wood: { t1: 4, tier2: -1 } } }),
+      "json"
+    ).errors,
+    [
+      { location: "items.iron", message: "Expected an object of tier prices" },
+      { location: "items.wood.t1", message: "Tier keys must look like tier1" },
+      {
+        location: "items.wood.tier2",
+        message: "Price must be a positive number",
+      },
+    ]
+  );
+  assert.deepEqual(
+    parsePriceFile(JSON.stringify([{ itemName: "iron", tier: 3 }]), "json")
+      .errors,
+    [{ location: "[0]", message: "Price must be a positive number" }]
+  );
+});
+
+const current: PriceRow[] = [
+  { itemName: "iron", tier: 3, price: 2.5 },
+  { itemName: "stone", tier: 2, price: 1.5 },
+  { itemName: "wood", tier: 1, price: 4 },
+];
+
+test("the file replaces the table: new, changed, same and missing prices", () => {
+  const diff = diffPrices(
+    [
+      { itemName: "iron", tier: 3, price: 3 },
+      { itemName: "wood", tier: 1, price: 4 },
+      { itemName: "wood", tier: 2, price: 6 },
+    ],
+    current
+  );
+
+  assert.deepEqual(diff, {
+    created: [{ itemName: "wood", tier: 2, price: 6 }],
+    updated: [{ itemName: "iron", tier: 3, price: 3, previousPrice: 2.5 }],
+    deleted: [{ itemName: "stone", tier: 2, price: 1.5 }],
+    unchanged: 1,
+  });
+});
+
+test("the preview hash only changes when the diff does", () => {
+  const incoming = [
+    { itemName: "iron", tier: 3, price: 3 },
+    { itemName: "wood", tier: 1, price: 4 },
+  ];
+  const hash = hashPriceDiff(diffPrices(incoming, current));
+
+  assert.match(hash, /^[0-9a-f]{64}$/);
+  assert.equal(hashPriceDiff(diffPrices(incoming, [...current])), hash);
+
+  // Someone saved a price after the preview
+  const moved = current.map((row) =>
+    row.itemName === "wood" ? { ...row, price: 5 } : row
+  );
+  assert.notEqual(hashPriceDiff(diffPrices(incoming, moved)), hash);
+
+  // Someone removed a price the file would have deleted anyway
+  const removed = current.filter((row) => row.itemName !== "stone");
+  assert.notEqual(hashPriceDiff(diffPrices(incoming, removed)), hash);
+});
+
+test("an exported CSV imports back unchanged", () => {
+  const rows = [
+    ...current,
+    { itemName: 'odd, "quoted"\nname', tier: 4, price: 0.125 },
+  ];
+
+  assert.deepEqual(parsePriceFile(pricesToCsv(rows), "csv"), {
+    rows,
+    errors: [],
+  });
+});
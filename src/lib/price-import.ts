@@ -0,0 +1,320 @@
+import { createHash } from "crypto";
+
+// Parsing, validation and diffing for bulk price files. Free of database
+// access so the admin import route can dry-run a file before applying it.
+
+export type PriceFileFormat = "csv" | "json";
+
+export interface PriceRow {
+  itemName: string;
+  tier: number;
+  price: number;
+}
+
+export interface PriceImportError {
+  // 1-based line for CSV, entry path for JSON
+  location: string;
+  message: string;
+}
+
+export interface PriceDiff {
+  created: PriceRow[];
+  updated: (PriceRow & { previousPrice: number })[];
+  deleted: PriceRow[];
+  unchanged: number;
+}
+
+export const MIN_TIER = 1;
+export const MAX_TIER = 10;
+
+const CSV_HEADER = ["itemName", "tier", "price"];
+
+function validateRow(
+  itemName: unknown,
+  tier: unknown,
+  price: unknown,
+  location: string,
+  errors: PriceImportError[]
+): PriceRow | null {
+  const name = typeof itemName === "string" ? itemName.trim() : "";
+  const tierNumber = typeof tier === "string" ? Number(tier.trim()) : tier;
+  const priceNumber =
+    typeof price === "string" && price.trim() !== ""
+      ? Number(price.trim())
+      : price;
+
+  if (!name) {
+    errors.push({ location, message: "Item name is required" });
+    return null;
+  }
+  if (
+    typeof tierNumber !== "number" ||
+    !Number.isInteger(tierNumber) ||
+    tierNumber < MIN_TIER ||
+    tierNumber > MAX_TIER
+  ) {
+    errors.push({
+      location,
+      message: `Tier must be a whole number from ${MIN_TIER} to ${MAX_TIER}`,
+    });
+    return null;
+  }
+  if (
+    typeof priceNumber !== "number" ||
+    !isFinite(priceNumber) ||
+    priceNumber <= 0
+  ) {
+    errors.push({ location, message: "Price must be a positive number" });
+    return null;
+  }
+
+  return { itemName: name, tier: tierNumber, price: priceNumber };
+}
+
+interface CsvRecord {
+  // 1-based line the record starts on
+  line: number;
+  fields: string[];
+}
+
+// Splits CSV content into records, honouring double-quoted fields. A quoted
+// field may hold commas, doubled quotes and line breaks, as pricesToCsv writes
+// them. Returns the line of a quote left open at the end, if any; that record
+// is dropped.
+function splitCsvRecords(content: string) {
+  const records: CsvRecord[] = [];
+  let fields: string[] = [];
+  let current = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(current);
+      current = "";
+    } else if (char === "\n") {
+      fields.push(current);
+      records.push({ line: recordLine, fields });
+      fields = [];
+      current = "";
+      line++;
+      recordLine = line;
+    } else if (char === "\r" && content[i + 1] === "\n") {
+      // The \n that follows ends the record
+      continue;
+    } else {
+      current += char;
+    }
+  }
+
+  if (quoted) {
+    return { records, unclosedLine: recordLine };
+  }
+
+  fields.push(current);
+  records.push({ line: recordLine, fields });
+  return { records, unclosedLine: null };
+}
+
+function parseCsv(content: string, errors: PriceImportError[]) {
+  const rows: PriceRow[] = [];
+  const { records, unclosedLine } = splitCsvRecords(content);
+
+  records.forEach(({ line, fields }) => {
+    if (fields.length === 1 && !fields[0].trim()) return;
+
+    // Skip the header wherever it is, so files with a leading blank line work
+    if (fields[0]?.trim() === CSV_HEADER[0]) return;
+
+    if (fields.length !== CSV_HEADER.length) {
+      errors.push({
+        location: `line ${line}`,
+        message: `Expected ${CSV_HEADER.join(",")}`,
+      });
+      return;
+    }
+
+    const row = validateRow(
+      fields[0],
+      fields[1],
+      fields[2],
+      `line ${line}`,
+      errors
+    );
+    if (row) rows.push(row);
+  });
+
+  if (unclosedLine !== null) {
+    errors.push({
+      location: `line ${unclosedLine}`,
+      message: "Quoted field is never closed",
+    });
+  }
+
+  return rows;
+}
+
+// Accepts the PricingData shape used by the admin API ({ items: { name:
+// { tier1: price } } }) or a flat array of { itemName, tier, price }
+function parseJson(content: string, errors: PriceImportError[]) {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    errors.push({ location: "file", message: "File is not valid JSON" });
+    return [];
+  }
+
+  const rows: PriceRow[] = [];
+
+  if (Array.isArray(parsed)) {
+    parsed.forEach((entry, index) => {
+      const row = validateRow(
+        entry?.itemName,
+        entry?.tier,
+        entry?.price,
+        `[${index}]`,
+        errors
+      );
+      if (row) rows.push(row);
+    });
+    return rows;
+  }
+
+  if (!parsed?.items || typeof parsed.items !== "object") {
+    errors.push({
+      location: "file",
+      message: "Expected an items object or an array of prices",
+    });
+    return [];
+  }
+
+  for (const [itemName, prices] of Object.entries(parsed.items)) {
+    if (!prices || typeof prices !== "object") {
+      errors.push({
+        location: `items.${itemName}`,
+        message: "Expected an object of tier prices",
+      });
+      continue;
+    }
+
+    for (const [tierKey, price] of Object.entries(prices)) {
+      const location = `items.${itemName}.${tierKey}`;
+      if (!/^tier\d+$/.test(tierKey)) {
+        errors.push({ location, message: "Tier keys must look like tier1" });
+        continue;
+      }
+
+      const row = validateRow(
+        itemName,
+        parseInt(tierKey.replace("tier", "")),
+        price,
+        location,
+        errors
+      );
+      if (row) rows.push(row);
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Parses a price file. Every problem is collected rather than stopping at
+ * the first, so the admin can fix the file in one pass.
+ */
+export function parsePriceFile(content: string, format: PriceFileFormat) {
+  const errors: PriceImportError[] = [];
+  const rows =
+    format === "csv" ? parseCsv(content, errors) : parseJson(content, errors);
+
+  const seen = new Set<string>();
+  for (const row of rows) {
+    const key = `${row.itemName}-${row.tier}`;
+    if (seen.has(key)) {
+      errors.push({
+        location: `T${row.tier} ${row.itemName}`,
+        message: "Listed more than once",
+      });
+    }
+    seen.add(key);
+  }
+
+  return { rows, errors };
+}
+
+/**
+ * Identifies a previewed diff, so applying it can check that nothing moved
+ * since. The same prices always diff, and so hash, the same way as long as
+ * both lists come in a stable order.
+ */
+export function hashPriceDiff(diff: PriceDiff) {
+  return createHash("sha256").update(JSON.stringify(diff)).digest("hex");
+}
+
+/**
+ * Compares an imported price list with the current one. The file replaces
+ * the whole table, so rows missing from it are deleted.
+ */
+export function diffPrices(
+  incoming: PriceRow[],
+  current: PriceRow[]
+): PriceDiff {
+  const currentByKey = new Map(
+    current.map((row) => [`${row.itemName}-${row.tier}`, row])
+  );
+  const incomingKeys = new Set(
+    incoming.map((row) => `${row.itemName}-${row.tier}`)
+  );
+
+  const diff: PriceDiff = {
+    created: [],
+    updated: [],
+    deleted: [],
+    unchanged: 0,
+  };
+
+  for (const row of incoming) {
+    const existing = currentByKey.get(`${row.itemName}-${row.tier}`);
+    if (!existing) {
+      diff.created.push(row);
+    } else if (existing.price !== row.price) {
+      diff.updated.push({ ...row, previousPrice: existing.price });
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  diff.deleted = current.filter(
+    (row) => !incomingKeys.has(`${row.itemName}-${row.tier}`)
+  );
+
+  return diff;
+}
+
+function escapeCsvField(value: string) {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function pricesToCsv(rows: PriceRow[]) {
+  return [
+    CSV_HEADER.join(","),
+    ...rows.map((row) =>
+      [escapeCsvField(row.itemName), row.tier, row.price].join(",")
+    ),
+  ].join("\n");
+}
@@ -1,4 +1,6 @@
 // Client-safe pricing library with caching
+import type { MarketPriceSuggestion } from "@/lib/market-price";
+
 export interface PricingData {
   lastUpdated: string;
   version: string;
@@ -143,27 +145,25 @@ export function formatPriceWhole(price: number): string {
   return `${Math.round(price).toLocaleString()} HC`;
 }
 
-// Get price suggestion for order creation
+// Get price suggestion for order creation, blending the reference price with
+// recent completed trades
 export async function getPriceSuggestion(
   itemName: string,
-  tier: number
-): Promise<{
-  suggested: number;
-  found: boolean;
-}> {
-  const price = await getItemPrice(itemName, tier);
+  tier: number,
+  lookbackDays?: number
+): Promise<MarketPriceSuggestion & { found: boolean }> {
+  const params = new URLSearchParams({ itemName, tier: tier.toString() });
+  if (lookbackDays) {
+    params.set("days", lookbackDays.toString());
+  }
 
-  if (price !== null) {
-    return {
-      suggested: price,
-      found: true,
-    };
+  const response = await fetch(`/api/pricing/suggestion?${params}`);
+  if (!response.ok) {
+    throw new Error("Failed to fetch price suggestion");
   }
 
-  return {
-    suggested: 1.0,
-    found: false,
-  };
+  const suggestion: MarketPriceSuggestion = await response.json();
+  return { ...suggestion, found: suggestion.suggested !== null };
 }
 
 // Get pricing metadata
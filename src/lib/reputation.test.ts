@@ -0,0 +1,84 @@
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+
+// Only the pure helpers are tested here; a stand-in Prisma client keeps the
+// module from starting a real one on import
+Object.assign(globalThis, { prisma: {} });
+
+let countAbandonments: typeof import("./reputation").countAbandonments;
+let toReputation: typeof import("./reputation").toReputation;
+
+before(async () => {
+  ({ countAbandonments, toReputation } = await import("./reputation"));
+});
+
+const at = (minute: number) => new Date(Date.UTC(2024, 0, 1, 0, minute));
+
+const claims = [
+  { orderId: "order-1", fillId: "fill-1", createdAt: at(0) },
+  { orderId: "order-2", fillId: "fill-2", createdAt: at(0) },
+  { orderId: "order-3", fillId: "fill-3", createdAt: at(0) },
+];
+
+test("every release of the user's claims counts when nothing was edited", () => {
+  const releases = [
+    { orderId: "order-1", fillId: "fill-1", createdAt: at(10) },
+    { orderId: "order-2", fillId: "fill-2", createdAt: at(10) },
+  ];
+
+  assert.equal(countAbandonments(claims, releases, []), 2);
+});
+
+test("a release after the order was edited under the claim doesn't count", () => {
+  const releases = [
+    { orderId: "order-1", fillId: "fill-1", createdAt: at(10) },
+    { orderId: "order-2", fillId: "fill-2", createdAt: at(10) },
+  ];
+  const edits = [{ orderId: "order-1", createdAt: at(5) }];
+
+  assert.equal(countAbandonments(claims, releases, edits), 1);
+});
+
+test("edits before the claim or after the release still count it", () => {
+  const laterClaims = [
+    { orderId: "order-1", fillId: "fill-1", createdAt: at(10) },
+  ];
+  const releases = [
+    { orderId: "order-1", fillId: "fill-1", createdAt: at(20) },
+  ];
+  const edits = [
+    { orderId: "order-1", createdAt: at(5) },
+    { orderId: "order-1", createdAt: at(25) },
+  ];
+
+  assert.equal(countAbandonments(laterClaims, releases, edits), 1);
+});
+
+test("edits to other orders don't excuse a release", () => {
+  const releases = [
+    { orderId: "order-3", fillId: "fill-3", createdAt: at(10) },
+  ];
+  const edits = [{ orderId: "order-1", createdAt: at(5) }];
+
+  assert.equal(countAbandonments(claims, releases, edits), 1);
+});
+
+test("releases of someone else's claims are ignored", () => {
+  const releases = [
+    { orderId: "order-1", fillId: "another-fill", createdAt: at(10) },
+  ];
+
+  assert.equal(countAbandonments(claims, releases, []), 0);
+});
+
+test("toReputation averages to one decimal and is null before any rating", () => {
+  assert.deepEqual(
+    toReputation({ ratingCount: 3, ratingTotal: 13, abandonedClaims: 2 }),
+    { ratingCount: 3, averageRating: 4.3, abandonedClaims: 2 }
+  );
+  assert.equal(
+    toReputation({ ratingCount: 0, ratingTotal: 0, abandonedClaims: 0 })
+      .averageRating,
+    null
+  );
+});
@@ -0,0 +1,159 @@
+import { Prisma } from "@prisma/client";
+// Relative so the recount script compiles without the path alias
+import { prisma } from "./prisma";
+
+// Reputation is kept as running totals on User so it can be shown next to
+// every name on the order board without extra queries. Ratings add to
+// ratingCount/ratingTotal here; abandonedClaims is recounted from the order
+// audit trail by releaseFill whenever one of the user's claims is released.
+
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+export const MAX_RATING_COMMENT_LENGTH = 500;
+
+export interface Reputation {
+  ratingCount: number;
+  // Null until the user has been rated at least once
+  averageRating: number | null;
+  abandonedClaims: number;
+}
+
+/**
+ * The rater already rated this trade. Maps to HTTP 409.
+ */
+export class DuplicateRatingError extends Error {
+  readonly status = 409;
+
+  constructor(message: string = "You already rated this trade") {
+    super(message);
+    this.name = "DuplicateRatingError";
+  }
+}
+
+export function toReputation(user: {
+  ratingCount: number;
+  ratingTotal: number;
+  abandonedClaims: number;
+}): Reputation {
+  return {
+    ratingCount: user.ratingCount,
+    averageRating:
+      user.ratingCount > 0
+        ? Math.round((user.ratingTotal / user.ratingCount) * 10) / 10
+        : null,
+    abandonedClaims: user.abandonedClaims,
+  };
+}
+
+/**
+ * Records one side's rating of the other for a FULFILLED fill and adds it to
+ * the ratee's totals. Each party can rate a fill once.
+ */
+export async function rateTrade({
+  fillId,
+  raterId,
+  rateeId,
+  score,
+  comment,
+}: {
+  fillId: string;
+  raterId: string;
+  rateeId: string;
+  score: number;
+  comment?: string;
+}) {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const rating = await tx.tradeRating.create({
+        data: { fillId, raterId, rateeId, score, comment },
+      });
+
+      await tx.user.update({
+        where: { id: rateeId },
+        data: {
+          ratingCount: { increment: 1 },
+          ratingTotal: { increment: score },
+        },
+      });
+
+      return rating;
+    });
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      throw new DuplicateRatingError();
+    }
+    throw error;
+  }
+}
+
+interface TrailEvent {
+  orderId: string;
+  fillId: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Counts the releases that hold against a claimer, given their claims, the
+ * releases of those claims and the edits to the orders involved. A claim let
+ * go after the order was edited under it doesn't count: the trade the
+ * claimer signed up for changed.
+ */
+export function countAbandonments(
+  claims: TrailEvent[],
+  releases: TrailEvent[],
+  edits: Omit<TrailEvent, "fillId">[]
+) {
+  const claimedAt = new Map(
+    claims.map((claim) => [claim.fillId, claim.createdAt])
+  );
+
+  return releases.filter((release) => {
+    const since = claimedAt.get(release.fillId);
+    if (!since) return false;
+
+    return !edits.some(
+      (edit) =>
+        edit.orderId === release.orderId &&
+        edit.createdAt > since &&
+        edit.createdAt <= release.createdAt
+    );
+  }).length;
+}
+
+/**
+ * Counts a user's abandoned claims from the order audit trail: claims they
+ * unclaimed or that timed out, minus those released after an edit. Fills are
+ * deleted on release, so the claimer comes from the "claimed" event.
+ */
+export async function countAbandonedClaims(
+  userId: string,
+  client: Prisma.TransactionClient = prisma
+) {
+  const claims = await client.orderEvent.findMany({
+    where: { type: "claimed", actorId: userId, fillId: { not: null } },
+    select: { orderId: true, fillId: true, createdAt: true },
+  });
+  if (claims.length === 0) return 0;
+
+  const releases = await client.orderEvent.findMany({
+    where: {
+      type: "unclaimed",
+      fillId: { in: claims.map((claim) => claim.fillId!) },
+    },
+    select: { orderId: true, fillId: true, createdAt: true },
+  });
+  if (releases.length === 0) return 0;
+
+  const edits = await client.orderEvent.findMany({
+    where: {
+      type: "edited",
+      orderId: { in: releases.map((release) => release.orderId) },
+    },
+    select: { orderId: true, createdAt: true },
+  });
+
+  return countAbandonments(claims, releases, edits);
+}
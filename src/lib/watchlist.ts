@@ -0,0 +1,42 @@
+import { OrderType } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+/**
+ * Finds the watchlist entries a new order satisfies, excluding the creator's
+ * own. Each user appears at most once, even if several of their entries match.
+ */
+export async function findWatchersForOrder(order: {
+  itemName: string;
+  tier: number;
+  orderType: OrderType;
+  pricePerUnit: number;
+  creatorId: string;
+}) {
+  const watches = await prisma.watchlist.findMany({
+    where: {
+      itemName: order.itemName,
+      userId: { not: order.creatorId },
+      AND: [
+        { OR: [{ tier: null }, { tier: order.tier }] },
+        { OR: [{ orderType: null }, { orderType: order.orderType }] },
+        { OR: [{ minPrice: null }, { minPrice: { lte: order.pricePerUnit } }] },
+        { OR: [{ maxPrice: null }, { maxPrice: { gte: order.pricePerUnit } }] },
+      ],
+    },
+    include: {
+      user: {
+        select: {
+          discordId: true,
+        },
+      },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const seen = new Set<string>();
+  return watches.filter((watch) => {
+    if (seen.has(watch.userId)) return false;
+    seen.add(watch.userId);
+    return true;
+  });
+}
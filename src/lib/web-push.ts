@@ -0,0 +1,126 @@
+import webpush from "web-push";
+import { prisma } from "@/lib/prisma";
+
+// What the service worker receives and shows as a system notification
+export interface PushPayload {
+  title: string;
+  message: string;
+  type: string;
+  orderId?: string;
+  url?: string;
+}
+
+let configured: boolean | null = null;
+
+const FALLBACK_VAPID_SUBJECT = "mailto:admin@localhost";
+
+// web-push only accepts a mailto: or https: contact, so anything else (an
+// empty VAPID_SUBJECT, a local http NEXTAUTH_URL) falls back to a mailto:
+function getVapidSubject() {
+  for (const candidate of [
+    process.env.VAPID_SUBJECT,
+    process.env.NEXTAUTH_URL,
+  ]) {
+    const subject = candidate?.trim();
+    if (subject && /^(mailto:|https:\/\/)/.test(subject)) {
+      return subject;
+    }
+  }
+  return FALLBACK_VAPID_SUBJECT;
+}
+
+/**
+ * Whether VAPID keys are set and accepted. Generate a pair with
+ * `npx web-push generate-vapid-keys`.
+ */
+export function isWebPushConfigured() {
+  if (configured === null) {
+    const publicKey = process.env.VAPID_PUBLIC_KEY;
+    const privateKey = process.env.VAPID_PRIVATE_KEY;
+
+    configured = false;
+    if (publicKey && privateKey) {
+      try {
+        webpush.setVapidDetails(getVapidSubject(), publicKey, privateKey);
+        configured = true;
+      } catch (error) {
+        console.error("Invalid VAPID configuration, web push disabled:", error);
+      }
+    }
+  }
+
+  return configured;
+}
+
+// Push services of the browsers we support. Subscription endpoints are
+// supplied by the client and fetched by the server, so anything else is
+// refused rather than letting a user point the server at an arbitrary URL.
+const PUSH_SERVICE_HOSTS = [
+  "fcm.googleapis.com",
+  "android.googleapis.com",
+  "updates.push.services.mozilla.com",
+];
+const PUSH_SERVICE_HOST_SUFFIXES = [".notify.windows.com", ".push.apple.com"];
+
+export function isAllowedPushEndpoint(endpoint: string) {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+
+  if (url.protocol !== "https:" || url.port !== "" || url.username) {
+    return false;
+  }
+
+  const host = url.hostname.toLowerCase();
+  return (
+    PUSH_SERVICE_HOSTS.includes(host) ||
+    PUSH_SERVICE_HOST_SUFFIXES.some((suffix) => host.endsWith(suffix))
+  );
+}
+
+export function getVapidPublicKey() {
+  return isWebPushConfigured() ? process.env.VAPID_PUBLIC_KEY! : null;
+}
+
+/**
+ * Pushes a notification to every browser the user subscribed. Subscriptions
+ * the push service reports as gone are removed.
+ */
+export async function sendWebPush(userId: string, payload: PushPayload) {
+  if (!isWebPushConfigured()) return;
+
+  const subscriptions = (
+    await prisma.pushSubscription.findMany({
+      where: { userId },
+    })
+  ).filter((subscription) => isAllowedPushEndpoint(subscription.endpoint));
+
+  const body = JSON.stringify(payload);
+
+  await Promise.all(
+    subscriptions.map(async (subscription) => {
+      try {
+        await webpush.sendNotification(
+          {
+            endpoint: subscription.endpoint,
+            keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+          },
+          body,
+          { TTL: 60 * 60 * 24 }
+        );
+      } catch (error: any) {
+        if (error?.statusCode === 404 || error?.statusCode === 410) {
+          // The user revoked permission or the browser dropped the subscription
+          await prisma.pushSubscription
+            .delete({ where: { id: subscription.id } })
+            .catch(() => {});
+        } else {
+          console.error("Failed to send web push:", error);
+        }
+      }
+    })
+  );
+}
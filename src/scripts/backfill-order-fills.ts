@@ -0,0 +1,62 @@
+import { prisma } from "../lib/prisma";
+
+async function backfillOrderFills() {
+  try {
+    console.log("Starting order fill backfill...");
+
+    // Orders claimed before partial fills existed have a claimer but no fills
+    const claimedOrders = await prisma.order.findMany({
+      where: {
+        claimerId: { not: null },
+        status: { not: "OPEN" },
+        fills: { none: {} },
+      },
+    });
+
+    console.log(`Found ${claimedOrders.length} claimed orders to migrate`);
+
+    let migrated = 0;
+    for (const order of claimedOrders) {
+      await prisma.$transaction([
+        prisma.orderFill.create({
+          data: {
+            orderId: order.id,
+            claimerId: order.claimerId!,
+            amount: order.amount,
+            status: order.status,
+            createdAt: order.updatedAt,
+            fulfilledAt: order.fulfilledAt,
+          },
+        }),
+        prisma.order.update({
+          where: { id: order.id },
+          data: { claimedAmount: order.amount },
+        }),
+      ]);
+      migrated++;
+    }
+
+    console.log(`Successfully created ${migrated} order fills`);
+    console.log("Order fill backfill completed!");
+  } catch (error) {
+    console.error("Error backfilling order fills:", error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the script if called directly
+if (require.main === module) {
+  backfillOrderFills()
+    .then(() => {
+      console.log("Migration completed successfully");
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("Migration failed:", error);
+      process.exit(1);
+    });
+}
+
+export { backfillOrderFills };
@@ -0,0 +1,53 @@
+import { prisma } from "../lib/prisma";
+import { countAbandonedClaims } from "../lib/reputation";
+
+async function recountAbandonedClaims() {
+  try {
+    console.log("Starting abandoned claim recount...");
+
+    // The counter used to be bumped on every release, including claims let go
+    // after the creator edited the order. Recounting only ever lowers it, so
+    // users already at zero are skipped.
+    const users = await prisma.user.findMany({
+      where: { abandonedClaims: { gt: 0 } },
+      select: { id: true, abandonedClaims: true },
+    });
+
+    console.log(`Found ${users.length} users with abandoned claims`);
+
+    let corrected = 0;
+    for (const user of users) {
+      const abandonedClaims = await countAbandonedClaims(user.id);
+      if (abandonedClaims !== user.abandonedClaims) {
+        await prisma.user.update({
+          where: { id: user.id },
+          data: { abandonedClaims },
+        });
+        corrected++;
+      }
+    }
+
+    console.log(`Corrected abandoned claims for ${corrected} users`);
+    console.log("Abandoned claim recount completed!");
+  } catch (error) {
+    console.error("Error recounting abandoned claims:", error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the script if called directly
+if (require.main === module) {
+  recountAbandonedClaims()
+    .then(() => {
+      console.log("Recount completed successfully");
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("Recount failed:", error);
+      process.exit(1);
+    });
+}
+
+export { recountAbandonedClaims };